@@ -0,0 +1,149 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { ParsedArgs } from 'minimist';
+import { z } from 'zod';
+import { LOG_LEVELS } from '../lib/logger.js';
+import { REDACTION_FIELDS } from '../lib/pii-redaction.js';
+import { DEFAULT_CONFIG_FILE } from './constants.js';
+import type { ConfigFile, ConfigProfile, LoadProfileResult } from './types.js';
+
+const profileSchema = z.strictObject({
+  apiKeyEnv: z.string().nonempty().optional(),
+  sender: z.string().optional(),
+  replyTo: z.array(z.string()).optional(),
+  tools: z.array(z.string()).optional(),
+  excludeTools: z.array(z.string()).optional(),
+  readOnly: z.boolean().optional(),
+  dryRun: z.boolean().optional(),
+  transport: z.enum(['stdio', 'http']).optional(),
+  port: z.number().int().min(1).max(65535).optional(),
+  host: z.string().nonempty().optional(),
+  allowedHosts: z.array(z.string().nonempty()).optional(),
+  allowedOrigins: z.array(z.string().nonempty()).optional(),
+  accounts: z.record(z.string(), z.string().nonempty()).optional(),
+  apiUrl: z.url({ protocol: /^https?$/ }).optional(),
+  dashboardUrl: z.url({ protocol: /^https?$/ }).optional(),
+  cacheTtl: z.number().int().min(0).optional(),
+  logLevel: z.enum(LOG_LEVELS).optional(),
+  logFile: z.string().nonempty().optional(),
+  redact: z.array(z.enum(REDACTION_FIELDS)).optional(),
+  auditLog: z.string().nonempty().optional(),
+  oauth: z.boolean().optional(),
+  publicUrl: z.url({ protocol: /^https?$/ }).optional(),
+  stateless: z.boolean().optional(),
+  eventStore: z.string().nonempty().optional(),
+  sessionIdleTimeout: z.number().int().min(0).optional(),
+  sessionMaxAge: z.number().int().min(0).optional(),
+  maxSessionsPerKey: z.number().int().min(0).optional(),
+}) satisfies z.ZodType<ConfigProfile>;
+
+const configFileSchema = z.strictObject({
+  defaultProfile: z.string().optional(),
+  profiles: z.record(z.string(), profileSchema),
+}) satisfies z.ZodType<ConfigFile>;
+
+/**
+ * Profile fields that send the API key elsewhere or write to files. A config
+ * file picked up from the working directory may not be trusted, so these are
+ * only read from a file passed with --config.
+ */
+const EXPLICIT_CONFIG_ONLY_FIELDS = [
+  'apiUrl',
+  'dashboardUrl',
+  'logFile',
+  'auditLog',
+  'eventStore',
+] as const satisfies readonly (keyof ConfigProfile)[];
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== ''
+    ? value.trim()
+    : undefined;
+}
+
+/**
+ * Parse and validate the contents of a config file.
+ */
+export function parseConfigFile(
+  text: string,
+  source: string,
+): { ok: true; file: ConfigFile } | { ok: false; error: string } {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (err) {
+    return {
+      ok: false,
+      error: `Invalid JSON in ${source}: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+
+  const result = configFileSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    return { ok: false, error: `Invalid config file ${source}: ${issues}` };
+  }
+  return { ok: true, file: result.data };
+}
+
+/**
+ * Load the selected profile from the config file.
+ * The path comes from --config or MCP_CONFIG, else resend-mcp.config.json in
+ * cwd. The profile comes from --profile or MCP_PROFILE, else the file's
+ * defaultProfile. A missing default file just means no profile. Fields in
+ * EXPLICIT_CONFIG_ONLY_FIELDS are refused unless the file came from --config.
+ */
+export function loadConfigProfile(
+  parsed: ParsedArgs,
+  env: NodeJS.ProcessEnv,
+  cwd: string = process.cwd(),
+): LoadProfileResult {
+  const explicitPath = readString(parsed.config) ?? readString(env.MCP_CONFIG);
+  const profileName = readString(parsed.profile) ?? readString(env.MCP_PROFILE);
+  const filePath = path.resolve(cwd, explicitPath ?? DEFAULT_CONFIG_FILE);
+
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, 'utf8');
+  } catch (err) {
+    const missing = (err as NodeJS.ErrnoException).code === 'ENOENT';
+    if (missing && !explicitPath && !profileName) {
+      return { ok: true, profile: {} };
+    }
+    return {
+      ok: false,
+      error: missing
+        ? `Config file not found: ${filePath}`
+        : `Failed to read config file ${filePath}: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+
+  const result = parseConfigFile(text, filePath);
+  if (!result.ok) return result;
+
+  const name = profileName ?? result.file.defaultProfile;
+  if (name === undefined) return { ok: true, profile: {} };
+
+  if (!Object.hasOwn(result.file.profiles, name)) {
+    const available = Object.keys(result.file.profiles).join(', ') || 'none';
+    return {
+      ok: false,
+      error: `Unknown profile "${name}" in ${filePath}. Available profiles: ${available}`,
+    };
+  }
+  const profile = result.file.profiles[name];
+  if (readString(parsed.config) === undefined) {
+    const refused = EXPLICIT_CONFIG_ONLY_FIELDS.filter((field) =>
+      Object.hasOwn(profile, field),
+    );
+    if (refused.length > 0) {
+      return {
+        ok: false,
+        error: `${refused.join(', ')} in profile "${name}" of ${filePath} can send your API key elsewhere or write files, so ${refused.length === 1 ? 'it is' : 'they are'} only read from a config file passed with --config. Run with --config ${filePath} if you trust it`,
+      };
+    }
+  }
+  return { ok: true, profile };
+}
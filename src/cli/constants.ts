@@ -3,6 +3,31 @@ export const CLI_STRING_OPTIONS = [
   'sender',
   'reply-to',
   'port',
+  'host',
+  'allowed-hosts',
+  'allowed-origins',
+  'tools',
+  'exclude-tools',
+  'config',
+  'profile',
+  'account',
+  'api-url',
+  'dashboard-url',
+  'cache-ttl',
+  'log-level',
+  'log-file',
+  'redact',
+  'audit-log',
+  'public-url',
+  'event-store',
+  'session-idle-timeout',
+  'session-max-age',
+  'max-sessions-per-key',
 ] as const;
 
 export const DEFAULT_HTTP_PORT = 3000;
+
+/** Loopback only, so other machines can't reach the server unless asked. */
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+
+export const DEFAULT_CONFIG_FILE = 'resend-mcp.config.json';
@@ -12,6 +12,47 @@ Options:
   --reply-to <email>       Reply-to; repeat for multiple (or REPLY_TO_EMAIL_ADDRESSES)
   --http                   Run HTTP server (Streamable HTTP at /mcp) instead of stdio
   --port <number>          HTTP port when using --http (default: 3000, or MCP_PORT)
+  --host <address>         Address to listen on with --http (default: 127.0.0.1)
+  --allowed-hosts <names>  Host header values to accept, against DNS rebinding;
+                           comma-separated (default: the --host address and localhost names)
+  --allowed-origins <list> Browser origins allowed to call /mcp, with CORS headers;
+                           comma-separated, or * for any (default: none)
+  --oauth                  With --http, sign clients in with OAuth 2.1 instead of
+                           taking Resend API keys as Bearer tokens
+  --public-url <url>       Base URL clients reach the server at, used as the OAuth
+                           issuer (default: http://localhost:<port>)
+  --stateless              With --http, serve each request with a fresh server and no
+                           sessions, so replicas can sit behind any load balancer
+  --event-store <target>   With --http, keep sent SSE messages so clients reconnecting
+                           with Last-Event-ID get the ones they missed: "memory" or a
+                           JSONL file path
+  --session-idle-timeout <seconds>
+                           Close HTTP sessions idle this long; 0 disables (default: 1800)
+  --session-max-age <seconds>
+                           Close HTTP sessions this long after they open; 0 disables
+                           (default: 86400)
+  --max-sessions-per-key <n>
+                           Most open HTTP sessions per API key; 0 disables (default: 10)
+  --tools <names>          Only register these tools or groups; comma-separated or repeated
+  --exclude-tools <names>  Never register these tools or groups; comma-separated or repeated
+  --read-only              Only register tools that do not modify data (list-*/get-*)
+  --dry-run                Preview sends and removals without calling Resend; other
+                           mutating tools are not registered
+  --config <path>          Config file (default: ./resend-mcp.config.json if present)
+                           URL and file path settings are only read from --config
+  --profile <name>         Profile from the config file (default: its defaultProfile)
+  --account <name>=<key>   Named Resend account; repeat for several (stdio only).
+                           Adds list-accounts and switch-account; --key becomes "default"
+  --api-url <url>          Resend API base URL, e.g. a local mock (default: https://api.resend.com)
+  --dashboard-url <url>    Resend dashboard base URL (default: https://resend.com)
+  --cache-ttl <seconds>    Reuse GET responses for this long, e.g. 30 (default: 0, off)
+  --log-level <level>      error, warn, info (every tool call) or debug (every request)
+                           (default: warn)
+  --log-file <path>        Append JSON log lines to this file instead of stderr
+  --redact <fields>        Mask personal data in tool outputs with stable pseudonyms;
+                           comma-separated: emails, names, bodies, properties
+  --audit-log <path>       Append every mutating tool call to this JSONL file and
+                           register list-audit-entries
   -h, --help               Show this help
 
 Environment:
@@ -19,6 +60,63 @@ Environment:
   SENDER_EMAIL_ADDRESS     Optional
   REPLY_TO_EMAIL_ADDRESSES Optional, comma-separated
   MCP_PORT                 HTTP port when using --http (optional)
+  MCP_HOST                 Same as --host (optional)
+  MCP_ALLOWED_HOSTS        Same as --allowed-hosts, comma-separated (optional)
+  MCP_ALLOWED_ORIGINS      Same as --allowed-origins, comma-separated (optional)
+  MCP_OAUTH                Set to "true" for the same effect as --oauth (optional)
+  MCP_PUBLIC_URL           Same as --public-url (optional)
+  MCP_STATELESS            Set to "true" for the same effect as --stateless (optional)
+  MCP_EVENT_STORE          Same as --event-store (optional)
+  MCP_SESSION_IDLE_TIMEOUT Same as --session-idle-timeout (optional)
+  MCP_SESSION_MAX_AGE      Same as --session-max-age (optional)
+  MCP_MAX_SESSIONS_PER_KEY Same as --max-sessions-per-key (optional)
+  MCP_TOOLS                Same as --tools, comma-separated (optional)
+  MCP_EXCLUDE_TOOLS        Same as --exclude-tools, comma-separated (optional)
+  MCP_READ_ONLY            Set to "true" for the same effect as --read-only (optional)
+  MCP_DRY_RUN              Set to "true" for the same effect as --dry-run (optional)
+  MCP_CONFIG               Same as --config (optional)
+  MCP_PROFILE              Same as --profile (optional)
+  RESEND_ACCOUNTS          Same as --account, comma-separated name=key entries (optional)
+  RESEND_API_URL           Same as --api-url (optional)
+  RESEND_DASHBOARD_URL     Same as --dashboard-url (optional)
+  MCP_CACHE_TTL            Same as --cache-ttl (optional)
+  MCP_LOG_LEVEL            Same as --log-level (optional)
+  MCP_LOG_FILE             Same as --log-file (optional)
+  MCP_REDACT               Same as --redact, comma-separated (optional)
+  MCP_AUDIT_LOG            Same as --audit-log (optional)
+
+Config file:
+  {
+    "defaultProfile": "staging",
+    "profiles": {
+      "staging": {
+        "apiKeyEnv": "RESEND_STAGING_API_KEY",
+        "sender": "dev@staging.example.com",
+        "replyTo": ["support@example.com"],
+        "tools": ["emails", "contacts"],
+        "readOnly": false,
+        "accounts": { "eu-team": "RESEND_EU_API_KEY" }
+      },
+      "production": {
+        "apiKeyEnv": "RESEND_PRODUCTION_API_KEY",
+        "transport": "http",
+        "port": 3001
+      }
+    }
+  }
+  Every profile field is optional. Precedence: config file < env < flags.
+  apiKeyEnv names the env var holding the key; keys are never stored in the file.
+  When set, that variable is used over RESEND_API_KEY (--key still wins).
+  Profile fields: apiKeyEnv, sender, replyTo, tools, excludeTools, readOnly,
+  dryRun, transport ("stdio" or "http"), port, host, allowedHosts,
+  allowedOrigins, accounts (account name to key env var), apiUrl, dashboardUrl,
+  cacheTtl, logLevel, logFile, redact, auditLog, oauth, publicUrl, stateless,
+  eventStore, sessionIdleTimeout, sessionMaxAge, maxSessionsPerKey.
+
+Tool groups:
+  accounts, api-keys, audit, automations, broadcasts, contact-properties,
+  contacts, domains, editor, emails, events, logs, segments, templates, topics,
+  webhooks
 `.trim();
 
 export function printHelp(): void {
@@ -1,10 +1,12 @@
 import type { ParsedArgs } from 'minimist';
+import { loadConfigProfile } from './config-file.js';
 import { printHelp } from './help.js';
 import { resolveConfig } from './resolve.js';
 import type { CliConfig } from './types.js';
 
 /**
- * Resolve config from argv and env, or print help/error and exit.
+ * Resolve config from the config file, env and argv, or print help/error and
+ * exit.
  */
 export function resolveConfigOrExit(
   argv: ParsedArgs,
@@ -15,7 +17,13 @@ export function resolveConfigOrExit(
     process.exit(0);
   }
 
-  const result = resolveConfig(argv, env);
+  const loaded = loadConfigProfile(argv, env);
+  if (!loaded.ok) {
+    console.error('Error:', loaded.error);
+    process.exit(1);
+  }
+
+  const result = resolveConfig(argv, env, loaded.profile);
   if (!result.ok) {
     console.error('Error:', result.error);
     process.exit(1);
@@ -23,6 +31,7 @@ export function resolveConfigOrExit(
   return result.config;
 }
 
+export { loadConfigProfile, parseConfigFile } from './config-file.js';
 export { HELP_TEXT, printHelp } from './help.js';
 export { parseArgs } from './parse.js';
 export { resolveConfig } from './resolve.js';
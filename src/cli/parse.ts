@@ -8,7 +8,7 @@ import { CLI_STRING_OPTIONS } from './constants.js';
 export function parseArgs(argv: string[] = process.argv.slice(2)): ParsedArgs {
   return minimist(argv, {
     string: [...CLI_STRING_OPTIONS],
-    boolean: ['help', 'http'],
+    boolean: ['help', 'http', 'read-only', 'dry-run', 'oauth', 'stateless'],
     alias: { h: 'help' },
   });
 }
@@ -31,3 +31,29 @@ export function parseReplierAddresses(
   }
   return [];
 }
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse a list option (e.g. --tools) from argv and env. argv wins, then env,
+ * then the fallback (e.g. from a config file profile).
+ * The option may be repeated, and every value may be comma-separated.
+ */
+export function parseListOption(
+  parsed: ParsedArgs,
+  option: string,
+  envValue: string | undefined,
+  fallback: readonly string[] = [],
+): string[] {
+  const fromArg = parsed[option];
+  if (typeof fromArg === 'string' || Array.isArray(fromArg)) {
+    return ([] as string[]).concat(fromArg).flatMap(splitList);
+  }
+  if (typeof envValue === 'string') return splitList(envValue);
+  return [...fallback];
+}
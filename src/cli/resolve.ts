@@ -1,9 +1,23 @@
 import type { ParsedArgs } from 'minimist';
-import { DEFAULT_HTTP_PORT } from './constants.js';
-import { parseReplierAddresses } from './parse.js';
-import type { ResolveResult } from './types.js';
+import type { ResendAccount } from '../lib/accounts.js';
+import { DEFAULT_LOG_LEVEL, LOG_LEVELS, type LogLevel } from '../lib/logger.js';
+import { REDACTION_FIELDS, type RedactionField } from '../lib/pii-redaction.js';
+import { DEFAULT_CACHE_TTL_SECONDS } from '../lib/response-cache.js';
+import {
+  DEFAULT_MAX_SESSIONS_PER_KEY,
+  DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS,
+  DEFAULT_SESSION_MAX_AGE_SECONDS,
+} from '../lib/session-registry.js';
+import { findUnknownToolNames } from '../lib/tool-filter.js';
+import { DEFAULT_HTTP_HOST, DEFAULT_HTTP_PORT } from './constants.js';
+import { parseListOption, parseReplierAddresses } from './parse.js';
+import type { ConfigProfile, ResolveResult } from './types.js';
 
-function parsePort(parsed: ParsedArgs, env: NodeJS.ProcessEnv): number {
+function parsePort(
+  parsed: ParsedArgs,
+  env: NodeJS.ProcessEnv,
+  profile: ConfigProfile,
+): number {
   const fromArg =
     typeof parsed.port === 'string' && parsed.port.trim() !== ''
       ? Number.parseInt(parsed.port.trim(), 10)
@@ -16,30 +30,244 @@ function parsePort(parsed: ParsedArgs, env: NodeJS.ProcessEnv): number {
       : NaN;
   if (Number.isInteger(fromEnv) && fromEnv > 0 && fromEnv < 65536)
     return fromEnv;
-  return DEFAULT_HTTP_PORT;
+  return profile.port ?? DEFAULT_HTTP_PORT;
+}
+
+/**
+ * Read the origins allowed to call the HTTP server from a browser, from
+ * --allowed-origins, MCP_ALLOWED_ORIGINS or the profile. Each must be an
+ * http(s) origin, or `*` for any.
+ */
+function parseAllowedOrigins(
+  parsed: ParsedArgs,
+  env: NodeJS.ProcessEnv,
+  profile: ConfigProfile,
+): { ok: true; origins: string[] } | { ok: false; error: string } {
+  const origins: string[] = [];
+  for (const raw of parseListOption(
+    parsed,
+    'allowed-origins',
+    env.MCP_ALLOWED_ORIGINS,
+    profile.allowedOrigins,
+  )) {
+    if (raw === '*') {
+      origins.push(raw);
+      continue;
+    }
+    const url = URL.canParse(raw) ? new URL(raw) : null;
+    if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+      return {
+        ok: false,
+        error: `Invalid --allowed-origins "${raw}". Use origins like https://app.example.com, or * for any`,
+      };
+    }
+    origins.push(url.origin);
+  }
+  return { ok: true, origins: [...new Set(origins)] };
+}
+
+/**
+ * Read a base URL from a flag, env var or profile value. Must be http(s).
+ */
+function parseUrlOption(
+  parsed: ParsedArgs,
+  option: 'api-url' | 'dashboard-url' | 'public-url',
+  envValue: string | undefined,
+  fallback: string | undefined,
+): { ok: true; url?: string } | { ok: false; error: string } {
+  const raw =
+    (typeof parsed[option] === 'string' && parsed[option].trim()) ||
+    envValue?.trim() ||
+    fallback;
+  if (!raw) return { ok: true };
+  const url = URL.canParse(raw) ? new URL(raw) : null;
+  if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+    return {
+      ok: false,
+      error: `Invalid --${option} "${raw}". Use an http:// or https:// URL`,
+    };
+  }
+  return { ok: true, url: raw.replace(/\/+$/, '') };
+}
+
+/**
+ * Read a whole number, such as a duration in seconds or a count, from a
+ * flag, env var or profile value. `hint` completes the error message.
+ */
+function parseWholeNumber(
+  parsed: ParsedArgs,
+  option:
+    | 'cache-ttl'
+    | 'session-idle-timeout'
+    | 'session-max-age'
+    | 'max-sessions-per-key',
+  envValue: string | undefined,
+  fallback: number,
+  hint: string,
+): { ok: true; value: number } | { ok: false; error: string } {
+  const raw =
+    (typeof parsed[option] === 'string' && parsed[option].trim()) ||
+    envValue?.trim();
+  if (!raw) return { ok: true, value: fallback };
+  if (!/^\d+$/.test(raw)) {
+    return { ok: false, error: `Invalid --${option} "${raw}". Use ${hint}` };
+  }
+  return { ok: true, value: Number(raw) };
+}
+
+/** Read the log level from --log-level, MCP_LOG_LEVEL or the profile. */
+function parseLogLevel(
+  parsed: ParsedArgs,
+  env: NodeJS.ProcessEnv,
+  profile: ConfigProfile,
+): { ok: true; level: LogLevel } | { ok: false; error: string } {
+  const raw =
+    (typeof parsed['log-level'] === 'string' && parsed['log-level'].trim()) ||
+    env.MCP_LOG_LEVEL?.trim();
+  if (!raw) return { ok: true, level: profile.logLevel ?? DEFAULT_LOG_LEVEL };
+  const level = LOG_LEVELS.find((candidate) => candidate === raw.toLowerCase());
+  if (!level) {
+    return {
+      ok: false,
+      error: `Invalid --log-level "${raw}". Use one of: ${LOG_LEVELS.join(', ')}`,
+    };
+  }
+  return { ok: true, level };
+}
+
+/** Read the personal data to redact from --redact, MCP_REDACT or the profile. */
+function parseRedact(
+  parsed: ParsedArgs,
+  env: NodeJS.ProcessEnv,
+  profile: ConfigProfile,
+): { ok: true; fields: RedactionField[] } | { ok: false; error: string } {
+  const fields: RedactionField[] = [];
+  for (const raw of parseListOption(
+    parsed,
+    'redact',
+    env.MCP_REDACT,
+    profile.redact,
+  )) {
+    const field = REDACTION_FIELDS.find(
+      (candidate) => candidate === raw.toLowerCase(),
+    );
+    if (!field) {
+      return {
+        ok: false,
+        error: `Invalid --redact "${raw}". Use any of: ${REDACTION_FIELDS.join(', ')}`,
+      };
+    }
+    if (!fields.includes(field)) fields.push(field);
+  }
+  return { ok: true, fields };
+}
+
+const ACCOUNT_NAME_PATTERN = /^[\w-]+$/;
+
+/**
+ * Parse named accounts from --account / RESEND_ACCOUNTS ("name=key" entries),
+ * falling back to the profile's accounts (name to env var name).
+ */
+function parseAccounts(
+  parsed: ParsedArgs,
+  env: NodeJS.ProcessEnv,
+  profile: ConfigProfile,
+): { ok: true; accounts: ResendAccount[] } | { ok: false; error: string } {
+  const entries = parseListOption(parsed, 'account', env.RESEND_ACCOUNTS);
+  const accounts: ResendAccount[] = [];
+
+  if (entries.length > 0) {
+    for (const entry of entries) {
+      const separator = entry.indexOf('=');
+      const name = entry.slice(0, separator).trim();
+      const apiKey = entry.slice(separator + 1).trim();
+      if (separator === -1 || !name || !apiKey) {
+        return {
+          ok: false,
+          error:
+            'Invalid account. Use --account <name>=<resend-api-key> (or name=key entries in RESEND_ACCOUNTS)',
+        };
+      }
+      accounts.push({ name, apiKey });
+    }
+  } else {
+    for (const [name, keyEnv] of Object.entries(profile.accounts ?? {})) {
+      const apiKey = env[keyEnv]?.trim();
+      if (!apiKey) {
+        return {
+          ok: false,
+          error: `No API key for account "${name}". Set ${keyEnv} (from the config profile)`,
+        };
+      }
+      accounts.push({ name, apiKey });
+    }
+  }
+
+  for (const { name } of accounts) {
+    if (!ACCOUNT_NAME_PATTERN.test(name)) {
+      return {
+        ok: false,
+        error: `Invalid account name "${name}". Use letters, digits, "-" and "_"`,
+      };
+    }
+  }
+  return { ok: true, accounts };
 }
 
 /**
- * Resolve config from parsed argv and env. No side effects, no exit.
+ * Resolve config from a config file profile, env and parsed argv, in that
+ * order of increasing precedence. The exception is the API key: the
+ * selected profile's apiKeyEnv wins over RESEND_API_KEY, since picking a
+ * profile is a request for its key. No side effects, no exit.
  */
 export function resolveConfig(
   parsed: ParsedArgs,
   env: NodeJS.ProcessEnv = process.env,
+  profile: ConfigProfile = {},
 ): ResolveResult {
   const apiKey =
     (typeof parsed.key === 'string' ? parsed.key : null) ??
+    (profile.apiKeyEnv ? env[profile.apiKeyEnv] : undefined) ??
     env.RESEND_API_KEY ??
     null;
 
-  const http = parsed.http === true;
+  const http = parsed.http === true || profile.transport === 'http';
+
+  const accountsResult = parseAccounts(parsed, env, profile);
+  if (!accountsResult.ok) return accountsResult;
+  let accounts = accountsResult.accounts;
+
+  if (accounts.length > 0) {
+    // In HTTP mode each session already brings its own key.
+    if (http) {
+      return {
+        ok: false,
+        error:
+          'Multiple accounts are only supported in stdio mode. Remove --account, RESEND_ACCOUNTS and the config profile\'s "accounts", or drop --http and the profile\'s "transport": "http"',
+      };
+    }
+    // The single key, if any, stays available as the "default" account.
+    if (apiKey?.trim()) {
+      accounts = [{ name: 'default', apiKey: apiKey.trim() }, ...accounts];
+    }
+    const names = accounts.map(({ name }) => name);
+    const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+    if (duplicate) {
+      return {
+        ok: false,
+        error: `Duplicate account name "${duplicate}". The key from --key or RESEND_API_KEY is named "default"`,
+      };
+    }
+  }
 
   // Stdio requires an API key at startup. HTTP mode is lenient because
   // each client provides their own key via the Authorization: Bearer header.
-  if (!http && (!apiKey || !apiKey.trim())) {
+  if (!http && (!apiKey || !apiKey.trim()) && accounts.length === 0) {
     return {
       ok: false,
-      error:
-        'No API key. Set RESEND_API_KEY or use --key=<your-resend-api-key>',
+      error: profile.apiKeyEnv
+        ? `No API key. Set ${profile.apiKeyEnv} (from the config profile), RESEND_API_KEY or use --key=<your-resend-api-key>`
+        : 'No API key. Set RESEND_API_KEY or use --key=<your-resend-api-key>',
     };
   }
 
@@ -47,20 +275,233 @@ export function resolveConfig(
     (typeof parsed.sender === 'string' ? parsed.sender : null) ??
     (typeof env.SENDER_EMAIL_ADDRESS === 'string'
       ? env.SENDER_EMAIL_ADDRESS.trim() || undefined
-      : undefined);
+      : undefined) ??
+    profile.sender;
+
+  const replierEmailAddresses = parseReplierAddresses(parsed, env);
 
-  const port = parsePort(parsed, env);
+  const port = parsePort(parsed, env, profile);
+
+  const tools = parseListOption(parsed, 'tools', env.MCP_TOOLS, profile.tools);
+  const excludeTools = parseListOption(
+    parsed,
+    'exclude-tools',
+    env.MCP_EXCLUDE_TOOLS,
+    profile.excludeTools,
+  );
+  const unknownTools = findUnknownToolNames([...tools, ...excludeTools]);
+  if (unknownTools.length > 0) {
+    return {
+      ok: false,
+      error: `Unknown tool or group name: ${unknownTools.join(', ')}. Run with --help to see the available groups.`,
+    };
+  }
+
+  const readOnly =
+    parsed['read-only'] === true ||
+    (env.MCP_READ_ONLY !== undefined
+      ? env.MCP_READ_ONLY.trim().toLowerCase() === 'true'
+      : profile.readOnly === true);
+
+  const dryRun =
+    parsed['dry-run'] === true ||
+    (env.MCP_DRY_RUN !== undefined
+      ? env.MCP_DRY_RUN.trim().toLowerCase() === 'true'
+      : profile.dryRun === true);
+
+  const apiUrl = parseUrlOption(
+    parsed,
+    'api-url',
+    env.RESEND_API_URL,
+    profile.apiUrl,
+  );
+  if (!apiUrl.ok) return apiUrl;
+  const dashboardUrl = parseUrlOption(
+    parsed,
+    'dashboard-url',
+    env.RESEND_DASHBOARD_URL,
+    profile.dashboardUrl,
+  );
+  if (!dashboardUrl.ok) return dashboardUrl;
+
+  const cacheTtl = parseWholeNumber(
+    parsed,
+    'cache-ttl',
+    env.MCP_CACHE_TTL,
+    profile.cacheTtl ?? DEFAULT_CACHE_TTL_SECONDS,
+    'a whole number of seconds, or 0 to disable the cache',
+  );
+  if (!cacheTtl.ok) return cacheTtl;
+
+  const logLevel = parseLogLevel(parsed, env, profile);
+  if (!logLevel.ok) return logLevel;
+  const logFile =
+    (typeof parsed['log-file'] === 'string' && parsed['log-file'].trim()) ||
+    env.MCP_LOG_FILE?.trim() ||
+    profile.logFile;
+
+  const redact = parseRedact(parsed, env, profile);
+  if (!redact.ok) return redact;
+
+  const auditLog =
+    (typeof parsed['audit-log'] === 'string' && parsed['audit-log'].trim()) ||
+    env.MCP_AUDIT_LOG?.trim() ||
+    profile.auditLog;
+
+  const oauth =
+    parsed.oauth === true ||
+    (env.MCP_OAUTH !== undefined
+      ? env.MCP_OAUTH.trim().toLowerCase() === 'true'
+      : profile.oauth === true);
+  if (oauth && !http) {
+    return {
+      ok: false,
+      error: 'OAuth is only supported in HTTP mode. Add --http',
+    };
+  }
+  const publicUrl = parseUrlOption(
+    parsed,
+    'public-url',
+    env.MCP_PUBLIC_URL,
+    profile.publicUrl,
+  );
+  if (!publicUrl.ok) return publicUrl;
+
+  const stateless =
+    parsed.stateless === true ||
+    (env.MCP_STATELESS !== undefined
+      ? env.MCP_STATELESS.trim().toLowerCase() === 'true'
+      : profile.stateless === true);
+  if (stateless && !http) {
+    return {
+      ok: false,
+      error: 'Stateless mode is only supported in HTTP mode. Add --http',
+    };
+  }
+  if (stateless && oauth) {
+    return {
+      ok: false,
+      error:
+        "OAuth sign-ins are kept in one server's memory, so --oauth cannot be combined with --stateless",
+    };
+  }
+  const eventStore =
+    (typeof parsed['event-store'] === 'string' &&
+      parsed['event-store'].trim()) ||
+    env.MCP_EVENT_STORE?.trim() ||
+    profile.eventStore;
+  if (eventStore && !http) {
+    return {
+      ok: false,
+      error: 'Event stores are only supported in HTTP mode. Add --http',
+    };
+  }
+  if (eventStore && stateless) {
+    return {
+      ok: false,
+      error:
+        'Resuming a stream needs the session it belongs to, so --event-store cannot be combined with --stateless',
+    };
+  }
+  if (stateless && redact.fields.length > 0) {
+    return {
+      ok: false,
+      error:
+        "Pseudonyms are mapped back to real values in one session's memory, so --redact cannot be combined with --stateless",
+    };
+  }
+
+  const sessionIdleTimeout = parseWholeNumber(
+    parsed,
+    'session-idle-timeout',
+    env.MCP_SESSION_IDLE_TIMEOUT,
+    profile.sessionIdleTimeout ?? DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS,
+    'a whole number of seconds, or 0 to keep idle sessions open',
+  );
+  if (!sessionIdleTimeout.ok) return sessionIdleTimeout;
+  const sessionMaxAge = parseWholeNumber(
+    parsed,
+    'session-max-age',
+    env.MCP_SESSION_MAX_AGE,
+    profile.sessionMaxAge ?? DEFAULT_SESSION_MAX_AGE_SECONDS,
+    'a whole number of seconds, or 0 for no limit',
+  );
+  if (!sessionMaxAge.ok) return sessionMaxAge;
+  const maxSessionsPerKey = parseWholeNumber(
+    parsed,
+    'max-sessions-per-key',
+    env.MCP_MAX_SESSIONS_PER_KEY,
+    profile.maxSessionsPerKey ?? DEFAULT_MAX_SESSIONS_PER_KEY,
+    'a whole number, or 0 for no limit',
+  );
+  if (!maxSessionsPerKey.ok) return maxSessionsPerKey;
+
+  const host =
+    (typeof parsed.host === 'string' && parsed.host.trim()) ||
+    env.MCP_HOST?.trim() ||
+    profile.host;
+  const allowedHosts = parseListOption(
+    parsed,
+    'allowed-hosts',
+    env.MCP_ALLOWED_HOSTS,
+    profile.allowedHosts,
+  ).map((allowed) => allowed.toLowerCase());
+  const allowedOrigins = parseAllowedOrigins(parsed, env, profile);
+  if (!allowedOrigins.ok) return allowedOrigins;
+  if (
+    !http &&
+    (host || allowedHosts.length > 0 || allowedOrigins.origins.length > 0)
+  ) {
+    return {
+      ok: false,
+      error:
+        'Hosts and origins only apply in HTTP mode. Add --http, or remove --host, --allowed-hosts and --allowed-origins',
+    };
+  }
 
   const base = {
     senderEmailAddress: senderEmailAddress ?? '',
-    replierEmailAddresses: parseReplierAddresses(parsed, env),
+    replierEmailAddresses:
+      replierEmailAddresses.length > 0
+        ? replierEmailAddresses
+        : (profile.replyTo ?? []),
     port,
+    tools,
+    excludeTools,
+    readOnly,
+    dryRun,
+    apiUrl: apiUrl.url,
+    dashboardUrl: dashboardUrl.url,
+    cacheTtl: cacheTtl.value,
+    logLevel: logLevel.level,
+    ...(logFile && { logFile }),
+    redact: redact.fields,
+    ...(auditLog && { auditLog }),
   };
 
   return {
     ok: true,
     config: http
-      ? { ...base, transport: 'http' as const, apiKey: apiKey?.trim() }
-      : { ...base, transport: 'stdio' as const, apiKey: apiKey!.trim() },
+      ? {
+          ...base,
+          transport: 'http' as const,
+          apiKey: apiKey?.trim(),
+          host: host || DEFAULT_HTTP_HOST,
+          allowedHosts: [...new Set(allowedHosts)],
+          allowedOrigins: allowedOrigins.origins,
+          oauth,
+          stateless,
+          ...(eventStore && { eventStore }),
+          ...(publicUrl.url && { publicUrl: publicUrl.url }),
+          sessionIdleTimeout: sessionIdleTimeout.value,
+          sessionMaxAge: sessionMaxAge.value,
+          maxSessionsPerKey: maxSessionsPerKey.value,
+        }
+      : {
+          ...base,
+          transport: 'stdio' as const,
+          apiKey: apiKey?.trim() || accounts[0].apiKey,
+          accounts,
+        },
   };
 }
@@ -1,3 +1,7 @@
+import type { ResendAccount } from '../lib/accounts.js';
+import type { LogLevel } from '../lib/logger.js';
+import type { RedactionField } from '../lib/pii-redaction.js';
+
 export type TransportMode = 'stdio' | 'http';
 
 /**
@@ -9,6 +13,25 @@ export interface StdioConfig {
   replierEmailAddresses: string[];
   transport: 'stdio';
   port: number;
+  tools: string[];
+  excludeTools: string[];
+  readOnly: boolean;
+  dryRun: boolean;
+  /** Resend API base URL for all clients, when not the default. */
+  apiUrl?: string;
+  /** Resend dashboard base URL, when not the default. */
+  dashboardUrl?: string;
+  /** Seconds each GET response is cached; 0 disables the cache. */
+  cacheTtl: number;
+  logLevel: LogLevel;
+  /** File to append log lines to instead of stderr. */
+  logFile?: string;
+  /** Personal data masked in tool outputs; empty disables redaction. */
+  redact: RedactionField[];
+  /** File mutating tool calls are appended to; unset disables the audit log. */
+  auditLog?: string;
+  /** Named accounts, empty unless several keys were configured. */
+  accounts: ResendAccount[];
 }
 
 /**
@@ -21,10 +44,94 @@ export interface HttpConfig {
   replierEmailAddresses: string[];
   transport: 'http';
   port: number;
+  /** Address to listen on. */
+  host: string;
+  /** Host header values accepted; empty uses the SDK's localhost default. */
+  allowedHosts: string[];
+  /** Browser origins allowed to call /mcp, or `*` for any. */
+  allowedOrigins: string[];
+  /** Sign clients in with OAuth instead of taking raw API keys. */
+  oauth: boolean;
+  /** Base URL clients reach the server at, used as the OAuth issuer. */
+  publicUrl?: string;
+  /** Serve every request with a fresh server, without sessions. */
+  stateless: boolean;
+  /** "memory" or a file path to keep SSE events in for resumption. */
+  eventStore?: string;
+  /** Seconds a session may sit idle before it is closed; 0 disables. */
+  sessionIdleTimeout: number;
+  /** Seconds a session may stay open in total; 0 disables. */
+  sessionMaxAge: number;
+  /** Most open sessions per API key; 0 disables the limit. */
+  maxSessionsPerKey: number;
+  tools: string[];
+  excludeTools: string[];
+  readOnly: boolean;
+  dryRun: boolean;
+  /** Resend API base URL for all clients, when not the default. */
+  apiUrl?: string;
+  /** Resend dashboard base URL, when not the default. */
+  dashboardUrl?: string;
+  /** Seconds each session caches GET responses; 0 disables the cache. */
+  cacheTtl: number;
+  logLevel: LogLevel;
+  /** File to append log lines to instead of stderr. */
+  logFile?: string;
+  /** Personal data masked in tool outputs; empty disables redaction. */
+  redact: RedactionField[];
+  /** File mutating tool calls are appended to; unset disables the audit log. */
+  auditLog?: string;
 }
 
 export type CliConfig = StdioConfig | HttpConfig;
 
+/**
+ * One named profile from resend-mcp.config.json. Every field is optional and
+ * is overridden by the matching env var or flag.
+ */
+export interface ConfigProfile {
+  /** Name of the env var holding the Resend API key, never the key itself. */
+  apiKeyEnv?: string;
+  sender?: string;
+  replyTo?: string[];
+  tools?: string[];
+  excludeTools?: string[];
+  readOnly?: boolean;
+  dryRun?: boolean;
+  transport?: TransportMode;
+  port?: number;
+  host?: string;
+  allowedHosts?: string[];
+  allowedOrigins?: string[];
+  /** Named accounts (stdio only), mapping account name to API key env var. */
+  accounts?: Record<string, string>;
+  apiUrl?: string;
+  dashboardUrl?: string;
+  /** Seconds to cache GET responses; 0 disables the cache. */
+  cacheTtl?: number;
+  logLevel?: LogLevel;
+  logFile?: string;
+  redact?: RedactionField[];
+  auditLog?: string;
+  oauth?: boolean;
+  publicUrl?: string;
+  stateless?: boolean;
+  eventStore?: string;
+  sessionIdleTimeout?: number;
+  sessionMaxAge?: number;
+  maxSessionsPerKey?: number;
+}
+
+export interface ConfigFile {
+  /** Profile used when --profile is not given. */
+  defaultProfile?: string;
+  profiles: Record<string, ConfigProfile>;
+}
+
+export type LoadProfileResult =
+  | { ok: true; profile: ConfigProfile }
+  | { ok: false; error: string };
+
 export type ResolveResult =
   | { ok: true; config: CliConfig }
   | { ok: false; error: string };
@@ -1,8 +1,12 @@
 #!/usr/bin/env node
 import './user-agent.js';
 import 'dotenv/config';
-import { Resend } from 'resend';
 import { parseArgs, resolveConfigOrExit } from './cli/index.js';
+import { AccountSwitcher, createAccountClients } from './lib/accounts.js';
+import { type AuditLog, createAuditLog } from './lib/audit-log.js';
+import { createEventStorage, type EventStorage } from './lib/event-store.js';
+import { createLogger, setLogger } from './lib/logger.js';
+import { createPiiRedactor } from './lib/pii-redaction.js';
 import { runHttp } from './transports/http.js';
 import { runStdio } from './transports/stdio.js';
 
@@ -11,6 +15,14 @@ const config = resolveConfigOrExit(parsed, process.env);
 const serverOptions = {
   senderEmailAddress: config.senderEmailAddress,
   replierEmailAddresses: config.replierEmailAddresses,
+  tools: config.tools,
+  excludeTools: config.excludeTools,
+  readOnly: config.readOnly,
+  dryRun: config.dryRun,
+  apiUrl: config.apiUrl,
+  dashboardUrl: config.dashboardUrl,
+  cacheTtlMs: config.cacheTtl * 1000,
+  redact: config.redact,
 };
 
 function onFatal(err: unknown): void {
@@ -21,16 +33,61 @@ function onFatal(err: unknown): void {
   process.exit(1);
 }
 
+let auditLog: AuditLog | undefined;
+let eventStorage: EventStorage | undefined;
+try {
+  setLogger(createLogger({ level: config.logLevel, file: config.logFile }));
+  auditLog = createAuditLog(config.auditLog);
+  if (config.transport === 'http') {
+    eventStorage = createEventStorage(config.eventStore);
+  }
+} catch (err) {
+  onFatal(err);
+}
+
 process.on('SIGINT', () => process.exit(0));
 process.on('SIGTERM', () => process.exit(0));
 
 if (config.transport === 'http') {
   // HTTP mode: no Resend client needed at startup. Each connecting client
-  // provides their own API key via the Authorization: Bearer header,
-  // and a per-session Resend client is created in the transport layer.
-  runHttp(serverOptions, config.port).catch(onFatal);
+  // provides their own API key via the Authorization: Bearer header, or
+  // signs in with OAuth, and a per-session (or, stateless, per-request)
+  // Resend client is created in the transport layer.
+  runHttp({ ...serverOptions, auditLog }, config.port, {
+    host: config.host,
+    allowedHosts: config.allowedHosts,
+    allowedOrigins: config.allowedOrigins,
+    ...(config.oauth && {
+      oauth: {
+        issuerUrl: config.publicUrl ?? `http://localhost:${config.port}`,
+      },
+    }),
+    stateless: config.stateless,
+    eventStorage,
+    sessionLimits: {
+      idleTimeoutMs: config.sessionIdleTimeout * 1000,
+      maxAgeMs: config.sessionMaxAge * 1000,
+      maxPerKey: config.maxSessionsPerKey,
+    },
+  }).catch(onFatal);
 } else {
-  // Stdio mode: single user, API key is required at startup.
-  const resend = new Resend(config.apiKey);
-  runStdio(resend, serverOptions, config.apiKey).catch(onFatal);
+  // Stdio mode: single user, API key is required at startup. With several
+  // accounts configured, tools route through the active account instead.
+  // One redactor for every account, so pseudonyms stay stable on switching.
+  const redactor = createPiiRedactor(serverOptions.redact);
+  const clientOptions = { cacheTtlMs: serverOptions.cacheTtlMs, redactor };
+  const accounts =
+    config.accounts.length > 0
+      ? new AccountSwitcher(config.accounts, (apiKey) =>
+          createAccountClients(apiKey, config.apiUrl, clientOptions),
+        )
+      : undefined;
+  const { resend, editorClient } =
+    accounts ??
+    createAccountClients(config.apiKey, config.apiUrl, clientOptions);
+  runStdio(
+    resend,
+    { ...serverOptions, accounts, editorClient, redactor, auditLog },
+    config.apiKey,
+  ).catch(onFatal);
 }
@@ -0,0 +1,104 @@
+import type { Resend } from 'resend';
+import type { PiiRedactor } from './pii-redaction.js';
+import { createResendClient } from './resend-client.js';
+import { ResendEditorClient } from './resend-editor-client.js';
+import { createResponseCache } from './response-cache.js';
+import { RateLimiter } from './retry.js';
+
+export interface ResendAccount {
+  name: string;
+  apiKey: string;
+}
+
+export interface AccountClients {
+  resend: Resend;
+  editorClient: ResendEditorClient;
+}
+
+export interface AccountClientOptions {
+  cacheTtlMs?: number;
+  redactor?: PiiRedactor;
+}
+
+/**
+ * Create the Resend and editor clients for one account's API key. They share
+ * a rate limiter, so their requests are paced together. With a
+ * `cacheTtlMs`, they share a response cache, so editor writes invalidate
+ * what the SDK client cached. With a `redactor`, the Resend client masks
+ * personal data in its responses.
+ */
+export function createAccountClients(
+  apiKey: string,
+  apiUrl?: string,
+  { cacheTtlMs, redactor }: AccountClientOptions = {},
+): AccountClients {
+  const cache = createResponseCache(cacheTtlMs);
+  const limiter = new RateLimiter();
+  return {
+    resend: createResendClient(apiKey, apiUrl, { cache, redactor, limiter }),
+    editorClient: new ResendEditorClient(apiKey, { apiUrl, cache, limiter }),
+  };
+}
+
+/**
+ * Build an object that forwards every property access to whatever `getTarget`
+ * returns at call time, with methods bound to that target.
+ */
+function forwardTo<T extends object>(getTarget: () => T): T {
+  return new Proxy({} as T, {
+    get(_, prop) {
+      const target = getTarget();
+      const value = Reflect.get(target, prop, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
+
+/**
+ * Holds one Resend and editor client per configured account and exposes
+ * stand-ins that route every call to the active account. Tools are registered
+ * once against the stand-ins, so switching accounts needs no re-registration.
+ */
+export class AccountSwitcher {
+  readonly resend: Resend;
+  readonly editorClient: ResendEditorClient;
+  private clients = new Map<string, AccountClients>();
+  private active: string;
+
+  constructor(
+    accounts: ResendAccount[],
+    createClients: (apiKey: string) => AccountClients = createAccountClients,
+  ) {
+    if (accounts.length === 0) {
+      throw new Error('At least one account is required.');
+    }
+    for (const { name, apiKey } of accounts) {
+      this.clients.set(name, createClients(apiKey));
+    }
+    this.active = accounts[0].name;
+    this.resend = forwardTo(() => this.activeClients().resend);
+    this.editorClient = forwardTo(() => this.activeClients().editorClient);
+  }
+
+  get activeAccount(): string {
+    return this.active;
+  }
+
+  get accountNames(): string[] {
+    return [...this.clients.keys()];
+  }
+
+  switchTo(name: string): void {
+    if (!this.clients.has(name)) {
+      throw new Error(
+        `Unknown account "${name}". Configured accounts: ${this.accountNames.join(', ')}`,
+      );
+    }
+    this.active = name;
+  }
+
+  private activeClients(): AccountClients {
+    // The active name always comes from the constructor or switchTo.
+    return this.clients.get(this.active)!;
+  }
+}
@@ -0,0 +1,115 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+
+/** One mutating tool call, as recorded in the audit log. */
+export interface AuditEntry {
+  time: string;
+  tool: string;
+  /** Name the MCP client gave when it connected. */
+  client?: string;
+  /** MCP session ID, in HTTP mode. */
+  sessionId?: string;
+  /** Hash of the API key the call was made with, in HTTP mode. See `apiKeyId`. */
+  apiKeyId?: string;
+  /** Account the call went to, when several are configured. */
+  account?: string;
+  correlationId: string;
+  /** Arguments as the client sent them, with secrets redacted. */
+  arguments: unknown;
+  /** IDs of the Resend resources the call created or changed. */
+  resourceIds: string[];
+  /** `cancelled` when the user declined the confirmation prompt. */
+  outcome: 'ok' | 'error' | 'cancelled';
+  /** Set when the call only rehearsed the action, changing nothing. */
+  dryRun?: true;
+}
+
+export interface AuditQuery {
+  tool?: string;
+  /** Only entries at or after this time. */
+  since?: Date;
+  /** Only entries at or before this time. */
+  until?: Date;
+  resourceId?: string;
+  /** Only entries made with the API key behind this `apiKeyId`. */
+  apiKeyId?: string;
+  /** Most entries to return, newest first. */
+  limit?: number;
+}
+
+/**
+ * Identify an API key in the audit log without storing it: the start of
+ * its SHA-256 hash.
+ */
+export function apiKeyId(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+}
+
+/**
+ * Append-only JSONL record of mutating tool calls. The file is opened right
+ * away, so a bad path fails at startup. Entries are written synchronously,
+ * one line each, keeping them whole and in order across concurrent sessions.
+ * Queries read the whole file, which is fine for a local trail. Entries hold
+ * recipients and other arguments, so the file is only readable by its owner.
+ */
+export class AuditLog {
+  readonly file: string;
+  private readonly fd: number;
+
+  constructor(file: string) {
+    this.file = file;
+    this.fd = fs.openSync(file, 'a', 0o600);
+    // The mode above only applies to new files.
+    fs.fchmodSync(this.fd, 0o600);
+  }
+
+  append(entry: AuditEntry): void {
+    fs.writeSync(this.fd, `${JSON.stringify(entry)}\n`);
+  }
+
+  /** Entries matching every given filter, newest first. */
+  query({
+    tool,
+    since,
+    until,
+    resourceId,
+    apiKeyId,
+    limit = Number.POSITIVE_INFINITY,
+  }: AuditQuery = {}): AuditEntry[] {
+    const matches: AuditEntry[] = [];
+    const lines = fs.readFileSync(this.file, 'utf8').split('\n').reverse();
+    for (const line of lines) {
+      if (matches.length >= limit) break;
+      const entry = parseEntry(line);
+      if (
+        entry &&
+        (!tool || entry.tool === tool) &&
+        (!since || Date.parse(entry.time) >= since.getTime()) &&
+        (!until || Date.parse(entry.time) <= until.getTime()) &&
+        (!resourceId || entry.resourceIds.includes(resourceId)) &&
+        (!apiKeyId || entry.apiKeyId === apiKeyId)
+      ) {
+        matches.push(entry);
+      }
+    }
+    return matches;
+  }
+}
+
+/** Parse one line, skipping blank or damaged ones, e.g. from a crash mid-write. */
+function parseEntry(line: string): AuditEntry | undefined {
+  if (!line.trim()) return undefined;
+  try {
+    const entry = JSON.parse(line) as AuditEntry;
+    return typeof entry.tool === 'string' && Array.isArray(entry.resourceIds)
+      ? entry
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** An audit log appending to `file`, or none when no file is configured. */
+export function createAuditLog(file?: string): AuditLog | undefined {
+  return file ? new AuditLog(file) : undefined;
+}
@@ -0,0 +1,110 @@
+import type { Resend } from 'resend';
+
+/** How long a list call backing completions is reused. */
+const COMPLETION_CACHE_TTL_MS = 30_000;
+
+/** Items fetched per list call, and the most values MCP allows per response. */
+const MAX_COMPLETIONS = 100;
+
+/** Completion values for what the user has typed so far. */
+export type Completer = (value?: string) => Promise<string[]>;
+
+interface Candidate {
+  id: string;
+  name?: string | null;
+  alias?: string | null;
+  /** A webhook's URL, which stands in for its name. */
+  endpoint?: string | null;
+}
+
+type ListCall = () => Promise<{
+  data: { data: Candidate[] } | null;
+  error: unknown;
+}>;
+
+export interface CompletionOptions {
+  /**
+   * Keeps cached lists apart, e.g. per account when several are configured.
+   */
+  scope?: () => string;
+  ttlMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Completers for ID-like prompt arguments and resource template variables,
+ * backed by one page of the matching list endpoint. Each list is cached
+ * briefly, so typing doesn't cost a request per keystroke. A value matches
+ * when an item's ID starts with it or its name, alias or endpoint contains
+ * it. Failed
+ * list calls complete to nothing and are not cached.
+ */
+export function createCompletions(
+  resend: Resend,
+  {
+    scope = () => '',
+    ttlMs = COMPLETION_CACHE_TTL_MS,
+    now = Date.now,
+  }: CompletionOptions = {},
+) {
+  const cache = new Map<
+    string,
+    { expiresAt: number; items: Promise<Candidate[] | null> }
+  >();
+
+  const load = async (kind: string, list: ListCall) => {
+    const key = `${scope()}\0${kind}`;
+    const cached = cache.get(key);
+    if (cached && cached.expiresAt > now()) return (await cached.items) ?? [];
+
+    const items = list().then(
+      (response) => response.data?.data ?? null,
+      () => null,
+    );
+    cache.set(key, { expiresAt: now() + ttlMs, items });
+    const loaded = await items;
+    if (!loaded && cache.get(key)?.items === items) cache.delete(key);
+    return loaded ?? [];
+  };
+
+  const matching = async (kind: string, list: ListCall, value = '') => {
+    const query = value.toLowerCase();
+    const items = await load(kind, list);
+    return items
+      .filter(
+        ({ id, name, alias, endpoint }) =>
+          id.toLowerCase().startsWith(query) ||
+          name?.toLowerCase().includes(query) ||
+          alias?.toLowerCase().includes(query) ||
+          endpoint?.toLowerCase().includes(query),
+      )
+      .slice(0, MAX_COMPLETIONS);
+  };
+
+  const ids =
+    (kind: string, list: ListCall): Completer =>
+    async (value) =>
+      (await matching(kind, list, value)).map(({ id }) => id);
+  const names =
+    (kind: string, list: ListCall): Completer =>
+    async (value) =>
+      (await matching(kind, list, value)).flatMap(({ name }) =>
+        name ? [name] : [],
+      );
+
+  const page = { limit: MAX_COMPLETIONS };
+  return {
+    automationIds: ids('automations', () => resend.automations.list(page)),
+    broadcastIds: ids('broadcasts', () => resend.broadcasts.list(page)),
+    domainIds: ids('domains', () => resend.domains.list(page)),
+    segmentIds: ids('segments', () => resend.segments.list(page)),
+    templateIds: ids('templates', () => resend.templates.list(page)),
+    // The topics endpoint has no pagination and returns every topic.
+    topicIds: ids('topics', () => resend.topics.list()),
+    webhookIds: ids('webhooks', () => resend.webhooks.list(page)),
+    eventNames: names('events', () => resend.events.list(page)),
+    segmentNames: names('segments', () => resend.segments.list(page)),
+  };
+}
+
+export type Completions = ReturnType<typeof createCompletions>;
@@ -0,0 +1,101 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+/**
+ * Input field added to every tool that needs the user's approval. Only
+ * consulted when the client cannot be asked directly through elicitation.
+ */
+export const confirmInputShape = {
+  confirm: z
+    .boolean()
+    .optional()
+    .describe(
+      'Set to true only after the user has explicitly approved this exact action. Required when the client does not support confirmation prompts; otherwise the user is asked directly and this field is ignored.',
+    ),
+};
+
+/** Results returned because the user declined, so the audit log can tell. */
+const cancellations = new WeakSet<CallToolResult>();
+
+/** Whether `result` is the one `requireConfirmation` returned on a decline. */
+export function isCancellation(result: CallToolResult): boolean {
+  return cancellations.has(result);
+}
+
+interface ConfirmationOptions {
+  /** The `confirm` argument the tool was called with. */
+  confirm?: boolean;
+  /** What is about to happen, in words the user can judge. Only built when needed. */
+  summary: () => string | Promise<string>;
+}
+
+/**
+ * Run a lookup for a confirmation summary, ignoring failures: a summary that
+ * falls back to IDs is better than blocking the action.
+ */
+export async function lookupForSummary<T>(
+  lookup: () => Promise<{ data: T | null }>,
+): Promise<T | undefined> {
+  try {
+    return (await lookup()).data ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * `"Name" (id)` when the name is known, else just the ID.
+ */
+export function describeResource(id: string, name?: string | null): string {
+  return name ? `"${name}" (${id})` : id;
+}
+
+/**
+ * Make sure the user approved a destructive or high-impact action.
+ * Clients that support elicitation get a yes/no prompt showing the summary;
+ * for other clients the call must carry `confirm: true`. Returns the result to
+ * send back when the user declines, or undefined when the action may proceed.
+ */
+export async function requireConfirmation(
+  server: McpServer,
+  { confirm, summary }: ConfirmationOptions,
+): Promise<CallToolResult | undefined> {
+  if (!server.server.getClientCapabilities()?.elicitation) {
+    if (confirm === true) return undefined;
+    throw new Error(
+      `Confirmation required: ${await summary()}\nShow this to the user and, only if they explicitly approve, call the tool again with confirm: true.`,
+    );
+  }
+
+  const message = await summary();
+  const result = await server.server.elicitInput({
+    message,
+    requestedSchema: {
+      type: 'object',
+      properties: {
+        confirm: {
+          type: 'boolean',
+          title: 'Confirm',
+          description: 'Check to go ahead with this action.',
+          default: false,
+        },
+      },
+      required: ['confirm'],
+    },
+  });
+
+  if (result.action === 'accept' && result.content?.confirm === true) {
+    return undefined;
+  }
+  const cancelled: CallToolResult = {
+    content: [
+      {
+        type: 'text',
+        text: `Cancelled: the user did not confirm. Nothing was changed.\n\n${message}`,
+      },
+    ],
+  };
+  cancellations.add(cancelled);
+  return cancelled;
+}
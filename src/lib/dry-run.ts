@@ -0,0 +1,49 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+/**
+ * Input field added to every tool that supports dry runs. In --dry-run server
+ * mode it is forced to true for every call.
+ */
+export const dryRunInputShape = {
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe(
+      'If true, validate the input and build the request, but do not send it to Resend. Returns the exact request that would have been sent.',
+    ),
+};
+
+/**
+ * Make a request JSON-safe for previewing: buffers (e.g. attachment content
+ * read from disk) are summarized by size instead of dumped byte by byte.
+ */
+function toPreview(value: unknown): unknown {
+  return JSON.parse(
+    JSON.stringify(value, function (this: Record<string, unknown>, key, val) {
+      const original = this[key];
+      return Buffer.isBuffer(original)
+        ? `<${original.length} bytes of binary content>`
+        : val;
+    }) ?? 'null',
+  );
+}
+
+/**
+ * Build the tool result for a dry run of `resend.<method>(...args)`.
+ */
+export function dryRunResult(
+  method: string,
+  ...args: unknown[]
+): CallToolResult {
+  const preview = args.map(toPreview);
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Dry run: nothing was sent to Resend.\nWould call resend.${method} with:\n\n${JSON.stringify(preview.length === 1 ? preview[0] : preview, null, 2)}`,
+      },
+    ],
+    structuredContent: { dryRun: true, method, arguments: preview },
+  };
+}
@@ -0,0 +1,125 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+/** An error as the Resend API returns it. */
+export interface ResendErrorDetails {
+  name?: string;
+  statusCode?: number | null;
+  message?: string;
+}
+
+export type ErrorCategory =
+  | 'validation'
+  | 'auth'
+  | 'not_found'
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'domain_not_verified'
+  | 'server'
+  | 'network';
+
+/** The concrete next step for each category, phrased for the agent. */
+const HINTS: Record<ErrorCategory, string> = {
+  validation:
+    'Fix the arguments named in the message and call the tool again. Do not retry unchanged.',
+  auth: 'The API key is missing, invalid or not allowed to do this. Sending-only keys can only send emails. Ask the user for a full-access key.',
+  not_found:
+    'Check the ID. Call the matching list tool (e.g. list-segments for a segment ID) to find a valid one.',
+  rate_limited:
+    'The request was already retried. Wait a few seconds before calling again, and avoid calling tools in parallel.',
+  quota_exceeded:
+    "The account's daily or monthly sending quota is used up. Tell the user; sending resumes when the quota resets or the plan is upgraded.",
+  domain_not_verified:
+    'Run list-domains to pick a verified sender domain, or verify this one with verify-domain after adding its DNS records.',
+  server:
+    'Resend had an internal problem. Try again in a minute; if it persists, check https://resend-status.com.',
+  network:
+    'The Resend API could not be reached. Check the network connection and, if set, --api-url.',
+};
+
+/** Error names that mean the request's credentials are the problem. */
+const AUTH_ERRORS = new Set([
+  'missing_api_key',
+  'invalid_api_key',
+  'restricted_api_key',
+  'invalid_access',
+]);
+
+/**
+ * Put a Resend API error into a category an agent can act on. Names are
+ * checked first, since Resend reuses status codes across categories (a 403
+ * can be a bad key or an unverified domain).
+ */
+export function classifyResendError({
+  name,
+  statusCode,
+  message = '',
+}: ResendErrorDetails): ErrorCategory {
+  if (name && AUTH_ERRORS.has(name)) return 'auth';
+  if (name === 'rate_limit_exceeded') return 'rate_limited';
+  if (name?.endsWith('_quota_exceeded')) return 'quota_exceeded';
+  if (name === 'not_found' || statusCode === 404) return 'not_found';
+  if (/domain is not verified|only send testing emails/i.test(message)) {
+    return 'domain_not_verified';
+  }
+  if (statusCode === null || statusCode === undefined) {
+    return name === 'application_error' ? 'network' : 'server';
+  }
+  if (statusCode === 401 || statusCode === 403) return 'auth';
+  if (statusCode === 429) return 'rate_limited';
+  if (statusCode >= 500) return 'server';
+  return 'validation';
+}
+
+/**
+ * A failed Resend API call outside the SDK (e.g. the editor endpoints),
+ * carrying the API's error so it can be classified.
+ */
+export class ResendApiError extends Error {
+  constructor(
+    message: string,
+    readonly details: ResendErrorDetails,
+  ) {
+    super(message);
+    this.name = 'ResendApiError';
+  }
+}
+
+/**
+ * Describe a failed Resend call: what failed, the API's message, the error
+ * category and the next step to take.
+ */
+export function describeResendError(
+  action: string,
+  details: ResendErrorDetails,
+): string {
+  const category = classifyResendError(details);
+  const code = [details.name, details.statusCode].filter(Boolean).join(', ');
+  return `${action}: ${details.message ?? 'Unknown error'}${code ? ` (${code})` : ''}\nCategory: ${category}\nNext step: ${HINTS[category]}`;
+}
+
+/** Tool result for a failed Resend call, described as above. */
+export function resendErrorResult(
+  action: string,
+  details: ResendErrorDetails,
+): CallToolResult {
+  return {
+    content: [{ type: 'text', text: describeResendError(action, details) }],
+    isError: true,
+  };
+}
+
+/**
+ * Tool result for an error thrown by a handler. API errors are classified;
+ * anything else keeps its message, as the SDK would report it.
+ */
+export function toolErrorResult(err: unknown): CallToolResult {
+  if (err instanceof ResendApiError) {
+    return resendErrorResult(err.message, err.details);
+  }
+  return {
+    content: [
+      { type: 'text', text: err instanceof Error ? err.message : String(err) },
+    ],
+    isError: true,
+  };
+}
@@ -0,0 +1,178 @@
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import type {
+  EventId,
+  EventStore,
+  StreamId,
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/** Most events kept by default, across every session. */
+export const DEFAULT_MAX_EVENTS = 10_000;
+
+/** Value of --event-store that keeps events in memory instead of a file. */
+export const MEMORY_EVENT_STORE = 'memory';
+
+/** One SSE message sent to a client, kept so it can be sent again. */
+export interface StoredEvent {
+  id: EventId;
+  /** Stream the event was sent on, prefixed with its session's scope. */
+  streamId: StreamId;
+  message: JSONRPCMessage;
+}
+
+/**
+ * Where the HTTP transport keeps sent SSE messages, so a client reconnecting
+ * with `Last-Event-ID` gets the ones it missed. Shared by every session;
+ * `scopeEventStore` gives each session a view of only its own events.
+ */
+export interface EventStorage {
+  append(event: StoredEvent): void;
+  /** The event with this ID and every later event on its stream, oldest first. */
+  readFrom(eventId: EventId): StoredEvent[];
+}
+
+/**
+ * Keep only the events on the same stream as the first one. Empty when the
+ * event is unknown, e.g. because it was evicted.
+ */
+function streamFrom(events: Iterable<StoredEvent>, eventId: EventId) {
+  const matches: StoredEvent[] = [];
+  for (const event of events) {
+    if (matches.length === 0 && event.id !== eventId) continue;
+    if (matches.length === 0 || event.streamId === matches[0].streamId) {
+      matches.push(event);
+    }
+  }
+  return matches;
+}
+
+/** Events kept in memory, dropping the oldest beyond `maxEvents`. */
+export class MemoryEventStorage implements EventStorage {
+  private readonly events = new Map<EventId, StoredEvent>();
+  private readonly maxEvents: number;
+
+  constructor({ maxEvents = DEFAULT_MAX_EVENTS }: { maxEvents?: number } = {}) {
+    this.maxEvents = maxEvents;
+  }
+
+  append(event: StoredEvent): void {
+    this.events.set(event.id, event);
+    for (const id of this.events.keys()) {
+      if (this.events.size <= this.maxEvents) break;
+      this.events.delete(id);
+    }
+  }
+
+  readFrom(eventId: EventId): StoredEvent[] {
+    if (!this.events.has(eventId)) return [];
+    return streamFrom(this.events.values(), eventId);
+  }
+}
+
+/**
+ * Events appended to a JSONL file, keeping memory flat while long-running
+ * tools stream many notifications. Sessions don't outlive the process, so
+ * the file is emptied on startup. Once it holds twice `maxEvents` lines it
+ * is rewritten with the newest `maxEvents`. Messages can hold email content,
+ * so the file is only readable by its owner.
+ */
+export class FileEventStorage implements EventStorage {
+  readonly file: string;
+  private readonly maxEvents: number;
+  private fd: number;
+  private lines = 0;
+
+  constructor(
+    file: string,
+    { maxEvents = DEFAULT_MAX_EVENTS }: { maxEvents?: number } = {},
+  ) {
+    this.file = file;
+    this.maxEvents = maxEvents;
+    this.fd = fs.openSync(file, 'w', 0o600);
+    // The mode above only applies to new files.
+    fs.fchmodSync(this.fd, 0o600);
+  }
+
+  append(event: StoredEvent): void {
+    fs.writeSync(this.fd, `${JSON.stringify(event)}\n`);
+    if (++this.lines >= this.maxEvents * 2) this.compact();
+  }
+
+  readFrom(eventId: EventId): StoredEvent[] {
+    return streamFrom(this.read(), eventId);
+  }
+
+  /** Every stored event, skipping lines damaged e.g. by a full disk. */
+  private *read(): Iterable<StoredEvent> {
+    for (const line of fs.readFileSync(this.file, 'utf8').split('\n')) {
+      if (!line) continue;
+      try {
+        yield JSON.parse(line) as StoredEvent;
+      } catch {
+        // skip
+      }
+    }
+  }
+
+  private compact(): void {
+    const keep = [...this.read()].slice(-this.maxEvents);
+    const temp = `${this.file}.tmp`;
+    fs.writeFileSync(
+      temp,
+      keep.map((event) => `${JSON.stringify(event)}\n`).join(''),
+      { mode: 0o600 },
+    );
+    fs.closeSync(this.fd);
+    fs.renameSync(temp, this.file);
+    this.fd = fs.openSync(this.file, 'a', 0o600);
+    this.lines = keep.length;
+  }
+}
+
+/**
+ * An EventStore for one session's transport. Stream IDs are only unique
+ * within a transport, so they are stored under a random scope, and events
+ * of other sessions are treated as unknown: a client can only replay what
+ * was sent to itself.
+ */
+export function scopeEventStore(storage: EventStorage): EventStore {
+  const scope = randomUUID();
+  let sequence = 0;
+
+  const ownEvents = (eventId: EventId) => {
+    const events = storage.readFrom(eventId);
+    return events[0]?.streamId.startsWith(`${scope}/`) ? events : [];
+  };
+  const unscoped = (streamId: StreamId) => streamId.slice(`${scope}/`.length);
+
+  return {
+    async storeEvent(streamId, message) {
+      const id = `${scope}_${++sequence}`;
+      storage.append({ id, streamId: `${scope}/${streamId}`, message });
+      return id;
+    },
+
+    async getStreamIdForEventId(eventId) {
+      const [event] = ownEvents(eventId);
+      return event && unscoped(event.streamId);
+    },
+
+    async replayEventsAfter(lastEventId, { send }) {
+      const [last, ...missed] = ownEvents(lastEventId);
+      for (const event of missed) await send(event.id, event.message);
+      return last ? unscoped(last.streamId) : '';
+    },
+  };
+}
+
+/**
+ * Event storage for `--event-store`: in memory for "memory", otherwise a
+ * file at that path. None when unset, so streams can't be resumed.
+ */
+export function createEventStorage(target?: string): EventStorage | undefined {
+  if (!target) return undefined;
+  return target === MEMORY_EVENT_STORE
+    ? new MemoryEventStorage()
+    : new FileEventStorage(target);
+}
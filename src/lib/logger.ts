@@ -0,0 +1,59 @@
+import fs from 'node:fs';
+
+export const LOG_LEVELS = ['error', 'warn', 'info', 'debug'] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/** Default level: only problems, so the server stays quiet unless asked. */
+export const DEFAULT_LOG_LEVEL: LogLevel = 'warn';
+
+export interface Logger {
+  /** Write one JSON line for `event`, if `level` is enabled. */
+  log(level: LogLevel, event: string, fields?: Record<string, unknown>): void;
+  isEnabled(level: LogLevel): boolean;
+}
+
+/**
+ * Create a logger writing JSON lines to stderr, or appending them to `file`.
+ * The file is opened right away, so a bad path fails at startup rather than
+ * on the first tool call. Writes are synchronous, keeping lines whole and in
+ * order across concurrent sessions.
+ */
+export function createLogger({
+  level = DEFAULT_LOG_LEVEL,
+  file,
+  now = () => new Date(),
+}: {
+  level?: LogLevel;
+  file?: string;
+  now?: () => Date;
+} = {}): Logger {
+  const fd = file ? fs.openSync(file, 'a') : process.stderr.fd;
+  const threshold = LOG_LEVELS.indexOf(level);
+  const isEnabled = (candidate: LogLevel) =>
+    LOG_LEVELS.indexOf(candidate) <= threshold;
+
+  return {
+    isEnabled,
+    log(candidate, event, fields = {}) {
+      if (!isEnabled(candidate)) return;
+      const line = JSON.stringify({
+        time: now().toISOString(),
+        level: candidate,
+        event,
+        ...fields,
+      });
+      fs.writeSync(fd, `${line}\n`);
+    },
+  };
+}
+
+let current: Logger = createLogger();
+
+/** The process-wide logger, configured once at startup. */
+export function getLogger(): Logger {
+  return current;
+}
+
+export function setLogger(logger: Logger): void {
+  current = logger;
+}
@@ -0,0 +1,398 @@
+import { randomBytes } from 'node:crypto';
+import type { ServerResponse } from 'node:http';
+import type { OAuthRegisteredClientsStore } from '@modelcontextprotocol/sdk/server/auth/clients.js';
+import {
+  InvalidGrantError,
+  InvalidRequestError,
+  InvalidScopeError,
+  InvalidTargetError,
+  InvalidTokenError,
+} from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import type {
+  AuthorizationParams,
+  OAuthServerProvider,
+} from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type {
+  OAuthClientInformationFull,
+  OAuthTokenRevocationRequest,
+  OAuthTokens,
+} from '@modelcontextprotocol/sdk/shared/auth.js';
+
+/** `resend:read` allows read-only tools; `resend:write` allows every tool. */
+export const OAUTH_SCOPES = ['resend:read', 'resend:write'] as const;
+export type OAuthScope = (typeof OAUTH_SCOPES)[number];
+
+/** Path the consent form posts to. */
+export const CONSENT_PATH = '/oauth/consent';
+
+const ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+/** How long the consent page and the authorization code it leads to are valid. */
+const AUTHORIZATION_TTL_SECONDS = 10 * 60;
+
+const API_KEY_PATTERN = /^re_\w+$/;
+
+/** What a user approved on the consent page: which client may use which key. */
+interface Grant {
+  clientId: string;
+  apiKey: string;
+  scopes: OAuthScope[];
+  resource: URL;
+}
+
+interface PendingAuthorization {
+  client: OAuthClientInformationFull;
+  params: AuthorizationParams;
+  expiresAt: number;
+}
+
+interface AuthorizationCode {
+  grant: Grant;
+  codeChallenge: string;
+  redirectUri: string;
+  expiresAt: number;
+}
+
+interface IssuedToken {
+  grant: Grant;
+  expiresAt: number;
+}
+
+function newSecret(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
+
+/** Send an HTML page that must not be cached, as it holds a sign-in request. */
+export function sendHtml(
+  res: ServerResponse,
+  statusCode: number,
+  html: string,
+): void {
+  res.writeHead(statusCode, {
+    'Content-Type': 'text/html; charset=utf-8',
+    'Cache-Control': 'no-store',
+  });
+  res.end(html);
+}
+
+/** Drop the entries of `map` that expired by `now`. */
+function prune(map: Map<string, { expiresAt: number }>, now: number): void {
+  for (const [key, { expiresAt }] of map) {
+    if (expiresAt <= now) map.delete(key);
+  }
+}
+
+/**
+ * OAuth 2.1 authorization server for the HTTP transport, following the MCP
+ * authorization spec. Clients register dynamically, then send the user to a
+ * consent page where they enter their Resend API key. The key stays on the
+ * server; clients get short-lived access tokens, and rotating refresh
+ * tokens, that map to it. Without `resend:write`, sessions are read-only.
+ * Everything is kept in memory, so a restart signs every client out.
+ */
+export class ResendOAuthProvider implements OAuthServerProvider {
+  readonly clientsStore: OAuthRegisteredClientsStore;
+  private readonly resourceUrl: URL;
+  private readonly now: () => number;
+  private readonly clients = new Map<string, OAuthClientInformationFull>();
+  private readonly pending = new Map<string, PendingAuthorization>();
+  private readonly codes = new Map<string, AuthorizationCode>();
+  private readonly accessTokens = new Map<string, IssuedToken>();
+  private readonly refreshTokens = new Map<string, IssuedToken>();
+
+  /** `resourceUrl` is the MCP endpoint every token is issued for. */
+  constructor({
+    resourceUrl,
+    now = Date.now,
+  }: {
+    resourceUrl: URL;
+    now?: () => number;
+  }) {
+    this.resourceUrl = resourceUrl;
+    this.now = now;
+    this.clientsStore = {
+      getClient: (clientId) => this.clients.get(clientId),
+      registerClient: (client) => {
+        const registered = client as OAuthClientInformationFull;
+        this.clients.set(registered.client_id, registered);
+        return registered;
+      },
+    };
+  }
+
+  async authorize(
+    client: OAuthClientInformationFull,
+    params: AuthorizationParams,
+    res: ServerResponse,
+  ): Promise<void> {
+    const unknown = (params.scopes ?? []).filter(
+      (scope) => !OAUTH_SCOPES.includes(scope as OAuthScope),
+    );
+    if (unknown.length > 0) {
+      throw new InvalidScopeError(`Unknown scope: ${unknown.join(', ')}`);
+    }
+    this.checkResource(params.resource);
+
+    prune(this.pending, this.now());
+    const requestId = newSecret();
+    this.pending.set(requestId, {
+      client,
+      params,
+      expiresAt: this.now() + AUTHORIZATION_TTL_SECONDS * 1000,
+    });
+    sendHtml(res, 200, this.consentPage(requestId));
+  }
+
+  /**
+   * Handle the consent form. Returns the URL to send the user back to, with
+   * an authorization code or an access_denied error, or the consent page
+   * again when the key is malformed.
+   */
+  completeAuthorization(
+    requestId: string,
+    {
+      approve,
+      apiKey,
+      allowWrite,
+    }: {
+      approve: boolean;
+      apiKey?: string;
+      allowWrite?: boolean;
+    },
+  ): { redirectTo: string } | { page: string } {
+    const pending = this.pending.get(requestId);
+    if (!pending || pending.expiresAt <= this.now()) {
+      this.pending.delete(requestId);
+      throw new InvalidRequestError(
+        'This sign-in request has expired. Start again from your MCP client.',
+      );
+    }
+    const { client, params } = pending;
+    const redirect = new URL(params.redirectUri);
+    if (params.state !== undefined) {
+      redirect.searchParams.set('state', params.state);
+    }
+
+    if (!approve) {
+      this.pending.delete(requestId);
+      redirect.searchParams.set('error', 'access_denied');
+      return { redirectTo: redirect.href };
+    }
+    const key = apiKey?.trim() ?? '';
+    if (!API_KEY_PATTERN.test(key)) {
+      return {
+        page: this.consentPage(
+          requestId,
+          'Enter a Resend API key. Keys start with re_.',
+        ),
+      };
+    }
+
+    this.pending.delete(requestId);
+    const requested = params.scopes?.length ? params.scopes : OAUTH_SCOPES;
+    const scopes: OAuthScope[] = ['resend:read'];
+    if (allowWrite && requested.includes('resend:write')) {
+      scopes.push('resend:write');
+    }
+    const code = newSecret();
+    prune(this.codes, this.now());
+    this.codes.set(code, {
+      grant: {
+        clientId: client.client_id,
+        apiKey: key,
+        scopes,
+        resource: params.resource ?? this.resourceUrl,
+      },
+      codeChallenge: params.codeChallenge,
+      redirectUri: params.redirectUri,
+      expiresAt: this.now() + AUTHORIZATION_TTL_SECONDS * 1000,
+    });
+    redirect.searchParams.set('code', code);
+    return { redirectTo: redirect.href };
+  }
+
+  async challengeForAuthorizationCode(
+    client: OAuthClientInformationFull,
+    authorizationCode: string,
+  ): Promise<string> {
+    return this.authorizationCode(client, authorizationCode).codeChallenge;
+  }
+
+  async exchangeAuthorizationCode(
+    client: OAuthClientInformationFull,
+    authorizationCode: string,
+    _codeVerifier?: string,
+    redirectUri?: string,
+    resource?: URL,
+  ): Promise<OAuthTokens> {
+    const code = this.authorizationCode(client, authorizationCode);
+    if (redirectUri !== undefined && redirectUri !== code.redirectUri) {
+      throw new InvalidGrantError('redirect_uri does not match');
+    }
+    this.checkResource(resource);
+    // Codes are single-use.
+    this.codes.delete(authorizationCode);
+    return this.issueTokens(code.grant);
+  }
+
+  async exchangeRefreshToken(
+    client: OAuthClientInformationFull,
+    refreshToken: string,
+    scopes?: string[],
+    resource?: URL,
+  ): Promise<OAuthTokens> {
+    const issued = this.refreshTokens.get(refreshToken);
+    if (
+      !issued ||
+      issued.expiresAt <= this.now() ||
+      issued.grant.clientId !== client.client_id
+    ) {
+      throw new InvalidGrantError('Invalid refresh token');
+    }
+    this.checkResource(resource);
+    const granted: string[] = issued.grant.scopes;
+    if (scopes?.some((scope) => !granted.includes(scope))) {
+      throw new InvalidScopeError('Cannot widen the scopes of a grant');
+    }
+    // Refresh tokens rotate: each one can be used once.
+    this.refreshTokens.delete(refreshToken);
+    return this.issueTokens({
+      ...issued.grant,
+      scopes: issued.grant.scopes.filter(
+        (scope) => !scopes || scopes.includes(scope),
+      ),
+    });
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const issued = this.accessTokens.get(token);
+    if (!issued || issued.expiresAt <= this.now()) {
+      throw new InvalidTokenError('Invalid or expired access token');
+    }
+    return {
+      token,
+      clientId: issued.grant.clientId,
+      scopes: issued.grant.scopes,
+      expiresAt: Math.floor(issued.expiresAt / 1000),
+      resource: issued.grant.resource,
+    };
+  }
+
+  async revokeToken(
+    client: OAuthClientInformationFull,
+    { token }: OAuthTokenRevocationRequest,
+  ): Promise<void> {
+    for (const tokens of [this.accessTokens, this.refreshTokens]) {
+      if (tokens.get(token)?.grant.clientId === client.client_id) {
+        tokens.delete(token);
+      }
+    }
+  }
+
+  /** The Resend API key behind a valid access token. */
+  apiKeyFor(token: string): string | undefined {
+    const issued = this.accessTokens.get(token);
+    return issued && issued.expiresAt > this.now()
+      ? issued.grant.apiKey
+      : undefined;
+  }
+
+  private authorizationCode(
+    client: OAuthClientInformationFull,
+    authorizationCode: string,
+  ): AuthorizationCode {
+    const code = this.codes.get(authorizationCode);
+    if (
+      !code ||
+      code.expiresAt <= this.now() ||
+      code.grant.clientId !== client.client_id
+    ) {
+      throw new InvalidGrantError('Invalid authorization code');
+    }
+    return code;
+  }
+
+  /** Tokens may only be requested for this server's MCP endpoint. */
+  private checkResource(resource: URL | undefined): void {
+    if (resource && resource.href !== this.resourceUrl.href) {
+      throw new InvalidTargetError(
+        `Tokens can only be issued for ${this.resourceUrl.href}`,
+      );
+    }
+  }
+
+  private issueTokens(grant: Grant): OAuthTokens {
+    const now = this.now();
+    prune(this.accessTokens, now);
+    prune(this.refreshTokens, now);
+    const accessToken = newSecret();
+    const refreshToken = newSecret();
+    this.accessTokens.set(accessToken, {
+      grant,
+      expiresAt: now + ACCESS_TOKEN_TTL_SECONDS * 1000,
+    });
+    this.refreshTokens.set(refreshToken, {
+      grant,
+      expiresAt: now + REFRESH_TOKEN_TTL_SECONDS * 1000,
+    });
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      refresh_token: refreshToken,
+      scope: grant.scopes.join(' '),
+    };
+  }
+
+  private consentPage(requestId: string, error?: string): string {
+    const { client, params } = this.pending.get(requestId)!;
+    const clientName = escapeHtml(client.client_name ?? client.client_id);
+    const canWrite =
+      !params.scopes?.length || params.scopes.includes('resend:write');
+    return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Connect ${clientName} to Resend</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 28rem; margin: 4rem auto; padding: 0 1rem; color: #111; }
+  label { display: block; margin: 1rem 0 0.25rem; }
+  input[type=password] { width: 100%; padding: 0.5rem; box-sizing: border-box; }
+  .error { color: #b00020; }
+  .actions { display: flex; gap: 0.5rem; margin-top: 1.5rem; }
+</style>
+</head>
+<body>
+<h1>Connect to Resend</h1>
+<p><strong>${clientName}</strong> wants to use your Resend account through this MCP server.</p>
+${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+<form method="post" action="${CONSENT_PATH}">
+  <input type="hidden" name="request_id" value="${escapeHtml(requestId)}">
+  <label for="api_key">Resend API key</label>
+  <input type="password" id="api_key" name="api_key" autocomplete="off" placeholder="re_...">
+  <p>The key is kept on this server. ${clientName} only receives a token that expires.</p>
+  ${
+    canWrite
+      ? `<label><input type="checkbox" name="allow_write" value="true" checked> Allow changes, such as sending email and editing contacts</label>`
+      : '<p>Access is read-only.</p>'
+  }
+  <div class="actions">
+    <button type="submit" name="decision" value="approve">Allow</button>
+    <button type="submit" name="decision" value="deny">Deny</button>
+  </div>
+</form>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,116 @@
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+/**
+ * Most items one call may collect with `all` or `maxItems`. A response that
+ * hits the cap still reports has_more and a cursor to continue from.
+ */
+export const MAX_PAGINATED_ITEMS = 10_000;
+
+/** Page size used while walking pages; the API's maximum. */
+const PAGE_SIZE = 100;
+
+/**
+ * Input fields added to every paginated list tool, next to limit/after/before.
+ */
+export const paginationInputShape = {
+  all: z
+    .boolean()
+    .optional()
+    .describe(
+      `Fetch every page server-side and return all items in one result (up to ${MAX_PAGINATED_ITEMS}). "limit" is ignored. Can start from "after"; cannot be used with "before".`,
+    ),
+  maxItems: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAGINATED_ITEMS)
+    .optional()
+    .describe(
+      `Fetch pages server-side until this many items are collected (max ${MAX_PAGINATED_ITEMS}). "limit" is ignored. Can start from "after"; cannot be used with "before".`,
+    ),
+};
+
+/** Options for one page while walking pages. */
+export interface PageOptions {
+  limit: number;
+  after?: string;
+}
+
+/** The shape shared by every SDK list response. */
+interface ListResponse {
+  data: { data: { id: string }[]; has_more: boolean } | null;
+  error: unknown;
+}
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Run a list call. Without `all` or `maxItems` this is one call to
+ * `listPage()`, which should use the tool's own pagination arguments. With
+ * them, `listPage` is called with successive "after" cursors until the items
+ * run out, the requested count or the safety cap is reached, or the request
+ * is cancelled. Progress is reported after each page when the client asked
+ * for it. The result has the same shape as a single page, so handlers format
+ * it the same way; an error on any page is returned as is.
+ */
+export async function listPages<R extends ListResponse>(
+  listPage: (page?: PageOptions) => Promise<R>,
+  {
+    all,
+    maxItems,
+    after,
+    before,
+  }: { all?: boolean; maxItems?: number; after?: string; before?: string },
+  extra: ToolExtra,
+  itemLabel: string,
+): Promise<R> {
+  if (!all && maxItems === undefined) return listPage();
+  if (before) {
+    throw new Error(
+      'Cannot use "before" with "all" or "maxItems". Pages are walked forward; use "after" to choose where to start.',
+    );
+  }
+
+  const target = maxItems ?? MAX_PAGINATED_ITEMS;
+  const progressToken = extra._meta?.progressToken;
+  const items: { id: string }[] = [];
+  let cursor = after;
+  let response: R;
+  let hasMore: boolean;
+
+  do {
+    response = await listPage({
+      limit: Math.min(PAGE_SIZE, target - items.length),
+      ...(cursor && { after: cursor }),
+    });
+    if (!response.data) return response;
+
+    const page = response.data.data;
+    items.push(...page);
+    // An empty page can't move the cursor, so stop rather than loop.
+    hasMore = response.data.has_more && page.length > 0;
+    cursor = items.at(-1)?.id;
+
+    if (progressToken !== undefined) {
+      await extra.sendNotification({
+        method: 'notifications/progress',
+        params: {
+          progressToken,
+          progress: items.length,
+          ...(maxItems !== undefined && { total: maxItems }),
+          message: `Fetched ${items.length} ${itemLabel}`,
+        },
+      });
+    }
+  } while (hasMore && cursor && items.length < target && !extra.signal.aborted);
+
+  return {
+    ...response,
+    data: { ...response.data, data: items, has_more: hasMore },
+  };
+}
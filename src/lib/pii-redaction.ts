@@ -0,0 +1,199 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+export const REDACTION_FIELDS = [
+  'emails',
+  'names',
+  'bodies',
+  'properties',
+] as const;
+export type RedactionField = (typeof REDACTION_FIELDS)[number];
+
+const EMAIL_PATTERN = /[\w.!#$%&'*+/=?^`{|}~-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+/** Pseudonymous addresses use a reserved TLD, so mail to them can't be delivered. */
+const PSEUDONYM_DOMAIN = 'redacted.invalid';
+
+const PSEUDONYM_PATTERN =
+  /\b(?:user-[\da-f]{10}@redacted\.invalid|(?:name|value)-[\da-f]{10})\b/g;
+
+/** Fields holding a contact's name. */
+const NAME_KEYS = new Set(['first_name', 'last_name']);
+
+/** Fields holding addresses, which may carry a display name: "Ada <ada@x.dev>". */
+const ADDRESS_KEYS = new Set(['from', 'to', 'cc', 'bcc', 'reply_to']);
+
+const DISPLAY_NAME_PATTERN =
+  /(?:"([^"]*)"|([^<>",]*[^<>",\s]))\s*<([^<>\s]+)>/g;
+
+/** Fields holding a message body. */
+const BODY_KEYS = new Set(['html', 'text']);
+
+/**
+ * API paths whose html/text are messages to or from customers, including
+ * logged send requests. Broadcast and template content is written by the
+ * account's own team and left as is.
+ */
+const MESSAGE_PATH = /^\/(?:emails|logs)(?:[/?]|$)/;
+
+/**
+ * Masks personal data in Resend responses before tools see it. Emails, names
+ * and contact property values become pseudonyms derived from the value with
+ * a per-process key, so the same customer always gets the same pseudonym and
+ * the agent can still correlate records. Pseudonyms the agent passes back
+ * into a tool are swapped for the real values, so it can act on records it
+ * can't read.
+ */
+export class PiiRedactor {
+  /** Real value for every pseudonym handed out. */
+  private readonly originals = new Map<string, string>();
+  private readonly fields: ReadonlySet<RedactionField>;
+  private readonly key: Buffer;
+
+  constructor(fields: Iterable<RedactionField>, key = randomBytes(32)) {
+    this.fields = new Set(fields);
+    this.key = key;
+  }
+
+  /** Redact the data of a response from the API `path`. */
+  redactResponse<T>(path: string, data: T): T {
+    return this.redact(data, '', MESSAGE_PATH.test(path)) as T;
+  }
+
+  /** Swap pseudonyms in tool arguments for the values they stand for. */
+  restore<T>(value: T): T {
+    return mapStrings(value, (text) =>
+      text.replace(
+        PSEUDONYM_PATTERN,
+        (pseudonym) => this.originals.get(pseudonym) ?? pseudonym,
+      ),
+    );
+  }
+
+  /**
+   * Mask what a tool result may echo from its (restored) arguments or from
+   * API error messages: any email address, and names pseudonymized before.
+   */
+  redactToolResult(result: CallToolResult): CallToolResult {
+    const mask = (text: string) => this.maskNames(this.maskEmails(text));
+    return {
+      ...result,
+      content: result.content.map((part) =>
+        part.type === 'text' ? { ...part, text: mask(part.text) } : part,
+      ),
+      ...(result.structuredContent && {
+        structuredContent: mapStrings(result.structuredContent, mask),
+      }),
+    };
+  }
+
+  private redact(value: unknown, key: string, isMessage: boolean): unknown {
+    if (typeof value === 'string') {
+      if (this.fields.has('names') && NAME_KEYS.has(key)) {
+        return this.pseudonym('name', value);
+      }
+      if (this.fields.has('bodies') && isMessage && BODY_KEYS.has(key)) {
+        return `[redacted: ${value.length} chars]`;
+      }
+      const named =
+        this.fields.has('names') && ADDRESS_KEYS.has(key)
+          ? value.replace(
+              DISPLAY_NAME_PATTERN,
+              (
+                _,
+                quoted: string | undefined,
+                bare: string | undefined,
+                address: string,
+              ) =>
+                `${this.pseudonym('name', (quoted ?? bare ?? '').trim())} <${address}>`,
+            )
+          : value;
+      return this.maskEmails(named);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item, key, isMessage));
+    }
+    if (value && typeof value === 'object') {
+      if (this.fields.has('properties') && key === 'properties') {
+        return Object.fromEntries(
+          Object.entries(value).map(([name, item]) => [
+            name,
+            item == null ? item : this.pseudonym('value', String(item)),
+          ]),
+        );
+      }
+      return Object.fromEntries(
+        Object.entries(value).map(([name, item]) => [
+          name,
+          this.redact(item, name, isMessage),
+        ]),
+      );
+    }
+    return value;
+  }
+
+  private maskEmails(text: string): string {
+    if (!this.fields.has('emails')) return text;
+    return text.replace(EMAIL_PATTERN, (address) =>
+      address.endsWith(`@${PSEUDONYM_DOMAIN}`)
+        ? address
+        : `${this.pseudonym('user', address.toLowerCase())}@${PSEUDONYM_DOMAIN}`,
+    );
+  }
+
+  private maskNames(text: string): string {
+    const pseudonyms = new Map<string, string>();
+    for (const [pseudonym, original] of this.originals) {
+      if (pseudonym.startsWith('name-') && original) {
+        pseudonyms.set(original, pseudonym);
+      }
+    }
+    if (pseudonyms.size === 0) return text;
+    // Longest first, so "Ada Lovelace" wins over "Ada".
+    const names = [...pseudonyms.keys()]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp);
+    return text.replace(
+      new RegExp(`\\b(?:${names.join('|')})\\b`, 'g'),
+      (name) => pseudonyms.get(name) ?? name,
+    );
+  }
+
+  private pseudonym(kind: 'user' | 'name' | 'value', value: string): string {
+    const hash = createHmac('sha256', this.key)
+      .update(`${kind}:${value}`)
+      .digest('hex')
+      .slice(0, 10);
+    const pseudonym = `${kind}-${hash}`;
+    this.originals.set(
+      kind === 'user' ? `${pseudonym}@${PSEUDONYM_DOMAIN}` : pseudonym,
+      value,
+    );
+    return pseudonym;
+  }
+}
+
+/** A copy of `value` with every string in it passed through `map`. */
+function mapStrings<T>(value: T, map: (text: string) => string): T {
+  if (typeof value === 'string') return map(value) as T;
+  if (Array.isArray(value)) {
+    return value.map((item) => mapStrings(item, map)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]),
+    ) as T;
+  }
+  return value;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** A redactor for `fields`, or none when no fields are redacted. */
+export function createPiiRedactor(
+  fields: readonly RedactionField[] = [],
+): PiiRedactor | undefined {
+  return fields.length > 0 ? new PiiRedactor(fields) : undefined;
+}
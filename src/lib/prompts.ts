@@ -0,0 +1,33 @@
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+
+/** Whether a tool is registered, i.e. not filtered out by the server options. */
+export type ToolAvailability = (name: string) => boolean;
+
+/**
+ * The message sequence of a workflow prompt: the user's goal, the plan as
+ * numbered steps, and the go-ahead for the first step. Steps name the tools
+ * to call, so the model doesn't have to piece the workflow together from
+ * tool descriptions.
+ */
+export function guidedMessages(
+  goal: string,
+  steps: string[],
+): GetPromptResult['messages'] {
+  return [
+    { role: 'user', content: { type: 'text', text: goal } },
+    {
+      role: 'assistant',
+      content: {
+        type: 'text',
+        text: `Here is the plan:\n\n${steps.map((step, i) => `${i + 1}. ${step}`).join('\n')}`,
+      },
+    },
+    {
+      role: 'user',
+      content: {
+        type: 'text',
+        text: 'Go ahead with step 1. Check with me before sending any email or doing anything that cannot be undone.',
+      },
+    },
+  ];
+}
@@ -0,0 +1,30 @@
+/** Argument names whose values are credentials. */
+const SECRET_NAME = /(api_?key|token|secret|password|authorization)$/i;
+
+/** Longer strings (bodies, base64 attachments) are cut to this length. */
+const MAX_STRING_LENGTH = 200;
+
+/**
+ * Copy tool arguments for logging: credentials are replaced and long strings
+ * are shortened, noting their original length.
+ */
+export function redactArguments(value: unknown, name = ''): unknown {
+  if (SECRET_NAME.test(name) && value != null) return '[redacted]';
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} chars)`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactArguments(item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        redactArguments(item, key),
+      ]),
+    );
+  }
+  return value;
+}
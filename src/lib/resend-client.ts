@@ -0,0 +1,173 @@
+import { type ErrorResponse, Resend, type Response } from 'resend';
+import { userAgentFor } from '../user-agent.js';
+import type { PiiRedactor } from './pii-redaction.js';
+import type { ResponseCache } from './response-cache.js';
+import { RateLimiter, withRetry } from './retry.js';
+import { currentTrace, recordRequest } from './tracing.js';
+
+/**
+ * Resend SDK client whose requests are paced to the account's rate limit and
+ * retried on rate limiting and transient failures. With `apiUrl`, requests go
+ * there instead of the SDK's base URL, which it reads once, from
+ * RESEND_BASE_URL at import time; error handling then mirrors the SDK's.
+ * With a cache, GET responses are served from it and writes invalidate it.
+ * With a redactor, personal data in every response is masked, cached or not.
+ * Requests made during a tool call carry its correlation ID in the
+ * User-Agent and are recorded on its trace.
+ */
+class RetryingResend extends Resend {
+  private readonly apiUrl: string | undefined;
+  private readonly limiter: RateLimiter;
+  private readonly cache: ResponseCache | undefined;
+  private readonly redactor: PiiRedactor | undefined;
+
+  constructor(
+    apiKey: string,
+    apiUrl?: string,
+    { cache, redactor, limiter = new RateLimiter() }: ResendClientOptions = {},
+  ) {
+    super(apiKey);
+    this.apiUrl = apiUrl?.replace(/\/$/, '');
+    this.limiter = limiter;
+    this.cache = cache;
+    this.redactor = redactor;
+  }
+
+  override async fetchRequest<T>(
+    path: string,
+    options: RequestInit = {},
+  ): Promise<Response<T>> {
+    const method = options.method ?? 'GET';
+    const cached = method === 'GET' ? this.cache?.get<T>(path) : undefined;
+    if (cached) {
+      recordRequest({ method, path, durationMs: 0, cached: true });
+      return this.redact(path, cached);
+    }
+
+    const headers = new Headers(options.headers);
+    headers.set('User-Agent', userAgentFor(currentTrace()?.correlationId));
+    const request = { ...options, headers };
+    // A POST is only safe to repeat when the API can deduplicate it.
+    const idempotent = method !== 'POST' || headers.has('Idempotency-Key');
+
+    const started = performance.now();
+    const response = await withRetry(
+      () =>
+        this.apiUrl
+          ? this.fetchFrom<T>(this.apiUrl, path, request)
+          : super.fetchRequest<T>(path, request),
+      ({ error, headers }) => ({
+        failure: error
+          ? { status: error.statusCode, name: error.name }
+          : undefined,
+        headers,
+      }),
+      { limiter: this.limiter, idempotent },
+    );
+    const resourceIds =
+      method === 'GET' || response.error ? [] : writtenIds(path, response.data);
+    recordRequest({
+      method,
+      path,
+      durationMs: Math.round(performance.now() - started),
+      ...(response.error && { error: response.error.name }),
+      ...(resourceIds.length > 0 && { resourceIds }),
+    });
+
+    if (method === 'GET') this.cache?.set(path, response);
+    else this.cache?.invalidate(path);
+    return this.redact(path, response);
+  }
+
+  private redact<T>(path: string, response: Response<T>): Response<T> {
+    if (!this.redactor || !response.data) return response;
+    return {
+      ...response,
+      data: this.redactor.redactResponse(path, response.data),
+    } as Response<T>;
+  }
+
+  private async fetchFrom<T>(
+    apiUrl: string,
+    path: string,
+    options: RequestInit,
+  ): Promise<Response<T>> {
+    const unresolved = {
+      data: null,
+      error: {
+        name: 'application_error' as const,
+        statusCode: null,
+        message: 'Unable to fetch data. The request could not be resolved.',
+      },
+      headers: null,
+    };
+    let response: globalThis.Response;
+    try {
+      response = await fetch(`${apiUrl}${path}`, options);
+    } catch {
+      return unresolved;
+    }
+
+    const headers = Object.fromEntries(response.headers.entries());
+    if (response.ok) {
+      // Like the SDK, an empty or non-JSON body counts as unresolved.
+      try {
+        return { data: (await response.json()) as T, error: null, headers };
+      } catch {
+        return unresolved;
+      }
+    }
+
+    const text = await response.text();
+    try {
+      return { data: null, error: JSON.parse(text) as ErrorResponse, headers };
+    } catch {
+      return {
+        data: null,
+        error: {
+          name: 'application_error',
+          statusCode: response.status,
+          message:
+            'Internal server error. We are unable to process your request right now, please try again later.',
+        },
+        headers,
+      };
+    }
+  }
+}
+
+/**
+ * IDs of the resources a write changed: those the API returned, one per item
+ * for batch calls, or else the ID in the path, e.g. for removals that only
+ * echo it under another name.
+ */
+function writtenIds(path: string, data: unknown): string[] {
+  const { id, data: items } = (data ?? {}) as { id?: unknown; data?: unknown };
+  const returned = (Array.isArray(items) ? items : [{ id }])
+    .map((item) => (item as { id?: unknown } | null)?.id)
+    .filter((value): value is string => typeof value === 'string');
+  if (returned.length > 0) return returned;
+  const fromPath = path.split(/[/?]/)[2];
+  return fromPath ? [decodeURIComponent(fromPath)] : [];
+}
+
+export interface ResendClientOptions {
+  /** Reuse recent GET responses. */
+  cache?: ResponseCache;
+  /** Mask personal data in responses. */
+  redactor?: PiiRedactor;
+  /** Pace requests with this limiter, e.g. one shared with the editor client. */
+  limiter?: RateLimiter;
+}
+
+/**
+ * Create a Resend SDK client, pointed at `apiUrl` when one is configured.
+ * Requests are paced and retried; see `withRetry`.
+ */
+export function createResendClient(
+  apiKey: string,
+  apiUrl?: string,
+  options?: ResendClientOptions,
+): Resend {
+  return new RetryingResend(apiKey, apiUrl, options);
+}
@@ -1,12 +1,30 @@
+import { userAgentFor } from '../user-agent.js';
+import { ResendApiError } from './errors.js';
+import type { ResponseCache } from './response-cache.js';
+import { RateLimiter, withRetry } from './retry.js';
+import { currentTrace, recordRequest } from './tracing.js';
+
 const DEFAULT_API_URL = 'https://api.resend.com';
 
 export class ResendEditorClient {
   private apiUrl: string;
   private apiKey: string;
+  private limiter: RateLimiter;
+  private cache: ResponseCache | undefined;
 
-  constructor(apiKey: string, options?: { apiUrl?: string }) {
+  /**
+   * `cache` is the session's SDK response cache; composing content
+   * invalidates the broadcast or template it changed. `limiter` is the one
+   * the session's SDK client paces its requests with.
+   */
+  constructor(
+    apiKey: string,
+    options?: { apiUrl?: string; cache?: ResponseCache; limiter?: RateLimiter },
+  ) {
     this.apiKey = apiKey;
     this.apiUrl = (options?.apiUrl || DEFAULT_API_URL).replace(/\/$/, '');
+    this.limiter = options?.limiter ?? new RateLimiter();
+    this.cache = options?.cache;
   }
 
   private async apiRequest<T>(
@@ -15,22 +33,45 @@ export class ResendEditorClient {
     body?: unknown,
   ): Promise<T> {
     const url = `${this.apiUrl}${path}`;
-    const response = await fetch(url, {
+    const started = performance.now();
+    const response = await withRetry(
+      () =>
+        fetch(url, {
+          method,
+          headers: {
+            Authorization: `Bearer ${this.apiKey}`,
+            'Content-Type': 'application/json',
+            'User-Agent': userAgentFor(currentTrace()?.correlationId),
+          },
+          body: body ? JSON.stringify(body) : undefined,
+        }),
+      (res) => ({
+        failure: res.ok ? undefined : { status: res.status },
+        headers: Object.fromEntries(res.headers.entries()),
+      }),
+      { limiter: this.limiter, idempotent: method !== 'POST' },
+    );
+    const resourceId = (body as { resource_id?: string } | undefined)
+      ?.resource_id;
+    recordRequest({
       method,
-      headers: {
-        Authorization: `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: body ? JSON.stringify(body) : undefined,
+      path: path.split('?')[0],
+      durationMs: Math.round(performance.now() - started),
+      ...(!response.ok && { error: String(response.status) }),
+      ...(response.ok &&
+        method !== 'GET' &&
+        resourceId && { resourceIds: [resourceId] }),
     });
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({
         error: response.statusText,
       }));
-      throw new Error(
-        `API error (${response.status}): ${error.message || error.error || response.statusText}`,
-      );
+      throw new ResendApiError(`Editor request ${method} ${path} failed`, {
+        name: error.name,
+        statusCode: response.status,
+        message: error.message || error.error || response.statusText,
+      });
     }
 
     return response.json() as Promise<T>;
@@ -56,22 +97,30 @@ export class ResendEditorClient {
     id: string,
     data: { content: Record<string, unknown> },
   ): Promise<{ id: string; object: string }> {
-    return this.apiRequest('POST', '/editor/content', {
-      resource_type: 'broadcast',
-      resource_id: id,
-      content: data.content,
-    });
+    try {
+      return await this.apiRequest('POST', '/editor/content', {
+        resource_type: 'broadcast',
+        resource_id: id,
+        content: data.content,
+      });
+    } finally {
+      this.cache?.invalidate(`/broadcasts/${id}`);
+    }
   }
 
   async composeTemplateContent(
     id: string,
     data: { content: Record<string, unknown> },
   ): Promise<{ id: string; object: string }> {
-    return this.apiRequest('POST', '/editor/content', {
-      resource_type: 'template',
-      resource_id: id,
-      content: data.content,
-    });
+    try {
+      return await this.apiRequest('POST', '/editor/content', {
+        resource_type: 'template',
+        resource_id: id,
+        content: data.content,
+      });
+    } finally {
+      this.cache?.invalidate(`/templates/${id}`);
+    }
   }
 
   async getEditorContent(
@@ -0,0 +1,73 @@
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type {
+  ListResourcesResult,
+  ReadResourceResult,
+  Resource,
+} from '@modelcontextprotocol/sdk/types.js';
+import { describeResendError, type ResendErrorDetails } from './errors.js';
+import type { PageOptions } from './pagination.js';
+
+/**
+ * Most resources one template lists: a single page of its list endpoint.
+ * resources/list has no per-template cursor, and clients may list often, so
+ * listing never walks further pages; the matching list tools can.
+ */
+export const MAX_LISTED_RESOURCES = 100;
+
+/**
+ * An error for a failed Resend call while listing or reading a resource.
+ * Resource failures are protocol errors rather than results, so the
+ * description travels in the message.
+ */
+export function resourceError(
+  action: string,
+  details: ResendErrorDetails,
+): Error {
+  return new Error(describeResendError(action, details));
+}
+
+/**
+ * List resources from the first page of a list endpoint, mapping each item
+ * to a resource.
+ */
+export async function listResources<T extends { id: string }>(
+  listPage: (page: PageOptions) => Promise<{
+    data: { data: T[] } | null;
+    error: ResendErrorDetails | null;
+  }>,
+  toResource: (item: T) => Resource,
+  itemLabel: string,
+): Promise<ListResourcesResult> {
+  const response = await listPage({ limit: MAX_LISTED_RESOURCES });
+  if (!response.data) {
+    throw resourceError(
+      `Failed to list ${itemLabel}`,
+      response.error ?? { message: 'No data returned' },
+    );
+  }
+  // Some endpoints, e.g. topics, ignore the limit and return everything.
+  return {
+    resources: response.data.data
+      .slice(0, MAX_LISTED_RESOURCES)
+      .map(toResource),
+  };
+}
+
+/** The single value of a URI template variable. */
+export function uriVariable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** A resource read result holding one JSON document. */
+export function jsonContents(uri: URL, value: unknown): ReadResourceResult {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: 'application/json',
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
@@ -0,0 +1,102 @@
+import type { Response } from 'resend';
+import { getLogger } from './logger.js';
+
+/**
+ * Default lifetime of a cached response, used by the CLI. The cache is
+ * opt-in, since cached reads miss changes made outside the session.
+ */
+export const DEFAULT_CACHE_TTL_SECONDS = 0;
+
+/**
+ * Resources whose cached responses a write to another resource makes stale,
+ * e.g. adding a contact to a segment changes the segment's contacts.
+ */
+const RELATED_RESOURCES: Record<string, string[]> = {
+  contacts: ['segments', 'topics'],
+  segments: ['contacts'],
+  topics: ['contacts'],
+  events: ['automations'],
+};
+
+/** Resources that change on every request, so are never cached. */
+const UNCACHED_RESOURCES = new Set(['logs']);
+
+/** The top-level resource of an API path, e.g. "broadcasts" for /broadcasts/b_1/send. */
+function resourceOf(path: string): string {
+  return path.split(/[/?]/)[1] ?? '';
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  invalidations: number;
+}
+
+/**
+ * Short-lived cache of successful GET responses for one session, keyed by
+ * API path. A write to a resource drops every cached response for it and
+ * its related resources, so tools never read back stale data they changed
+ * themselves; changes made elsewhere show up once entries expire.
+ */
+export class ResponseCache {
+  readonly stats: CacheStats = { hits: 0, misses: 0, invalidations: 0 };
+  private readonly entries = new Map<
+    string,
+    { expiresAt: number; response: Response<unknown> }
+  >();
+  private readonly ttlMs: number;
+  private readonly now: () => number;
+
+  constructor({
+    ttlMs,
+    now = Date.now,
+  }: { ttlMs: number; now?: () => number }) {
+    this.ttlMs = ttlMs;
+    this.now = now;
+  }
+
+  /** A copy of the cached response for `path`, if it's still fresh. */
+  get<T>(path: string): Response<T> | undefined {
+    if (UNCACHED_RESOURCES.has(resourceOf(path))) return undefined;
+    const entry = this.entries.get(path);
+    if (entry && entry.expiresAt > this.now()) {
+      this.stats.hits++;
+      this.log('hit', path);
+      // Copy, so a handler changing the response can't change the cache.
+      return structuredClone(entry.response) as Response<T>;
+    }
+    this.entries.delete(path);
+    this.stats.misses++;
+    this.log('miss', path);
+    return undefined;
+  }
+
+  /** Cache a response for `path`. Only successful responses are kept. */
+  set(path: string, response: Response<unknown>): void {
+    if (response.error || UNCACHED_RESOURCES.has(resourceOf(path))) return;
+    this.entries.set(path, {
+      expiresAt: this.now() + this.ttlMs,
+      response: structuredClone(response),
+    });
+  }
+
+  /** Drop cached responses made stale by a write to `path`. */
+  invalidate(path: string): void {
+    const resource = resourceOf(path);
+    const stale = new Set([resource, ...(RELATED_RESOURCES[resource] ?? [])]);
+    for (const key of this.entries.keys()) {
+      if (stale.has(resourceOf(key))) this.entries.delete(key);
+    }
+    this.stats.invalidations++;
+    this.log('invalidate', path);
+  }
+
+  private log(event: string, path: string): void {
+    getLogger().log('debug', `cache_${event}`, { path, ...this.stats });
+  }
+}
+
+/** A response cache, or none when `ttlMs` is 0 or unset. */
+export function createResponseCache(ttlMs = 0): ResponseCache | undefined {
+  return ttlMs > 0 ? new ResponseCache({ ttlMs }) : undefined;
+}
@@ -0,0 +1,182 @@
+/**
+ * Resend's default rate limit, used until a response tells us the account's
+ * actual limit.
+ */
+const DEFAULT_REQUESTS_PER_SECOND = 2;
+
+export interface RetryOptions {
+  /** Retries after the first attempt. */
+  maxRetries?: number;
+  /** Backoff before the first retry; doubles on each further retry. */
+  baseDelayMs?: number;
+  /**
+   * Longest we wait before a retry. A `retry-after` longer than this is not
+   * waited out: the error is returned so the caller can decide what to do.
+   */
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const DEFAULT_RETRY_OPTIONS = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/** How one attempt went, as far as retrying is concerned. */
+export interface AttemptOutcome {
+  /** Set when the attempt failed. `status` is null if no response arrived. */
+  failure?: { status: number | null; name?: string };
+  headers?: Record<string, string> | null;
+}
+
+/**
+ * Parse a `retry-after` header (seconds or an HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(
+  value: string | undefined,
+  now = Date.now(),
+): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Paces requests for one API key so they stay under the account's
+ * requests-per-second limit, and holds every request back while the API says
+ * the limit is used up. One is shared by the clients of a session (see
+ * createAccountClients), so it is freed along with them.
+ */
+export class RateLimiter {
+  private intervalMs: number;
+  private lastStart = Number.NEGATIVE_INFINITY;
+  private pausedUntil = 0;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(
+    options: {
+      requestsPerSecond?: number;
+      now?: () => number;
+      sleep?: (ms: number) => Promise<void>;
+    } = {},
+  ) {
+    this.intervalMs =
+      1000 / (options.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND);
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? sleep;
+  }
+
+  /** Wait for this request's turn. */
+  async acquire(): Promise<void> {
+    const now = this.now();
+    const slot = Math.max(
+      now,
+      this.lastStart + this.intervalMs,
+      this.pausedUntil,
+    );
+    this.lastStart = slot;
+    if (slot > now) await this.sleep(slot - now);
+  }
+
+  /** Hold back every request for `ms` from now. */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, this.now() + ms);
+  }
+
+  /**
+   * Learn from Resend's `ratelimit-*` headers: the limit sets the pace, and
+   * an exhausted window pauses until it resets.
+   */
+  observe(headers: Record<string, string> | null | undefined): void {
+    if (!headers) return;
+    const limit = Number(headers['ratelimit-limit']);
+    const windowSeconds = Number(
+      /;w=(\d+)/.exec(headers['ratelimit-policy'] ?? '')?.[1] ?? 1,
+    );
+    if (limit > 0 && windowSeconds > 0) {
+      this.intervalMs = (windowSeconds * 1000) / limit;
+    }
+    const reset = Number(headers['ratelimit-reset']);
+    if (headers['ratelimit-remaining'] === '0' && reset > 0) {
+      this.pause(reset * 1000);
+    }
+  }
+}
+
+/**
+ * Whether a failure is worth another attempt. Rate limiting always is (the
+ * request was rejected, not processed), except for daily and monthly quotas
+ * that won't reset in time. Server errors and lost connections are only
+ * retried when repeating the request is safe.
+ */
+function isRetryable(
+  { status, name }: NonNullable<AttemptOutcome['failure']>,
+  idempotent: boolean,
+): boolean {
+  if (status === 429) return !name?.endsWith('_quota_exceeded');
+  return idempotent && (status === null || status >= 500);
+}
+
+/**
+ * Run `call`, pacing it with `limiter` and retrying rate-limited and
+ * transient failures with exponential backoff. `retry-after` overrides the
+ * backoff and pauses every request sharing the limiter. `call` may resolve
+ * with an error response or throw; either way the last outcome is returned
+ * or thrown once retries run out.
+ */
+export async function withRetry<T>(
+  call: () => Promise<T>,
+  inspect: (result: T) => AttemptOutcome,
+  {
+    limiter,
+    idempotent,
+    ...options
+  }: RetryOptions & { limiter: RateLimiter; idempotent: boolean },
+): Promise<T> {
+  const { maxRetries, baseDelayMs, maxDelayMs } = {
+    ...DEFAULT_RETRY_OPTIONS,
+    ...options,
+  };
+  const wait = options.sleep ?? sleep;
+
+  for (let attempt = 0; ; attempt++) {
+    const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    // Jitter, so parallel callers don't retry in lockstep.
+    const jittered = Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+
+    await limiter.acquire();
+    let result: T;
+    try {
+      result = await call();
+    } catch (err) {
+      if (!idempotent || attempt >= maxRetries) throw err;
+      await wait(jittered);
+      continue;
+    }
+
+    const { failure, headers } = inspect(result);
+    limiter.observe(headers);
+    if (
+      !failure ||
+      attempt >= maxRetries ||
+      !isRetryable(failure, idempotent)
+    ) {
+      return result;
+    }
+
+    const retryAfter = parseRetryAfter(headers?.['retry-after']);
+    if (retryAfter !== undefined) {
+      if (retryAfter > maxDelayMs) return result;
+      limiter.pause(retryAfter);
+      continue;
+    }
+    await wait(jittered);
+  }
+}
@@ -0,0 +1,181 @@
+import { getLogger } from './logger.js';
+
+/** Defaults used by the CLI; see SessionLimits. */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS = 30 * 60;
+export const DEFAULT_SESSION_MAX_AGE_SECONDS = 24 * 60 * 60;
+export const DEFAULT_MAX_SESSIONS_PER_KEY = 10;
+
+/** Session limits for the HTTP transport. A value of 0 disables that limit. */
+export interface SessionLimits {
+  /** Close a session after this long without a request. */
+  idleTimeoutMs: number;
+  /** Close a session this long after it opened, however busy it is. */
+  maxAgeMs: number;
+  /** Most open sessions one Resend API key may hold at a time. */
+  maxPerKey: number;
+}
+
+export interface SessionCounts {
+  /** Open sessions. */
+  active: number;
+  /** Distinct API keys holding at least one open session. */
+  apiKeys: number;
+}
+
+/** Anything a session holds that must be closed to free it, e.g. its transport. */
+interface Closable {
+  close(): Promise<void>;
+}
+
+interface SessionEntry<T> {
+  value: T;
+  apiKey: string;
+  /** OAuth scopes the session was opened with; empty without OAuth. */
+  scopes: readonly string[];
+  openedAt: number;
+  lastSeenAt: number;
+}
+
+/**
+ * Open HTTP sessions, with the API key each was opened with. Sessions past
+ * their idle or absolute timeout are treated as gone right away, and
+ * `reap` closes them so their Resend client and MCP server can be freed.
+ */
+export class SessionRegistry<T extends Closable> {
+  private readonly entries = new Map<string, SessionEntry<T>>();
+  /** Slots held for sessions still initializing, by API key. */
+  private readonly reserved = new Map<string, number>();
+  private readonly limits: SessionLimits;
+  private readonly now: () => number;
+
+  constructor({
+    limits,
+    now = Date.now,
+  }: { limits: SessionLimits; now?: () => number }) {
+    this.limits = limits;
+    this.now = now;
+  }
+
+  add(
+    id: string,
+    apiKey: string,
+    value: T,
+    scopes: readonly string[] = [],
+  ): void {
+    const now = this.now();
+    this.entries.set(id, {
+      value,
+      apiKey,
+      scopes,
+      openedAt: now,
+      lastSeenAt: now,
+    });
+  }
+
+  /**
+   * The live session with this ID, marking it as just used. Expired
+   * sessions are not returned, even before the reaper has closed them.
+   */
+  get(
+    id: string,
+  ): { value: T; apiKey: string; scopes: readonly string[] } | undefined {
+    const entry = this.entries.get(id);
+    if (!entry || this.isExpired(entry)) return undefined;
+    entry.lastSeenAt = this.now();
+    return { value: entry.value, apiKey: entry.apiKey, scopes: entry.scopes };
+  }
+
+  delete(id: string): void {
+    this.entries.delete(id);
+  }
+
+  /**
+   * Whether `apiKey` already holds as many live or reserved sessions as it
+   * may.
+   */
+  isFull(apiKey: string): boolean {
+    if (this.limits.maxPerKey <= 0) return false;
+    let open = this.reserved.get(apiKey) ?? 0;
+    for (const entry of this.live()) {
+      if (entry.apiKey === apiKey) open++;
+    }
+    return open >= this.limits.maxPerKey;
+  }
+
+  /**
+   * Hold a slot for a session of `apiKey` that is still initializing, so
+   * concurrent initializations can't go past the limit. Returns undefined
+   * when the key is full, otherwise a function releasing the slot, to call
+   * once the session is added or has failed to start. Releasing twice is
+   * harmless.
+   */
+  reserve(apiKey: string): (() => void) | undefined {
+    if (this.isFull(apiKey)) return undefined;
+    this.reserved.set(apiKey, (this.reserved.get(apiKey) ?? 0) + 1);
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const left = (this.reserved.get(apiKey) ?? 1) - 1;
+      if (left > 0) this.reserved.set(apiKey, left);
+      else this.reserved.delete(apiKey);
+    };
+  }
+
+  counts(): SessionCounts {
+    const live = [...this.live()];
+    return {
+      active: live.length,
+      apiKeys: new Set(live.map((entry) => entry.apiKey)).size,
+    };
+  }
+
+  /** Close and forget every expired session. Returns how many were closed. */
+  async reap(): Promise<number> {
+    const expired = [...this.entries].filter(([, entry]) =>
+      this.isExpired(entry),
+    );
+    for (const [id] of expired) this.entries.delete(id);
+    await Promise.all(expired.map(([id, entry]) => this.close(id, entry)));
+    if (expired.length > 0) {
+      getLogger().log('info', 'sessions_reaped', {
+        closed: expired.length,
+        ...this.counts(),
+      });
+    }
+    return expired.length;
+  }
+
+  /** Close and forget every session, e.g. on shutdown. */
+  async closeAll(): Promise<void> {
+    const all = [...this.entries];
+    this.entries.clear();
+    await Promise.all(all.map(([id, entry]) => this.close(id, entry)));
+  }
+
+  private *live(): Iterable<SessionEntry<T>> {
+    for (const entry of this.entries.values()) {
+      if (!this.isExpired(entry)) yield entry;
+    }
+  }
+
+  private isExpired(entry: SessionEntry<T>): boolean {
+    const now = this.now();
+    const { idleTimeoutMs, maxAgeMs } = this.limits;
+    return (
+      (idleTimeoutMs > 0 && now - entry.lastSeenAt >= idleTimeoutMs) ||
+      (maxAgeMs > 0 && now - entry.openedAt >= maxAgeMs)
+    );
+  }
+
+  private async close(id: string, entry: SessionEntry<T>): Promise<void> {
+    try {
+      await entry.value.close();
+    } catch (err) {
+      getLogger().log('warn', 'session_close_failed', {
+        sessionId: id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+}
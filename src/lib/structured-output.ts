@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+/**
+ * Output schema fields shared by every paginated list tool. Spread into a
+ * tool's outputSchema next to the field holding the page of items.
+ */
+export const paginationOutputShape = {
+  has_more: z.boolean().describe('Whether more results are available'),
+  next_cursor: z
+    .string()
+    .nullable()
+    .describe(
+      'ID to pass as "after" to fetch the next page, or null when there are no more results',
+    ),
+};
+
+/**
+ * Build the pagination part of a list tool's structuredContent. The next
+ * cursor is the ID of the last item on the page, matching how the Resend API
+ * expects "after" to be used.
+ */
+export function paginationOutput(
+  items: readonly { id: string }[],
+  hasMore: boolean,
+): { has_more: boolean; next_cursor: string | null } {
+  const last = items[items.length - 1];
+  return {
+    has_more: hasMore,
+    next_cursor: hasMore && last ? last.id : null,
+  };
+}
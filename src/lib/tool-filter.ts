@@ -0,0 +1,148 @@
+/**
+ * Tool groups accepted by --tools / --exclude-tools, keyed by group name.
+ * Every registered tool must belong to exactly one group.
+ */
+export const TOOL_GROUPS = {
+  accounts: ['list-accounts', 'switch-account'],
+  audit: ['list-audit-entries'],
+  'api-keys': ['create-api-key', 'list-api-keys', 'remove-api-key'],
+  automations: [
+    'create-automation',
+    'update-automation',
+    'get-automation',
+    'remove-automation',
+    'get-automation-runs',
+  ],
+  broadcasts: [
+    'create-broadcast',
+    'send-broadcast',
+    'list-broadcasts',
+    'get-broadcast',
+    'remove-broadcast',
+    'compose-broadcast',
+    'update-broadcast',
+  ],
+  'contact-properties': [
+    'create-contact-property',
+    'list-contact-properties',
+    'get-contact-property',
+    'update-contact-property',
+    'remove-contact-property',
+  ],
+  contacts: [
+    'create-contact',
+    'list-contacts',
+    'get-contact',
+    'update-contact',
+    'remove-contact',
+    'add-contact-to-segment',
+    'remove-contact-from-segment',
+    'list-contact-segments',
+    'list-contact-topics',
+    'update-contact-topics',
+  ],
+  domains: [
+    'create-domain',
+    'list-domains',
+    'get-domain',
+    'update-domain',
+    'remove-domain',
+    'verify-domain',
+  ],
+  editor: [
+    'get-tiptap-json-content',
+    'connect-to-editor',
+    'disconnect-from-editor',
+  ],
+  emails: [
+    'send-email',
+    'list-emails',
+    'get-email',
+    'list-received-emails',
+    'get-received-email',
+    'list-received-email-attachments',
+    'get-received-email-attachment',
+    'cancel-email',
+    'update-email',
+    'list-sent-email-attachments',
+    'get-sent-email-attachment',
+    'send-batch-emails',
+  ],
+  events: ['send-event', 'manage-events'],
+  logs: ['list-logs', 'get-log'],
+  segments: [
+    'create-segment',
+    'list-segments',
+    'get-segment',
+    'remove-segment',
+  ],
+  templates: [
+    'create-template',
+    'list-templates',
+    'get-template',
+    'compose-template',
+    'update-template',
+    'remove-template',
+    'publish-template',
+    'duplicate-template',
+  ],
+  topics: [
+    'create-topic',
+    'list-topics',
+    'get-topic',
+    'update-topic',
+    'remove-topic',
+  ],
+  webhooks: [
+    'create-webhook',
+    'list-webhooks',
+    'get-webhook',
+    'update-webhook',
+    'remove-webhook',
+  ],
+} as const satisfies Record<string, readonly string[]>;
+
+export type ToolGroup = keyof typeof TOOL_GROUPS;
+
+export const ALL_TOOL_NAMES: readonly string[] =
+  Object.values(TOOL_GROUPS).flat();
+
+function isToolGroup(name: string): name is ToolGroup {
+  return Object.hasOwn(TOOL_GROUPS, name);
+}
+
+/**
+ * Expand group names into their tool names. Plain tool names pass through.
+ */
+export function expandToolNames(names: readonly string[]): string[] {
+  return names.flatMap((name) =>
+    isToolGroup(name) ? [...TOOL_GROUPS[name]] : [name],
+  );
+}
+
+/**
+ * Return the entries that are neither a tool name nor a group name.
+ */
+export function findUnknownToolNames(names: readonly string[]): string[] {
+  return names.filter(
+    (name) => !isToolGroup(name) && !ALL_TOOL_NAMES.includes(name),
+  );
+}
+
+/**
+ * Build a predicate deciding whether a tool should be registered.
+ * An empty or missing allowlist means every tool is allowed; the denylist
+ * is applied afterwards and always wins.
+ */
+export function createToolFilter({
+  tools,
+  excludeTools,
+}: {
+  tools?: readonly string[];
+  excludeTools?: readonly string[];
+}): (name: string) => boolean {
+  const allowed =
+    tools && tools.length > 0 ? new Set(expandToolNames(tools)) : null;
+  const excluded = new Set(expandToolNames(excludeTools ?? []));
+  return (name) => (!allowed || allowed.has(name)) && !excluded.has(name);
+}
@@ -0,0 +1,51 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import { getLogger } from './logger.js';
+
+/** One Resend API request made while handling a tool call. */
+export interface TracedRequest {
+  method: string;
+  path: string;
+  durationMs: number;
+  /** The API's error name, or HTTP status without one, when the request failed. */
+  error?: string;
+  /** Served from the response cache without calling Resend. */
+  cached?: true;
+  /** IDs of the resources a successful write created or changed. */
+  resourceIds?: string[];
+}
+
+/** What happened while handling one tool call. */
+export interface Trace {
+  correlationId: string;
+  requests: TracedRequest[];
+}
+
+const storage = new AsyncLocalStorage<Trace>();
+
+/**
+ * Run `fn` as one traced tool call. Resend requests made inside it, however
+ * deeply, are recorded on the trace and tagged with its correlation ID.
+ */
+export function withTrace<T>(fn: (trace: Trace) => Promise<T>): Promise<T> {
+  const trace: Trace = { correlationId: randomUUID(), requests: [] };
+  return storage.run(trace, () => fn(trace));
+}
+
+/** The trace of the tool call being handled, if any. */
+export function currentTrace(): Trace | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Record a Resend request on the current tool call's trace, and log it at
+ * debug level.
+ */
+export function recordRequest(request: TracedRequest): void {
+  const trace = currentTrace();
+  trace?.requests.push(request);
+  getLogger().log('debug', 'resend_request', {
+    correlationId: trace?.correlationId,
+    ...request,
+  });
+}
@@ -0,0 +1,63 @@
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { Completions } from '../lib/completions.js';
+import { guidedMessages, type ToolAvailability } from '../lib/prompts.js';
+
+const WELCOME_SERIES_TOOLS = [
+  'manage-events',
+  'list-templates',
+  'get-template',
+  'list-domains',
+  'create-automation',
+  'send-event',
+  'get-automation-runs',
+  'update-automation',
+];
+
+export function addAutomationPrompts(
+  server: McpServer,
+  isToolAvailable: ToolAvailability,
+  completions: Completions,
+) {
+  if (!WELCOME_SERIES_TOOLS.every(isToolAvailable)) return;
+
+  server.registerPrompt(
+    'welcome-series',
+    {
+      title: 'Welcome series',
+      description:
+        'Set up an automation that sends a series of welcome emails when an event fires, enable it, and test it.',
+      argsSchema: {
+        eventName: completable(
+          z
+            .string()
+            .describe('Event that starts the series, e.g. user.created'),
+          completions.eventNames,
+        ),
+        emails: z
+          .string()
+          .optional()
+          .describe('How many emails the series sends (default: 3)'),
+        interval: z
+          .string()
+          .optional()
+          .describe('Wait between emails, e.g. "2 days" (default: 1 day)'),
+      },
+    },
+    ({ eventName, emails = '3', interval = '1 day' }) => ({
+      description: `Welcome series on ${eventName}`,
+      messages: guidedMessages(
+        `I want a welcome series: ${emails} emails, ${interval} apart, starting when the "${eventName}" event is sent.`,
+        [
+          `Call manage-events to check that the "${eventName}" event exists, and create it if it doesn't.`,
+          `Call list-templates to find a published template for each of the ${emails} emails, and ask me which to use. If some are missing, offer to create them with create-template, compose-template and publish-template.`,
+          'Call get-template for each chosen template. If one has no "from" or "subject", call list-domains and pick a verified domain for that step.',
+          `Call create-automation with status "disabled": a trigger on "${eventName}", then send_email steps with a ${interval} delay step between them.`,
+          'Show me the steps. When I approve them, call update-automation to enable it: a disabled automation starts no runs, so it can only be tested once enabled.',
+          'Call send-event for a test contact I give you, then get-automation-runs to check that a run started. If it looks wrong, call update-automation to disable it again while we fix it.',
+        ],
+      ),
+    }),
+  );
+}
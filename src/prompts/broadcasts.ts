@@ -0,0 +1,53 @@
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { Completions } from '../lib/completions.js';
+import { guidedMessages, type ToolAvailability } from '../lib/prompts.js';
+
+const NEWSLETTER_TOOLS = [
+  'list-segments',
+  'create-broadcast',
+  'get-tiptap-json-content',
+  'compose-broadcast',
+  'send-broadcast',
+];
+
+export function addBroadcastPrompts(
+  server: McpServer,
+  isToolAvailable: ToolAvailability,
+  completions: Completions,
+) {
+  if (!NEWSLETTER_TOOLS.every(isToolAvailable)) return;
+
+  server.registerPrompt(
+    'newsletter',
+    {
+      title: 'Newsletter',
+      description:
+        'Draft a newsletter broadcast to a segment, compose it for the visual editor, and send it once approved.',
+      argsSchema: {
+        topic: z.string().describe('What the newsletter is about'),
+        segment: completable(
+          z
+            .string()
+            .optional()
+            .describe('Name or ID of the segment to send to'),
+          completions.segmentNames,
+        ),
+        subject: z.string().optional().describe('Subject line to use'),
+      },
+    },
+    ({ topic, segment, subject }) => ({
+      description: `Newsletter about ${topic}`,
+      messages: guidedMessages(`I want to send a newsletter about: ${topic}`, [
+        segment
+          ? `Call list-segments and find the segment "${segment}".`
+          : 'Call list-segments and ask which segment to send to. Broadcasts need a segment; if none covers the intended audience, suggest creating one with create-segment.',
+        `Call create-broadcast with a descriptive name, ${subject ? `the subject "${subject}"` : 'a subject you propose'} and a plain-text version of the content.`,
+        'Call get-tiptap-json-content with include_schema: true, then compose-broadcast to write the content, so it can be refined in the Resend dashboard editor.',
+        'Show me the subject, the segment and a summary of the content, and wait for my approval.',
+        'Once I approve, call send-broadcast, now or at the time I choose.',
+      ]),
+    }),
+  );
+}
@@ -0,0 +1,46 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { guidedMessages, type ToolAvailability } from '../lib/prompts.js';
+
+const VERIFY_NEW_DOMAIN_TOOLS = [
+  'list-domains',
+  'create-domain',
+  'get-domain',
+  'verify-domain',
+];
+
+export function addDomainPrompts(
+  server: McpServer,
+  isToolAvailable: ToolAvailability,
+) {
+  if (!VERIFY_NEW_DOMAIN_TOOLS.every(isToolAvailable)) return;
+
+  server.registerPrompt(
+    'verify-new-domain',
+    {
+      title: 'Verify a new domain',
+      description:
+        'Add a sender domain, walk through its DNS records, and verify it.',
+      argsSchema: {
+        domain: z.string().describe('Domain to send from, e.g. example.com'),
+        region: z
+          .string()
+          .optional()
+          .describe(
+            'Region to send from: us-east-1, eu-west-1, sa-east-1 or ap-northeast-1',
+          ),
+      },
+    },
+    ({ domain, region }) => ({
+      description: `Verify ${domain}`,
+      messages: guidedMessages(`I want to send email from ${domain}.`, [
+        `Call list-domains to check whether ${domain} is already added. If it is, skip to step 3.`,
+        `Call create-domain for ${domain}${region ? ` in the ${region} region` : ''}.`,
+        `Call get-domain and show me every DNS record as a table (type, name, value, priority), ready to paste into my DNS provider.`,
+        'Wait until I confirm the records are added, then call verify-domain.',
+        'Call get-domain to check the status. DNS changes can take a while to propagate, so if records are still pending, tell me which ones and offer to check again later.',
+        `Once the domain is verified, suggest a sender address such as hello@${domain}.`,
+      ]),
+    }),
+  );
+}
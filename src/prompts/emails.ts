@@ -0,0 +1,49 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { guidedMessages, type ToolAvailability } from '../lib/prompts.js';
+
+const TRIAGE_INBOX_TOOLS = [
+  'list-received-emails',
+  'get-received-email',
+  'list-received-email-attachments',
+  'send-email',
+];
+
+export function addEmailPrompts(
+  server: McpServer,
+  isToolAvailable: ToolAvailability,
+) {
+  if (!TRIAGE_INBOX_TOOLS.every(isToolAvailable)) return;
+
+  server.registerPrompt(
+    'triage-inbox',
+    {
+      title: 'Triage inbox',
+      description:
+        'Sort recent received emails by what they need, and draft replies for approval.',
+      argsSchema: {
+        count: z
+          .string()
+          .optional()
+          .describe('How many recent emails to look at (default: 20)'),
+        focus: z
+          .string()
+          .optional()
+          .describe('What to look out for, e.g. "support requests"'),
+      },
+    },
+    ({ count = '20', focus }) => ({
+      description: 'Triage received emails',
+      messages: guidedMessages(
+        `Help me triage the last ${count} emails I received${focus ? `, looking out for ${focus}` : ''}.`,
+        [
+          `Call list-received-emails with limit ${count}.`,
+          'Call get-received-email for each email whose subject and sender are not enough to tell what it needs, and list-received-email-attachments when an attachment matters.',
+          'Group the emails into "needs a reply", "for information" and "automated or spam", with one line per email.',
+          'Draft replies for the "needs a reply" group and show them to me.',
+          'Send each reply with send-email only after I approve it, replying from the address it was sent to.',
+        ],
+      ),
+    }),
+  );
+}
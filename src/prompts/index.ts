@@ -0,0 +1,4 @@
+export * from './automations.js';
+export * from './broadcasts.js';
+export * from './domains.js';
+export * from './emails.js';
@@ -0,0 +1,55 @@
+import {
+  type McpServer,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Resend } from 'resend';
+import type { Completions } from '../lib/completions.js';
+import {
+  jsonContents,
+  listResources,
+  resourceError,
+  uriVariable,
+} from '../lib/resources.js';
+import { sdkResponseToWorkflow } from '../lib/workflow-converter.js';
+
+export function addAutomationResources(
+  server: McpServer,
+  resend: Resend,
+  completions: Completions,
+) {
+  server.registerResource(
+    'automation-workflow',
+    new ResourceTemplate('resend://automations/{id}/workflow', {
+      list: () =>
+        listResources(
+          (page) => resend.automations.list(page),
+          (automation) => ({
+            uri: `resend://automations/${automation.id}/workflow`,
+            name: automation.name,
+            mimeType: 'application/json',
+          }),
+          'automations',
+        ),
+      complete: { id: completions.automationIds },
+    }),
+    {
+      title: 'Automation workflow',
+      description:
+        'The workflow of a Resend automation as JSON, in the same shape create-automation and update-automation accept.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const id = uriVariable(variables, 'id');
+      const response = await resend.automations.get(id);
+
+      if (response.error) {
+        throw resourceError(`Failed to read automation ${id}`, response.error);
+      }
+
+      return jsonContents(
+        uri,
+        sdkResponseToWorkflow(response.data.steps, response.data.connections),
+      );
+    },
+  );
+}
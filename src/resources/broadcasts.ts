@@ -0,0 +1,51 @@
+import {
+  type McpServer,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Resend } from 'resend';
+import type { Completions } from '../lib/completions.js';
+import {
+  jsonContents,
+  listResources,
+  resourceError,
+  uriVariable,
+} from '../lib/resources.js';
+
+export function addBroadcastResources(
+  server: McpServer,
+  resend: Resend,
+  completions: Completions,
+) {
+  server.registerResource(
+    'broadcast',
+    new ResourceTemplate('resend://broadcasts/{id}', {
+      list: () =>
+        listResources(
+          (page) => resend.broadcasts.list(page),
+          (broadcast) => ({
+            uri: `resend://broadcasts/${broadcast.id}`,
+            name: broadcast.name,
+            mimeType: 'application/json',
+          }),
+          'broadcasts',
+        ),
+      complete: { id: completions.broadcastIds },
+    }),
+    {
+      title: 'Broadcast',
+      description:
+        'A Resend broadcast as JSON: its status, segment, sender, subject, content and schedule.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const id = uriVariable(variables, 'id');
+      const response = await resend.broadcasts.get(id);
+
+      if (response.error) {
+        throw resourceError(`Failed to read broadcast ${id}`, response.error);
+      }
+
+      return jsonContents(uri, response.data);
+    },
+  );
+}
@@ -0,0 +1,51 @@
+import {
+  type McpServer,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Resend } from 'resend';
+import type { Completions } from '../lib/completions.js';
+import {
+  jsonContents,
+  listResources,
+  resourceError,
+  uriVariable,
+} from '../lib/resources.js';
+
+export function addDomainResources(
+  server: McpServer,
+  resend: Resend,
+  completions: Completions,
+) {
+  server.registerResource(
+    'domain',
+    new ResourceTemplate('resend://domains/{id}', {
+      list: () =>
+        listResources(
+          (page) => resend.domains.list(page),
+          (domain) => ({
+            uri: `resend://domains/${domain.id}`,
+            name: domain.name,
+            mimeType: 'application/json',
+          }),
+          'domains',
+        ),
+      complete: { id: completions.domainIds },
+    }),
+    {
+      title: 'Domain',
+      description:
+        'A Resend domain as JSON: its verification status, region, capabilities and DNS records.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const id = uriVariable(variables, 'id');
+      const response = await resend.domains.get(id);
+
+      if (response.error) {
+        throw resourceError(`Failed to read domain ${id}`, response.error);
+      }
+
+      return jsonContents(uri, response.data);
+    },
+  );
+}
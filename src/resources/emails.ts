@@ -0,0 +1,45 @@
+import {
+  type McpServer,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Resend } from 'resend';
+import {
+  jsonContents,
+  listResources,
+  resourceError,
+  uriVariable,
+} from '../lib/resources.js';
+
+export function addEmailResources(server: McpServer, resend: Resend) {
+  server.registerResource(
+    'email',
+    new ResourceTemplate('resend://emails/{id}', {
+      list: () =>
+        listResources(
+          (page) => resend.emails.list(page),
+          (email) => ({
+            uri: `resend://emails/${email.id}`,
+            name: email.subject || email.id,
+            mimeType: 'application/json',
+          }),
+          'emails',
+        ),
+    }),
+    {
+      title: 'Sent email',
+      description:
+        'A sent email as JSON: recipients, subject, HTML and text bodies, and its latest delivery event.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const id = uriVariable(variables, 'id');
+      const response = await resend.emails.get(id);
+
+      if (response.error) {
+        throw resourceError(`Failed to read email ${id}`, response.error);
+      }
+
+      return jsonContents(uri, response.data);
+    },
+  );
+}
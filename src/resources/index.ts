@@ -0,0 +1,8 @@
+export * from './automations.js';
+export * from './broadcasts.js';
+export * from './domains.js';
+export * from './emails.js';
+export * from './segments.js';
+export * from './templates.js';
+export * from './topics.js';
+export * from './webhooks.js';
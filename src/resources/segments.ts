@@ -0,0 +1,51 @@
+import {
+  type McpServer,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Resend } from 'resend';
+import type { Completions } from '../lib/completions.js';
+import {
+  jsonContents,
+  listResources,
+  resourceError,
+  uriVariable,
+} from '../lib/resources.js';
+
+export function addSegmentResources(
+  server: McpServer,
+  resend: Resend,
+  completions: Completions,
+) {
+  server.registerResource(
+    'segment',
+    new ResourceTemplate('resend://segments/{id}', {
+      list: () =>
+        listResources(
+          (page) => resend.segments.list(page),
+          (segment) => ({
+            uri: `resend://segments/${segment.id}`,
+            name: segment.name,
+            mimeType: 'application/json',
+          }),
+          'segments',
+        ),
+      complete: { id: completions.segmentIds },
+    }),
+    {
+      title: 'Segment',
+      description:
+        'A Resend segment as JSON: its name and when it was created.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const id = uriVariable(variables, 'id');
+      const response = await resend.segments.get(id);
+
+      if (response.error) {
+        throw resourceError(`Failed to read segment ${id}`, response.error);
+      }
+
+      return jsonContents(uri, response.data);
+    },
+  );
+}
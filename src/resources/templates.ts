@@ -0,0 +1,50 @@
+import {
+  type McpServer,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Resend } from 'resend';
+import type { Completions } from '../lib/completions.js';
+import { listResources, resourceError, uriVariable } from '../lib/resources.js';
+
+export function addTemplateResources(
+  server: McpServer,
+  resend: Resend,
+  completions: Completions,
+) {
+  server.registerResource(
+    'template',
+    new ResourceTemplate('resend://templates/{id}', {
+      list: () =>
+        listResources(
+          (page) => resend.templates.list(page),
+          (template) => ({
+            uri: `resend://templates/${template.id}`,
+            name: template.name,
+            mimeType: 'text/html',
+          }),
+          'templates',
+        ),
+      complete: { id: completions.templateIds },
+    }),
+    {
+      title: 'Template HTML',
+      description:
+        'The HTML of a Resend template, by ID or alias. Variables appear as {{{NAME}}}.',
+      mimeType: 'text/html',
+    },
+    async (uri, variables) => {
+      const id = uriVariable(variables, 'id');
+      const response = await resend.templates.get(id);
+
+      if (response.error) {
+        throw resourceError(`Failed to read template ${id}`, response.error);
+      }
+
+      return {
+        contents: [
+          { uri: uri.href, mimeType: 'text/html', text: response.data.html },
+        ],
+      };
+    },
+  );
+}
@@ -0,0 +1,51 @@
+import {
+  type McpServer,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Resend } from 'resend';
+import type { Completions } from '../lib/completions.js';
+import {
+  jsonContents,
+  listResources,
+  resourceError,
+  uriVariable,
+} from '../lib/resources.js';
+
+export function addTopicResources(
+  server: McpServer,
+  resend: Resend,
+  completions: Completions,
+) {
+  server.registerResource(
+    'topic',
+    new ResourceTemplate('resend://topics/{id}', {
+      list: () =>
+        listResources(
+          () => resend.topics.list(),
+          (topic) => ({
+            uri: `resend://topics/${topic.id}`,
+            name: topic.name,
+            mimeType: 'application/json',
+          }),
+          'topics',
+        ),
+      complete: { id: completions.topicIds },
+    }),
+    {
+      title: 'Topic',
+      description:
+        'A Resend topic as JSON: its name, description and default subscription.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const id = uriVariable(variables, 'id');
+      const response = await resend.topics.get(id);
+
+      if (response.error) {
+        throw resourceError(`Failed to read topic ${id}`, response.error);
+      }
+
+      return jsonContents(uri, response.data);
+    },
+  );
+}
@@ -0,0 +1,54 @@
+import {
+  type McpServer,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Resend } from 'resend';
+import type { Completions } from '../lib/completions.js';
+import {
+  jsonContents,
+  listResources,
+  resourceError,
+  uriVariable,
+} from '../lib/resources.js';
+
+export function addWebhookResources(
+  server: McpServer,
+  resend: Resend,
+  completions: Completions,
+) {
+  server.registerResource(
+    'webhook',
+    new ResourceTemplate('resend://webhooks/{id}', {
+      list: () =>
+        listResources(
+          (page) => resend.webhooks.list(page),
+          (webhook) => ({
+            uri: `resend://webhooks/${webhook.id}`,
+            name: webhook.endpoint,
+            mimeType: 'application/json',
+          }),
+          'webhooks',
+        ),
+      complete: { id: completions.webhookIds },
+    }),
+    {
+      title: 'Webhook',
+      description:
+        'A Resend webhook as JSON: its endpoint, status and subscribed events. The signing secret is left out; get-webhook shows it.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const id = uriVariable(variables, 'id');
+      const response = await resend.webhooks.get(id);
+
+      if (response.error) {
+        throw resourceError(`Failed to read webhook ${id}`, response.error);
+      }
+
+      // Resources can be attached as context without a tool call, so the
+      // secret stays out of them.
+      const { signing_secret: _signingSecret, ...webhook } = response.data;
+      return jsonContents(uri, webhook);
+    },
+  );
+}
@@ -1,10 +1,42 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
 import type { Resend } from 'resend';
 import packageJson from '../package.json' with { type: 'json' };
+import { type AuditLog, apiKeyId } from './lib/audit-log.js';
+import { createCompletions } from './lib/completions.js';
+import { isCancellation } from './lib/confirm.js';
 import { DashboardClient } from './lib/dashboard-client.js';
+import { toolErrorResult } from './lib/errors.js';
+import { getLogger } from './lib/logger.js';
+import { redactArguments } from './lib/redact.js';
 import { ResendEditorClient } from './lib/resend-editor-client.js';
+import { createToolFilter } from './lib/tool-filter.js';
+import { type Trace, withTrace } from './lib/tracing.js';
 import {
+  addAutomationPrompts,
+  addBroadcastPrompts,
+  addDomainPrompts,
+  addEmailPrompts,
+} from './prompts/index.js';
+import {
+  addAutomationResources,
+  addBroadcastResources,
+  addDomainResources,
+  addEmailResources,
+  addSegmentResources,
+  addTemplateResources,
+  addTopicResources,
+  addWebhookResources,
+} from './resources/index.js';
+import {
+  addAccountTools,
   addApiKeyTools,
+  addAuditTools,
   addAutomationTools,
   addBroadcastTools,
   addContactPropertyTools,
@@ -21,6 +53,97 @@ import {
 } from './tools/index.js';
 import type { ServerOptions } from './types.js';
 
+/**
+ * Log one tool call at info level: its arguments (redacted), the Resend
+ * requests it made, how long it took and whether it failed.
+ */
+function logToolCall(
+  tool: string,
+  args: unknown[],
+  trace: Trace,
+  result: CallToolResult,
+  started: number,
+): void {
+  const logger = getLogger();
+  if (!logger.isEnabled('info')) return;
+  // Tools without an inputSchema are called with `extra` only.
+  const toolArgs = args.length > 1 ? args[0] : undefined;
+  const firstText = result.content?.find((part) => part.type === 'text');
+  logger.log('info', 'tool_call', {
+    correlationId: trace.correlationId,
+    tool,
+    arguments: redactArguments(toolArgs),
+    requests: trace.requests,
+    durationMs: Math.round(performance.now() - started),
+    outcome: result.isError ? 'error' : 'ok',
+    ...(result.isError &&
+      firstText?.type === 'text' && { error: firstText.text.split('\n')[0] }),
+  });
+}
+
+/**
+ * Actions of multi-action tools that only read. Calls with them are not
+ * audited, though the tool as a whole is mutating.
+ */
+const READ_ONLY_ACTIONS: Record<string, string[]> = {
+  'manage-events': ['list', 'get'],
+};
+
+/** Whether this call to a mutating tool changes anything, judged by its action. */
+function isMutatingCall(tool: string, toolArgs: unknown): boolean {
+  const action = (toolArgs as { action?: unknown } | undefined)?.action;
+  return !(
+    typeof action === 'string' && READ_ONLY_ACTIONS[tool]?.includes(action)
+  );
+}
+
+/**
+ * Append one mutating tool call to the audit log: who made it, with what
+ * arguments (redacted), on which account, which resources it changed, and
+ * whether it was only a dry run or the user declined it.
+ */
+function auditToolCall(
+  auditLog: AuditLog,
+  server: McpServer,
+  tool: string,
+  args: unknown[],
+  trace: Trace,
+  result: CallToolResult,
+  {
+    dryRun,
+    keyId,
+    account,
+  }: { dryRun: boolean; keyId?: string; account?: string },
+): void {
+  const toolArgs = args.length > 1 ? args[0] : undefined;
+  const extra = args.at(-1) as
+    | RequestHandlerExtra<ServerRequest, ServerNotification>
+    | undefined;
+  const client = server.server.getClientVersion()?.name;
+  auditLog.append({
+    time: new Date().toISOString(),
+    tool,
+    ...(client && { client }),
+    ...(extra?.sessionId && { sessionId: extra.sessionId }),
+    ...(keyId && { apiKeyId: keyId }),
+    ...(account && { account }),
+    correlationId: trace.correlationId,
+    arguments: redactArguments(toolArgs),
+    resourceIds: [
+      ...new Set(trace.requests.flatMap(({ resourceIds = [] }) => resourceIds)),
+    ],
+    outcome: isCancellation(result)
+      ? 'cancelled'
+      : result.isError
+        ? 'error'
+        : 'ok',
+    ...((dryRun ||
+      (toolArgs as { dryRun?: unknown } | undefined)?.dryRun === true) && {
+      dryRun: true,
+    }),
+  });
+}
+
 export type { ServerOptions } from './types.js';
 
 export function createMcpServer(
@@ -34,8 +157,89 @@ export function createMcpServer(
     version: packageJson.version,
   });
 
-  const dashboard = new DashboardClient();
-  const apiClient = new ResendEditorClient(apiKey);
+  // Tools filtered out by --tools / --exclude-tools, and mutating tools in
+  // --read-only mode, are removed as soon as they are registered, so clients
+  // never see them in tools/list. In --dry-run mode, mutating tools without a
+  // dryRun argument are removed too, and the rest always run as dry runs.
+  // Prompts are only offered when every tool they walk through is kept.
+  const isToolEnabled = createToolFilter(options);
+  const auditKeyId = options.multiUser ? apiKeyId(apiKey) : undefined;
+  const registeredTools = new Set<string>();
+  const registerTool = server.registerTool.bind(server);
+  server.registerTool = ((name, config, cb) => {
+    const supportsDryRun =
+      config.inputSchema !== undefined && 'dryRun' in config.inputSchema;
+    const run = cb as (...args: unknown[]) => unknown;
+    const forceDryRun = options.dryRun === true && supportsDryRun;
+    const isMutating = config.annotations?.readOnlyHint !== true;
+    // Thrown errors become isError results too, with Resend API errors
+    // classified the same way handlers report failed SDK calls. Each call is
+    // traced and logged with the Resend requests it made. With redaction,
+    // pseudonyms in the arguments are swapped back for the real values, and
+    // the result is masked again; only pseudonyms are logged. Mutating calls
+    // are also appended to the audit log, if there is one.
+    const handler = ((...args: unknown[]) =>
+      withTrace(async (trace) => {
+        const started = performance.now();
+        // Before the call, so a switch during it doesn't change the record.
+        const account = options.accounts?.activeAccount;
+        const { redactor } = options;
+        const input =
+          redactor && args.length > 1
+            ? [redactor.restore(args[0]), ...args.slice(1)]
+            : args;
+        let result: CallToolResult;
+        try {
+          result = (await (forceDryRun
+            ? run({ ...(input[0] as object), dryRun: true }, input[1])
+            : run(...input))) as CallToolResult;
+        } catch (err) {
+          result = toolErrorResult(err);
+        }
+        if (
+          options.auditLog &&
+          isMutating &&
+          isMutatingCall(name, args.length > 1 ? args[0] : undefined)
+        ) {
+          // Before redaction, which copies the result and so loses the
+          // mark of a declined confirmation.
+          auditToolCall(options.auditLog, server, name, args, trace, result, {
+            dryRun: forceDryRun,
+            keyId: auditKeyId,
+            account,
+          });
+        }
+        if (redactor) result = redactor.redactToolResult(result);
+        logToolCall(name, args, trace, result, started);
+        return result;
+      })) as typeof cb;
+    const tool = registerTool(name, config, handler);
+    if (
+      !isToolEnabled(name) ||
+      (options.readOnly && isMutating) ||
+      (options.dryRun && isMutating && !supportsDryRun)
+    ) {
+      tool.remove();
+    } else {
+      registeredTools.add(name);
+    }
+    return tool;
+  }) as typeof server.registerTool;
+
+  const dashboard = new DashboardClient({ dashboardUrl: options.dashboardUrl });
+  const apiClient =
+    options.accounts?.editorClient ??
+    options.editorClient ??
+    new ResendEditorClient(apiKey, { apiUrl: options.apiUrl });
+  if (options.accounts) {
+    // With several accounts, every tool goes through the switcher's client,
+    // which forwards to whichever account is active at call time.
+    resend = options.accounts.resend;
+    addAccountTools(server, options.accounts);
+  }
+  if (options.auditLog) {
+    addAuditTools(server, options.auditLog, { apiKeyId: auditKeyId });
+  }
 
   const { withEditorSession } = addEditorTools(server, dashboard, apiClient);
   addApiKeyTools(server, resend);
@@ -55,5 +259,42 @@ export function createMcpServer(
   addTemplateTools(server, resend, apiClient, { withEditorSession });
   addTopicTools(server, resend);
   addWebhookTools(server, resend);
+
+  // Completions cache list calls per account, so switching accounts never
+  // completes to another account's IDs.
+  const completions = createCompletions(resend, {
+    scope: () => options.accounts?.activeAccount ?? '',
+  });
+  const isToolAvailable = (name: string) => registeredTools.has(name);
+
+  // Each resource reads what its get-* tool does, so it is only offered when
+  // that tool is kept by --tools / --exclude-tools.
+  if (isToolAvailable('get-automation')) {
+    addAutomationResources(server, resend, completions);
+  }
+  if (isToolAvailable('get-broadcast')) {
+    addBroadcastResources(server, resend, completions);
+  }
+  if (isToolAvailable('get-domain')) {
+    addDomainResources(server, resend, completions);
+  }
+  if (isToolAvailable('get-email')) addEmailResources(server, resend);
+  if (isToolAvailable('get-template')) {
+    addTemplateResources(server, resend, completions);
+  }
+  if (isToolAvailable('get-segment')) {
+    addSegmentResources(server, resend, completions);
+  }
+  if (isToolAvailable('get-topic')) {
+    addTopicResources(server, resend, completions);
+  }
+  if (isToolAvailable('get-webhook')) {
+    addWebhookResources(server, resend, completions);
+  }
+
+  addAutomationPrompts(server, isToolAvailable, completions);
+  addBroadcastPrompts(server, isToolAvailable, completions);
+  addDomainPrompts(server, isToolAvailable);
+  addEmailPrompts(server, isToolAvailable);
   return server;
 }
@@ -0,0 +1,87 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { AccountSwitcher } from '../lib/accounts.js';
+
+const accountsOutputSchema = {
+  accounts: z.array(z.object({ name: z.string(), active: z.boolean() })),
+  active: z.string().describe('Name of the account all tools currently use'),
+};
+
+export function addAccountTools(server: McpServer, accounts: AccountSwitcher) {
+  function accountsOutput() {
+    const active = accounts.activeAccount;
+    return {
+      accounts: accounts.accountNames.map((name) => ({
+        name,
+        active: name === active,
+      })),
+      active,
+    };
+  }
+
+  server.registerTool(
+    'list-accounts',
+    {
+      title: 'List Accounts',
+      description: `**Purpose:** List the Resend accounts (teams) this server is configured with and show which one is active. API keys are never shown.
+
+**When to use:** User manages several Resend teams and asks "which account am I using?", "what accounts are available?", or before switch-account.`,
+      inputSchema: {},
+      outputSchema: accountsOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async () => {
+      const output = accountsOutput();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Configured accounts:\n${output.accounts
+              .map(
+                ({ name, active }) => `- ${name}${active ? ' (active)' : ''}`,
+              )
+              .join('\n')}`,
+          },
+        ],
+        structuredContent: output,
+      };
+    },
+  );
+
+  server.registerTool(
+    'switch-account',
+    {
+      title: 'Switch Account',
+      description: `**Purpose:** Make another configured Resend account the active one. Every tool called afterwards (emails, contacts, broadcasts, etc.) uses that account's API key until switched again.
+
+**When to use:** User says "switch to production", "use the staging team", or asks about data that lives in a different account. Use list-accounts to see the available names.`,
+      inputSchema: {
+        name: z
+          .string()
+          .nonempty()
+          .describe('Account name, as shown by list-accounts'),
+      },
+      outputSchema: accountsOutputSchema,
+      // Only changes which key this server uses, never data in Resend, so it
+      // stays available in --read-only and --dry-run mode.
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ name }) => {
+      accounts.switchTo(name);
+      return {
+        content: [{ type: 'text', text: `Switched to account "${name}".` }],
+        structuredContent: accountsOutput(),
+      };
+    },
+  );
+}
@@ -1,6 +1,10 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { Resend } from 'resend';
 import { z } from 'zod';
+import { confirmInputShape, requireConfirmation } from '../lib/confirm.js';
+import { dryRunInputShape, dryRunResult } from '../lib/dry-run.js';
+import { resendErrorResult } from '../lib/errors.js';
+import { listPages, paginationInputShape } from '../lib/pagination.js';
 
 export function addApiKeyTools(server: McpServer, resend: Resend) {
   server.registerTool(
@@ -27,9 +31,23 @@ export function addApiKeyTools(server: McpServer, resend: Resend) {
           .describe(
             'Restrict API key to send emails from a specific domain. Only applicable when permission is "sending_access".',
           ),
+        ...confirmInputShape,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
       },
     },
-    async ({ name, permission, domainId }) => {
+    async ({ name, permission, domainId, confirm }) => {
+      const cancelled = await requireConfirmation(server, {
+        confirm,
+        summary: () =>
+          `Create API key "${name}" with ${permission ?? 'full_access'} permission${domainId ? ` restricted to domain ${domainId}` : ''}. Whoever holds the token can use this Resend account.`,
+      });
+      if (cancelled) return cancelled;
+
       const response = await resend.apiKeys.create({
         name,
         ...(permission && { permission }),
@@ -37,9 +55,7 @@ export function addApiKeyTools(server: McpServer, resend: Resend) {
       });
 
       if (response.error) {
-        throw new Error(
-          `Failed to create API key: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to create API key', response.error);
       }
 
       const created = response.data;
@@ -84,9 +100,16 @@ export function addApiKeyTools(server: McpServer, resend: Resend) {
           .describe(
             'API key ID before which to retrieve more (for backward pagination). Cannot be used with "after".',
           ),
+        ...paginationInputShape,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ limit, after, before }) => {
+    async ({ limit, after, before, all, maxItems }, extra) => {
       if (after && before) {
         throw new Error(
           'Cannot use both "after" and "before" parameters. Use only one for pagination.',
@@ -101,12 +124,15 @@ export function addApiKeyTools(server: McpServer, resend: Resend) {
             ? { limit }
             : undefined;
 
-      const response = await resend.apiKeys.list(paginationOptions);
+      const response = await listPages(
+        (page) => resend.apiKeys.list(page ?? paginationOptions),
+        { all, maxItems, after, before },
+        extra,
+        'API keys',
+      );
 
       if (response.error) {
-        throw new Error(
-          `Failed to list API keys: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to list API keys', response.error);
       }
 
       const apiKeys = response.data?.data ?? [];
@@ -149,15 +175,30 @@ export function addApiKeyTools(server: McpServer, resend: Resend) {
         'Remove an API key by ID from Resend. Before using this tool, you MUST double-check with the user that they want to remove this API key. Reference the NAME of the API key when double-checking, and warn the user that removing an API key is irreversible and any services using it will lose access. You may only use this tool if the user explicitly confirms they want to remove the API key after you double-check.',
       inputSchema: {
         id: z.string().nonempty().describe('API key ID'),
+        ...dryRunInputShape,
+        ...confirmInputShape,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ id }) => {
+    async ({ id, dryRun, confirm }) => {
+      if (dryRun) return dryRunResult('apiKeys.remove', id);
+
+      const cancelled = await requireConfirmation(server, {
+        confirm,
+        summary: () =>
+          `Remove API key ${id}. Anything still using this key will stop working immediately.`,
+      });
+      if (cancelled) return cancelled;
+
       const response = await resend.apiKeys.remove(id);
 
       if (response.error) {
-        throw new Error(
-          `Failed to remove API key: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to remove API key', response.error);
       }
 
       return {
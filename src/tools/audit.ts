@@ -0,0 +1,135 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { AuditEntry, AuditLog } from '../lib/audit-log.js';
+
+const DEFAULT_LIMIT = 50;
+
+const auditEntrySchema = z.object({
+  time: z.string(),
+  tool: z.string(),
+  client: z.string().optional(),
+  account: z.string().optional(),
+  correlationId: z.string(),
+  arguments: z.unknown(),
+  resourceIds: z.array(z.string()),
+  outcome: z.enum(['ok', 'error', 'cancelled']),
+  dryRun: z.literal(true).optional(),
+});
+
+/** What list-audit-entries shows of an entry: no session or key IDs. */
+type ListedEntry = Omit<AuditEntry, 'sessionId' | 'apiKeyId'>;
+
+function toListedEntry({
+  sessionId: _sessionId,
+  apiKeyId: _apiKeyId,
+  ...entry
+}: AuditEntry): ListedEntry {
+  return entry;
+}
+
+function formatEntry(entry: ListedEntry): string {
+  return [
+    `${entry.time} ${entry.tool} (${entry.outcome}${entry.dryRun ? ', dry run' : ''})`,
+    entry.client && `Client: ${entry.client}`,
+    entry.account && `Account: ${entry.account}`,
+    entry.resourceIds.length > 0 &&
+      `Resources: ${entry.resourceIds.join(', ')}`,
+    `Arguments: ${JSON.stringify(entry.arguments)}`,
+    `Correlation ID: ${entry.correlationId}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Register list-audit-entries. With `apiKeyId`, as on a server shared by
+ * several users, only the entries made with that API key are listed.
+ */
+export function addAuditTools(
+  server: McpServer,
+  auditLog: AuditLog,
+  { apiKeyId }: { apiKeyId?: string } = {},
+) {
+  server.registerTool(
+    'list-audit-entries',
+    {
+      title: 'List Audit Entries',
+      description: `**Purpose:** Search the local audit log of mutating tool calls (sends, creates, updates, removals) made through this server, by any client or session. On a server shared by several users (HTTP mode), only calls made with the caller's own API key are listed.
+
+**Returns:** Newest first, for each call: time, tool, outcome (ok, error, or cancelled when the user declined), whether it was a dry run, client name, account (when several are configured), the Resend resource IDs it created or changed, its arguments (secrets redacted) and its correlation ID, which also appears in the request's User-Agent in list-logs.
+
+**When to use:**
+- User asks "who sent this?", "what changed this contact?", "what did the agent do yesterday?"
+- Tracing an email, broadcast or contact ID back to the call that created or changed it`,
+      inputSchema: {
+        tool: z
+          .string()
+          .optional()
+          .describe('Only calls to this tool, e.g. "send-email"'),
+        since: z.iso
+          .datetime({ offset: true })
+          .optional()
+          .describe('Only calls at or after this ISO 8601 time'),
+        until: z.iso
+          .datetime({ offset: true })
+          .optional()
+          .describe('Only calls at or before this ISO 8601 time'),
+        resourceId: z
+          .string()
+          .optional()
+          .describe(
+            'Only calls that created or changed this resource, e.g. an email or contact ID',
+          ),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(500)
+          .optional()
+          .describe(
+            `Most entries to return. Default: ${DEFAULT_LIMIT}, Max: 500`,
+          ),
+      },
+      outputSchema: { entries: z.array(auditEntrySchema) },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ tool, since, until, resourceId, limit = DEFAULT_LIMIT }) => {
+      const entries = auditLog
+        .query({
+          tool,
+          since: since ? new Date(since) : undefined,
+          until: until ? new Date(until) : undefined,
+          resourceId,
+          apiKeyId,
+          limit,
+        })
+        .map(toListedEntry);
+
+      if (entries.length === 0) {
+        return {
+          content: [{ type: 'text', text: 'No audit entries found.' }],
+          structuredContent: { entries },
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Found ${entries.length} audit entr${entries.length === 1 ? 'y' : 'ies'}:`,
+          },
+          ...entries.map((entry) => ({
+            type: 'text' as const,
+            text: formatEntry(entry),
+          })),
+        ],
+        structuredContent: { entries },
+      };
+    },
+  );
+}
@@ -1,6 +1,19 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { Resend } from 'resend';
 import { z } from 'zod';
+import {
+  confirmInputShape,
+  describeResource,
+  lookupForSummary,
+  requireConfirmation,
+} from '../lib/confirm.js';
+import { dryRunInputShape, dryRunResult } from '../lib/dry-run.js';
+import { resendErrorResult } from '../lib/errors.js';
+import { listPages, paginationInputShape } from '../lib/pagination.js';
+import {
+  paginationOutput,
+  paginationOutputShape,
+} from '../lib/structured-output.js';
 import { extractIdFromUrl } from '../lib/url-parser.js';
 import {
   sdkResponseToWorkflow,
@@ -8,6 +21,36 @@ import {
   workflowToSdkOptions,
 } from '../lib/workflow-converter.js';
 
+const automationSummarySchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  status: z.string().describe('e.g. enabled or disabled'),
+  created_at: z.string(),
+  updated_at: z.string().nullable(),
+});
+
+const automationRunSummarySchema = z.looseObject({
+  id: z.string(),
+  status: z.string().describe('e.g. running, completed, failed or cancelled'),
+  started_at: z.string().nullable(),
+  completed_at: z.string().nullable(),
+  created_at: z.string(),
+});
+
+const automationRunSchema = automationRunSummarySchema.extend({
+  steps: z.array(
+    z.looseObject({
+      key: z.string(),
+      type: z.string(),
+      status: z.string(),
+      output: z.record(z.string(), z.unknown()).nullable(),
+      error: z.record(z.string(), z.unknown()).nullable(),
+      started_at: z.string().nullable(),
+      completed_at: z.string().nullable(),
+    }),
+  ),
+});
+
 const WORKFLOW_GUIDANCE = `The workflow is a JSON object with one key: "steps" — an array of step objects.
 
 Each step has: key (unique string), type, config, and either "next" (string|null) or "branches" (for branching steps).
@@ -156,24 +199,32 @@ ${WORKFLOW_GUIDANCE}`,
             'Initial status. Default: disabled. Use "enabled" to activate immediately.',
           ),
         workflow: workflowSchema,
+        ...dryRunInputShape,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
       },
     },
-    async ({ name, status, workflow }) => {
+    async ({ name, status, workflow, dryRun }) => {
       const { steps, connections } = workflowToSdkOptions(
         workflow as WorkflowDefinition,
       );
-
-      const response = await resend.automations.create({
+      const createOptions = {
         name,
         ...(status ? { status } : {}),
         steps,
         connections,
-      });
+      };
+
+      if (dryRun) return dryRunResult('automations.create', createOptions);
+
+      const response = await resend.automations.create(createOptions);
 
       if (response.error) {
-        throw new Error(
-          `Failed to create automation: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to create automation', response.error);
       }
 
       const id = response.data.id;
@@ -230,9 +281,16 @@ ${WORKFLOW_GUIDANCE}`,
           .describe(
             'New workflow definition. Replaces the existing workflow entirely.',
           ),
+        ...dryRunInputShape,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ id: rawId, name, status, workflow }) => {
+    async ({ id: rawId, name, status, workflow, dryRun }) => {
       const id = extractIdFromUrl(rawId, 'automations');
       const updateOptions: {
         name?: string;
@@ -252,12 +310,14 @@ ${WORKFLOW_GUIDANCE}`,
         updateOptions.connections = connections;
       }
 
+      if (dryRun) {
+        return dryRunResult('automations.update', id, updateOptions);
+      }
+
       const response = await resend.automations.update(id, updateOptions);
 
       if (response.error) {
-        throw new Error(
-          `Failed to update automation: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to update automation', response.error);
       }
 
       const resultParts: Array<{ type: 'text'; text: string }> = [
@@ -315,18 +375,38 @@ ${WORKFLOW_GUIDANCE}`,
           .string()
           .optional()
           .describe('Cursor for backward pagination (for list mode).'),
+        ...paginationInputShape,
+      },
+      outputSchema: {
+        automation: automationSummarySchema
+          .extend({ workflow: z.record(z.string(), z.unknown()) })
+          .optional()
+          .describe('Set when an id was given'),
+        automations: z
+          .array(automationSummarySchema)
+          .optional()
+          .describe('Set when listing automations'),
+        has_more: paginationOutputShape.has_more.optional(),
+        next_cursor: paginationOutputShape.next_cursor.optional(),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ id: rawId, status, limit, after, before }) => {
+    async (
+      { id: rawId, status, limit, after, before, all, maxItems },
+      extra,
+    ) => {
       const id = rawId ? extractIdFromUrl(rawId, 'automations') : undefined;
       // Get single automation
       if (id) {
         const response = await resend.automations.get(id);
 
         if (response.error) {
-          throw new Error(
-            `Failed to get automation: ${JSON.stringify(response.error)}`,
-          );
+          return resendErrorResult('Failed to get automation', response.error);
         }
 
         const automation = response.data;
@@ -350,6 +430,16 @@ ${WORKFLOW_GUIDANCE}`,
               text: `Preview: https://resend.com/automations/${automation.id}`,
             },
           ],
+          structuredContent: {
+            automation: {
+              id: automation.id,
+              name: automation.name,
+              status: automation.status,
+              created_at: automation.created_at,
+              updated_at: automation.updated_at,
+              workflow,
+            },
+          },
         };
       }
 
@@ -369,12 +459,15 @@ ${WORKFLOW_GUIDANCE}`,
               ...(status ? { status } : {}),
             };
 
-      const response = await resend.automations.list(paginationOptions);
+      const response = await listPages(
+        (page) => resend.automations.list(page ?? paginationOptions),
+        { all, maxItems, after, before },
+        extra,
+        'automations',
+      );
 
       if (response.error) {
-        throw new Error(
-          `Failed to list automations: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to list automations', response.error);
       }
 
       const automations = response.data?.data ?? [];
@@ -383,6 +476,10 @@ ${WORKFLOW_GUIDANCE}`,
       if (automations.length === 0) {
         return {
           content: [{ type: 'text', text: 'No automations found.' }],
+          structuredContent: {
+            automations,
+            ...paginationOutput(automations, hasMore),
+          },
         };
       }
 
@@ -405,6 +502,10 @@ ${WORKFLOW_GUIDANCE}`,
               ]
             : []),
         ],
+        structuredContent: {
+          automations,
+          ...paginationOutput(automations, hasMore),
+        },
       };
     },
   );
@@ -422,16 +523,35 @@ ${WORKFLOW_GUIDANCE}`,
           .describe(
             'Automation ID or Resend dashboard URL (e.g. https://resend.com/automations/<id>)',
           ),
+        ...dryRunInputShape,
+        ...confirmInputShape,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ id: rawId }) => {
+    async ({ id: rawId, dryRun, confirm }) => {
       const id = extractIdFromUrl(rawId, 'automations');
+      if (dryRun) return dryRunResult('automations.remove', id);
+
+      const cancelled = await requireConfirmation(server, {
+        confirm,
+        summary: async () => {
+          const automation = await lookupForSummary(() =>
+            resend.automations.get(id),
+          );
+          return `Remove automation ${describeResource(id, automation?.name)}. This cannot be undone.`;
+        },
+      });
+      if (cancelled) return cancelled;
+
       const response = await resend.automations.remove(id);
 
       if (response.error) {
-        throw new Error(
-          `Failed to remove automation: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to remove automation', response.error);
       }
 
       return {
@@ -491,16 +611,39 @@ ${WORKFLOW_GUIDANCE}`,
           .string()
           .optional()
           .describe('Cursor for backward pagination (for list mode).'),
+        ...paginationInputShape,
+      },
+      outputSchema: {
+        run: automationRunSchema
+          .optional()
+          .describe('Set when a runId was given'),
+        runs: z
+          .array(automationRunSummarySchema)
+          .optional()
+          .describe('Set when listing runs'),
+        has_more: paginationOutputShape.has_more.optional(),
+        next_cursor: paginationOutputShape.next_cursor.optional(),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({
-      automationId: rawAutomationId,
-      runId,
-      status,
-      limit,
-      after,
-      before,
-    }) => {
+    async (
+      {
+        automationId: rawAutomationId,
+        runId,
+        status,
+        limit,
+        after,
+        before,
+        all,
+        maxItems,
+      },
+      extra,
+    ) => {
       const automationId = extractIdFromUrl(rawAutomationId, 'automations');
       // Get specific run
       if (runId) {
@@ -510,8 +653,9 @@ ${WORKFLOW_GUIDANCE}`,
         });
 
         if (response.error) {
-          throw new Error(
-            `Failed to get automation run: ${JSON.stringify(response.error)}`,
+          return resendErrorResult(
+            'Failed to get automation run',
+            response.error,
           );
         }
 
@@ -534,6 +678,7 @@ ${WORKFLOW_GUIDANCE}`,
               text: `Steps:\n${stepsSummary}`,
             },
           ],
+          structuredContent: { run },
         };
       }
 
@@ -554,11 +699,22 @@ ${WORKFLOW_GUIDANCE}`,
               ...(status ? { status } : {}),
             };
 
-      const response = await resend.automations.runs.list(runOptions);
+      const response = await listPages(
+        (page) =>
+          resend.automations.runs.list(
+            page
+              ? { automationId, ...(status ? { status } : {}), ...page }
+              : runOptions,
+          ),
+        { all, maxItems, after, before },
+        extra,
+        'runs',
+      );
 
       if (response.error) {
-        throw new Error(
-          `Failed to list automation runs: ${JSON.stringify(response.error)}`,
+        return resendErrorResult(
+          'Failed to list automation runs',
+          response.error,
         );
       }
 
@@ -573,6 +729,7 @@ ${WORKFLOW_GUIDANCE}`,
               text: 'No runs found for this automation.',
             },
           ],
+          structuredContent: { runs, ...paginationOutput(runs, hasMore) },
         };
       }
 
@@ -599,6 +756,7 @@ ${WORKFLOW_GUIDANCE}`,
             text: 'Use get-automation-runs with a runId to see step-by-step details for a specific run.',
           },
         ],
+        structuredContent: { runs, ...paginationOutput(runs, hasMore) },
       };
     },
   );
@@ -1,10 +1,43 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { Resend } from 'resend';
 import { z } from 'zod';
+import {
+  confirmInputShape,
+  describeResource,
+  lookupForSummary,
+  requireConfirmation,
+} from '../lib/confirm.js';
+import { dryRunInputShape, dryRunResult } from '../lib/dry-run.js';
 import { EMAIL_HTML_RULES } from '../lib/email-html-rules.js';
+import { describeResendError, resendErrorResult } from '../lib/errors.js';
+import { listPages, paginationInputShape } from '../lib/pagination.js';
 import type { ResendEditorClient } from '../lib/resend-editor-client.js';
+import {
+  paginationOutput,
+  paginationOutputShape,
+} from '../lib/structured-output.js';
 import { extractIdFromUrl } from '../lib/url-parser.js';
 
+const broadcastSummarySchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  segment_id: z.string().nullable(),
+  audience_id: z.string().nullable(),
+  status: z.string().describe('e.g. draft, queued or sent'),
+  created_at: z.string(),
+  scheduled_at: z.string().nullable(),
+  sent_at: z.string().nullable(),
+});
+
+const broadcastSchema = broadcastSummarySchema.extend({
+  from: z.string().nullable(),
+  subject: z.string().nullable(),
+  reply_to: z.array(z.string()).nullable(),
+  preview_text: z.string().nullable(),
+  html: z.string().nullable(),
+  text: z.string().nullable(),
+});
+
 export function addBroadcastTools(
   server: McpServer,
   resend: Resend,
@@ -88,6 +121,12 @@ export function addBroadcastTools(
             }
           : {}),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
     },
     async ({
       name,
@@ -128,9 +167,7 @@ export function addBroadcastTools(
       });
 
       if (response.error) {
-        throw new Error(
-          `Failed to create broadcast: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to create broadcast', response.error);
       }
 
       const resultContent: Array<{ type: 'text'; text: string }> = [
@@ -188,18 +225,50 @@ export function addBroadcastTools(
           .describe(
             'When to send the broadcast. Value may be in ISO 8601 format (e.g., 2024-08-05T11:52:01.858Z) or in natural language (e.g., "tomorrow at 10am", "in 2 hours", "next day at 9am PST", "Friday at 3pm ET"). If not provided, the broadcast will be sent immediately.',
           ),
+        ...dryRunInputShape,
+        ...confirmInputShape,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
       },
     },
-    async ({ broadcastId: rawBroadcastId, scheduledAt }) => {
+    async ({ broadcastId: rawBroadcastId, scheduledAt, dryRun, confirm }) => {
       const broadcastId = extractIdFromUrl(rawBroadcastId, 'broadcasts');
+      if (dryRun) {
+        return dryRunResult('broadcasts.send', broadcastId, { scheduledAt });
+      }
+
+      const cancelled = await requireConfirmation(server, {
+        confirm,
+        summary: async () => {
+          const broadcast = await lookupForSummary(() =>
+            resend.broadcasts.get(broadcastId),
+          );
+          const segmentId = broadcast?.segment_id;
+          const segment = segmentId
+            ? await lookupForSummary(() => resend.segments.get(segmentId))
+            : undefined;
+          const audience = segmentId
+            ? ` to every contact in segment ${describeResource(segmentId, segment?.name)}`
+            : '';
+          const subject = broadcast?.subject
+            ? ` with subject "${broadcast.subject}"`
+            : '';
+          const when = scheduledAt ? ` at ${scheduledAt}` : ' now';
+          return `Send broadcast ${describeResource(broadcastId, broadcast?.name)}${subject}${audience}${when}. Sent emails cannot be recalled.`;
+        },
+      });
+      if (cancelled) return cancelled;
+
       const response = await resend.broadcasts.send(broadcastId, {
         scheduledAt,
       });
 
       if (response.error) {
-        throw new Error(
-          `Failed to send broadcast: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to send broadcast', response.error);
       }
 
       return {
@@ -221,19 +290,69 @@ export function addBroadcastTools(
 
 **Returns:** For each broadcast: id, name, segment_id, status, created_at, scheduled_at, sent_at.
 
-**When to use:** User asks "show my broadcasts", "what newsletters did I send?", "list campaigns". Use get-broadcast for full details of one.`,
-      inputSchema: {},
+**When to use:** User asks "show my broadcasts", "what newsletters did I send?", "list campaigns". Use get-broadcast for full details of one. Use pagination (limit, after/before), or all/maxItems to fetch several pages at once.`,
+      inputSchema: {
+        limit: z
+          .number()
+          .min(1)
+          .max(100)
+          .optional()
+          .describe(
+            'Number of broadcasts to retrieve. Default: 20, Max: 100, Min: 1',
+          ),
+        after: z
+          .string()
+          .optional()
+          .describe(
+            'Broadcast ID after which to retrieve more (for forward pagination). Cannot be used with "before".',
+          ),
+        before: z
+          .string()
+          .optional()
+          .describe(
+            'Broadcast ID before which to retrieve more (for backward pagination). Cannot be used with "after".',
+          ),
+        ...paginationInputShape,
+      },
+      outputSchema: {
+        broadcasts: z.array(broadcastSummarySchema),
+        ...paginationOutputShape,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
-    async () => {
-      const response = await resend.broadcasts.list();
-
-      if (response.error) {
+    async ({ limit, after, before, all, maxItems }, extra) => {
+      if (after && before) {
         throw new Error(
-          `Failed to list broadcasts: ${JSON.stringify(response.error)}`,
+          'Cannot use both "after" and "before" parameters. Use only one for pagination.',
         );
       }
 
+      const paginationOptions = after
+        ? { limit, after }
+        : before
+          ? { limit, before }
+          : limit !== undefined
+            ? { limit }
+            : undefined;
+
+      const response = await listPages(
+        (page) => resend.broadcasts.list(page ?? paginationOptions),
+        { all, maxItems, after, before },
+        extra,
+        'broadcasts',
+      );
+
+      if (response.error) {
+        return resendErrorResult('Failed to list broadcasts', response.error);
+      }
+
       const broadcasts = response.data.data;
+      const hasMore = response.data.has_more;
       return {
         content: [
           {
@@ -264,7 +383,19 @@ export function addBroadcastTools(
                 .join('\n'),
             }),
           ),
+          ...(hasMore
+            ? [
+                {
+                  type: 'text' as const,
+                  text: 'There are more broadcasts available. Use the "after" parameter with the last ID to retrieve more.',
+                },
+              ]
+            : []),
         ],
+        structuredContent: {
+          broadcasts,
+          ...paginationOutput(broadcasts, hasMore),
+        },
       };
     },
   );
@@ -283,17 +414,23 @@ export function addBroadcastTools(
             'Broadcast ID or Resend dashboard URL (e.g. https://resend.com/broadcasts/<id>)',
           ),
       },
+      outputSchema: broadcastSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ broadcastId: rawBroadcastId }) => {
       const broadcastId = extractIdFromUrl(rawBroadcastId, 'broadcasts');
       const response = await resend.broadcasts.get(broadcastId);
 
       if (response.error) {
-        throw new Error(
-          `Failed to get broadcast: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to get broadcast', response.error);
       }
 
+      const broadcast = response.data;
       const {
         id: responseId,
         name,
@@ -308,7 +445,7 @@ export function addBroadcastTools(
         sent_at,
         html,
         text,
-      } = response.data;
+      } = broadcast;
 
       let details = [
         `ID: ${responseId}`,
@@ -338,6 +475,7 @@ export function addBroadcastTools(
             text: details,
           },
         ],
+        structuredContent: { ...broadcast },
       };
     },
   );
@@ -355,16 +493,35 @@ export function addBroadcastTools(
           .describe(
             'Broadcast ID or Resend dashboard URL (e.g. https://resend.com/broadcasts/<id>)',
           ),
+        ...dryRunInputShape,
+        ...confirmInputShape,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ broadcastId: rawBroadcastId }) => {
+    async ({ broadcastId: rawBroadcastId, dryRun, confirm }) => {
       const broadcastId = extractIdFromUrl(rawBroadcastId, 'broadcasts');
+      if (dryRun) return dryRunResult('broadcasts.remove', broadcastId);
+
+      const cancelled = await requireConfirmation(server, {
+        confirm,
+        summary: async () => {
+          const broadcast = await lookupForSummary(() =>
+            resend.broadcasts.get(broadcastId),
+          );
+          return `Remove broadcast ${describeResource(broadcastId, broadcast?.name)}. This cannot be undone.`;
+        },
+      });
+      if (cancelled) return cancelled;
+
       const response = await resend.broadcasts.remove(broadcastId);
 
       if (response.error) {
-        throw new Error(
-          `Failed to remove broadcast: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to remove broadcast', response.error);
       }
 
       return {
@@ -433,6 +590,12 @@ export function addBroadcastTools(
           .optional()
           .describe('Update the broadcast name (internal label).'),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({
       broadcastId: rawBroadcastId,
@@ -506,7 +669,10 @@ export function addBroadcastTools(
                 { type: 'text', text: `ID: ${broadcastId}` },
                 {
                   type: 'text',
-                  text: `Error: ${JSON.stringify(updateResponse.error)}`,
+                  text: describeResendError(
+                    'Failed to update metadata',
+                    updateResponse.error,
+                  ),
                 },
                 {
                   type: 'text',
@@ -617,6 +783,12 @@ export function addBroadcastTools(
           .optional()
           .describe('Preview text for the email'),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({
       broadcastId: rawBroadcastId,
@@ -636,9 +808,7 @@ export function addBroadcastTools(
       // fail unless we warn the user upfront.
       const current = await resend.broadcasts.get(broadcastId);
       if (current.error) {
-        throw new Error(
-          `Failed to fetch broadcast: ${JSON.stringify(current.error)}`,
-        );
+        return resendErrorResult('Failed to fetch broadcast', current.error);
       }
 
       const missingFields: string[] = [];
@@ -682,9 +852,7 @@ export function addBroadcastTools(
       });
 
       if (response.error) {
-        throw new Error(
-          `Failed to update broadcast: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to update broadcast', response.error);
       }
 
       return {
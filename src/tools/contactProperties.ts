@@ -1,6 +1,15 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { Resend } from 'resend';
 import { z } from 'zod';
+import {
+  confirmInputShape,
+  describeResource,
+  lookupForSummary,
+  requireConfirmation,
+} from '../lib/confirm.js';
+import { dryRunInputShape, dryRunResult } from '../lib/dry-run.js';
+import { resendErrorResult } from '../lib/errors.js';
+import { listPages, paginationInputShape } from '../lib/pagination.js';
 
 export function addContactPropertyTools(server: McpServer, resend: Resend) {
   server.registerTool(
@@ -26,6 +35,12 @@ export function addContactPropertyTools(server: McpServer, resend: Resend) {
             'Default value when the property is not set for a contact. Must match the specified type.',
           ),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
     },
     async ({ key, type, fallbackValue }) => {
       const response = await resend.contactProperties.create({
@@ -35,8 +50,9 @@ export function addContactPropertyTools(server: McpServer, resend: Resend) {
       } as Parameters<typeof resend.contactProperties.create>[0]);
 
       if (response.error) {
-        throw new Error(
-          `Failed to create contact property: ${JSON.stringify(response.error)}`,
+        return resendErrorResult(
+          'Failed to create contact property',
+          response.error,
         );
       }
 
@@ -80,9 +96,16 @@ export function addContactPropertyTools(server: McpServer, resend: Resend) {
           .describe(
             'Contact property ID before which to retrieve more (for backward pagination). Cannot be used with "after".',
           ),
+        ...paginationInputShape,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ limit, after, before }) => {
+    async ({ limit, after, before, all, maxItems }, extra) => {
       if (after && before) {
         throw new Error(
           'Cannot use both "after" and "before" parameters. Use only one for pagination.',
@@ -97,11 +120,17 @@ export function addContactPropertyTools(server: McpServer, resend: Resend) {
             ? { limit }
             : undefined;
 
-      const response = await resend.contactProperties.list(paginationOptions);
+      const response = await listPages(
+        (page) => resend.contactProperties.list(page ?? paginationOptions),
+        { all, maxItems, after, before },
+        extra,
+        'contact properties',
+      );
 
       if (response.error) {
-        throw new Error(
-          `Failed to list contact properties: ${JSON.stringify(response.error)}`,
+        return resendErrorResult(
+          'Failed to list contact properties',
+          response.error,
         );
       }
 
@@ -148,13 +177,20 @@ export function addContactPropertyTools(server: McpServer, resend: Resend) {
           .nonempty()
           .describe('Contact property ID'),
       },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ contactPropertyId }) => {
       const response = await resend.contactProperties.get(contactPropertyId);
 
       if (response.error) {
-        throw new Error(
-          `Failed to get contact property: ${JSON.stringify(response.error)}`,
+        return resendErrorResult(
+          'Failed to get contact property',
+          response.error,
         );
       }
 
@@ -187,6 +223,12 @@ export function addContactPropertyTools(server: McpServer, resend: Resend) {
             'New default value for the property. Pass null to remove the fallback value. Must match the property type.',
           ),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ contactPropertyId, fallbackValue }) => {
       const response = await resend.contactProperties.update({
@@ -195,8 +237,9 @@ export function addContactPropertyTools(server: McpServer, resend: Resend) {
       });
 
       if (response.error) {
-        throw new Error(
-          `Failed to update contact property: ${JSON.stringify(response.error)}`,
+        return resendErrorResult(
+          'Failed to update contact property',
+          response.error,
         );
       }
 
@@ -220,14 +263,37 @@ export function addContactPropertyTools(server: McpServer, resend: Resend) {
           .string()
           .nonempty()
           .describe('Contact property ID'),
+        ...dryRunInputShape,
+        ...confirmInputShape,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ contactPropertyId }) => {
+    async ({ contactPropertyId, dryRun, confirm }) => {
+      if (dryRun)
+        return dryRunResult('contactProperties.remove', contactPropertyId);
+
+      const cancelled = await requireConfirmation(server, {
+        confirm,
+        summary: async () => {
+          const property = await lookupForSummary(() =>
+            resend.contactProperties.get(contactPropertyId),
+          );
+          return `Remove contact property ${describeResource(contactPropertyId, property?.key)} and its value on every contact. This cannot be undone.`;
+        },
+      });
+      if (cancelled) return cancelled;
+
       const response = await resend.contactProperties.remove(contactPropertyId);
 
       if (response.error) {
-        throw new Error(
-          `Failed to remove contact property: ${JSON.stringify(response.error)}`,
+        return resendErrorResult(
+          'Failed to remove contact property',
+          response.error,
         );
       }
 
@@ -1,11 +1,42 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import type {
-  GetContactResponse,
-  RemoveContactsResponse,
-  Resend,
-  UpdateContactResponse,
-} from 'resend';
+import type { GetContactResponse, Resend, UpdateContactResponse } from 'resend';
 import { z } from 'zod';
+import {
+  confirmInputShape,
+  describeResource,
+  lookupForSummary,
+  requireConfirmation,
+} from '../lib/confirm.js';
+import { dryRunInputShape, dryRunResult } from '../lib/dry-run.js';
+import { resendErrorResult } from '../lib/errors.js';
+import { listPages, paginationInputShape } from '../lib/pagination.js';
+import {
+  paginationOutput,
+  paginationOutputShape,
+} from '../lib/structured-output.js';
+
+const contactSchema = z.looseObject({
+  id: z.string(),
+  email: z.string(),
+  first_name: z.string().nullable(),
+  last_name: z.string().nullable(),
+  unsubscribed: z.boolean(),
+  created_at: z.string(),
+  properties: z.record(z.string(), z.unknown()).optional(),
+});
+
+const contactSegmentSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  created_at: z.string(),
+});
+
+const contactTopicSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  subscription: z.string().describe('e.g. opt_in or opt_out'),
+});
 
 export function addContactTools(server: McpServer, resend: Resend) {
   server.registerTool(
@@ -44,6 +75,12 @@ export function addContactTools(server: McpServer, resend: Resend) {
           .optional()
           .describe('Array of topic subscription configurations'),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
     },
     async ({
       email,
@@ -65,9 +102,7 @@ export function addContactTools(server: McpServer, resend: Resend) {
       });
 
       if (response.error) {
-        throw new Error(
-          `Failed to create contact: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to create contact', response.error);
       }
 
       const created = response.data;
@@ -118,9 +153,20 @@ export function addContactTools(server: McpServer, resend: Resend) {
           .describe(
             'Contact ID before which to retrieve more (for backward pagination). Cannot be used with "after".',
           ),
+        ...paginationInputShape,
+      },
+      outputSchema: {
+        contacts: z.array(contactSchema),
+        ...paginationOutputShape,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ segmentId, limit, after, before }) => {
+    async ({ segmentId, limit, after, before, all, maxItems }, extra) => {
       if (after && before) {
         throw new Error(
           'Cannot use both "after" and "before" parameters. Use only one for pagination.',
@@ -133,14 +179,22 @@ export function addContactTools(server: McpServer, resend: Resend) {
       if (after) options.after = after;
       if (before) options.before = before;
 
-      const response = await resend.contacts.list(
-        Object.keys(options).length > 0 ? options : undefined,
+      const response = await listPages(
+        (page) =>
+          resend.contacts.list(
+            page
+              ? { ...(segmentId && { segmentId }), ...page }
+              : Object.keys(options).length > 0
+                ? options
+                : undefined,
+          ),
+        { all, maxItems, after, before },
+        extra,
+        'contacts',
       );
 
       if (response.error) {
-        throw new Error(
-          `Failed to list contacts: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to list contacts', response.error);
       }
 
       const contacts = response.data?.data ?? [];
@@ -149,6 +203,10 @@ export function addContactTools(server: McpServer, resend: Resend) {
       if (contacts.length === 0) {
         return {
           content: [{ type: 'text', text: 'No contacts found.' }],
+          structuredContent: {
+            contacts,
+            ...paginationOutput(contacts, hasMore),
+          },
         };
       }
 
@@ -190,6 +248,7 @@ export function addContactTools(server: McpServer, resend: Resend) {
               ]
             : []),
         ],
+        structuredContent: { contacts, ...paginationOutput(contacts, hasMore) },
       };
     },
   );
@@ -203,6 +262,13 @@ export function addContactTools(server: McpServer, resend: Resend) {
         id: z.string().optional().describe('Contact ID'),
         email: z.email().optional().describe('Contact email address'),
       },
+      outputSchema: contactSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ id, email }) => {
       let response: GetContactResponse;
@@ -217,9 +283,7 @@ export function addContactTools(server: McpServer, resend: Resend) {
       }
 
       if (response.error) {
-        throw new Error(
-          `Failed to get contact: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to get contact', response.error);
       }
 
       const contact = response.data;
@@ -245,6 +309,7 @@ export function addContactTools(server: McpServer, resend: Resend) {
               .join('\n'),
           },
         ],
+        structuredContent: { ...contact },
       };
     },
   );
@@ -282,6 +347,12 @@ export function addContactTools(server: McpServer, resend: Resend) {
             'Custom property key-value pairs to update (e.g. { "company_name": "Acme" })',
           ),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ id, email, firstName, lastName, unsubscribed, properties }) => {
       const commonOptions = {
@@ -303,9 +374,7 @@ export function addContactTools(server: McpServer, resend: Resend) {
       }
 
       if (response.error) {
-        throw new Error(
-          `Failed to update contact: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to update contact', response.error);
       }
 
       const updated = response.data;
@@ -327,24 +396,46 @@ export function addContactTools(server: McpServer, resend: Resend) {
       inputSchema: {
         id: z.string().optional().describe('Contact ID'),
         email: z.email().optional().describe('Contact email address'),
+        ...dryRunInputShape,
+        ...confirmInputShape,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ id, email }) => {
-      let response: RemoveContactsResponse;
-      if (id) {
-        response = await resend.contacts.remove({ id });
-      } else if (email) {
-        response = await resend.contacts.remove({ email });
-      } else {
+    async ({ id, email, dryRun, confirm }) => {
+      const contact = id ? { id } : email ? { email } : undefined;
+      if (!contact) {
         throw new Error(
           'You must provide either `id` or `email` to remove a contact.',
         );
       }
+      if (dryRun) return dryRunResult('contacts.remove', contact);
+
+      const cancelled = await requireConfirmation(server, {
+        confirm,
+        summary: async () => {
+          const existing = await lookupForSummary(() =>
+            resend.contacts.get(contact),
+          );
+          const name = [existing?.first_name, existing?.last_name]
+            .filter(Boolean)
+            .join(' ');
+          const label = existing
+            ? `${name ? `${name} ` : ''}<${existing.email}>`
+            : (id ?? email);
+          return `Remove contact ${label}. This cannot be undone.`;
+        },
+      });
+      if (cancelled) return cancelled;
+
+      const response = await resend.contacts.remove(contact);
 
       if (response.error) {
-        throw new Error(
-          `Failed to remove contact: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to remove contact', response.error);
       }
 
       return {
@@ -370,6 +461,12 @@ export function addContactTools(server: McpServer, resend: Resend) {
           .nonempty()
           .describe('Segment ID to add the contact to'),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ contactId, email, segmentId }) => {
       let response;
@@ -384,8 +481,9 @@ export function addContactTools(server: McpServer, resend: Resend) {
       }
 
       if (response.error) {
-        throw new Error(
-          `Failed to add contact to segment: ${JSON.stringify(response.error)}`,
+        return resendErrorResult(
+          'Failed to add contact to segment',
+          response.error,
         );
       }
 
@@ -411,26 +509,50 @@ export function addContactTools(server: McpServer, resend: Resend) {
           .string()
           .nonempty()
           .describe('Segment ID to remove the contact from'),
+        ...dryRunInputShape,
+        ...confirmInputShape,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ contactId, email, segmentId }) => {
-      let response;
-      if (contactId) {
-        response = await resend.contacts.segments.remove({
-          contactId,
-          segmentId,
-        });
-      } else if (email) {
-        response = await resend.contacts.segments.remove({ email, segmentId });
-      } else {
+    async ({ contactId, email, segmentId, dryRun, confirm }) => {
+      const contact = contactId ? { contactId } : email ? { email } : undefined;
+      if (!contact) {
         throw new Error(
           'You must provide either `contactId` or `email` to remove a contact from a segment.',
         );
       }
+      if (dryRun) {
+        return dryRunResult('contacts.segments.remove', {
+          ...contact,
+          segmentId,
+        });
+      }
+
+      const cancelled = await requireConfirmation(server, {
+        confirm,
+        summary: async () => {
+          const segment = await lookupForSummary(() =>
+            resend.segments.get(segmentId),
+          );
+          return `Remove contact ${contactId ?? email} from segment ${describeResource(segmentId, segment?.name)}.`;
+        },
+      });
+      if (cancelled) return cancelled;
+
+      const response = await resend.contacts.segments.remove({
+        ...contact,
+        segmentId,
+      });
 
       if (response.error) {
-        throw new Error(
-          `Failed to remove contact from segment: ${JSON.stringify(response.error)}`,
+        return resendErrorResult(
+          'Failed to remove contact from segment',
+          response.error,
         );
       }
 
@@ -472,9 +594,23 @@ export function addContactTools(server: McpServer, resend: Resend) {
           .describe(
             'Segment ID before which to retrieve more (for backward pagination). Cannot be used with "after".',
           ),
+        ...paginationInputShape,
+      },
+      outputSchema: {
+        segments: z.array(contactSegmentSchema),
+        ...paginationOutputShape,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ contactId, email, limit, after, before }) => {
+    async (
+      { contactId, email, limit, after, before, all, maxItems },
+      extra,
+    ) => {
       if (after && before) {
         throw new Error(
           'Cannot use both "after" and "before" parameters. Use only one for pagination.',
@@ -497,14 +633,21 @@ export function addContactTools(server: McpServer, resend: Resend) {
             ? { limit }
             : {};
 
-      const response = await resend.contacts.segments.list({
-        ...contactField,
-        ...paginationOptions,
-      });
+      const response = await listPages(
+        (page) =>
+          resend.contacts.segments.list({
+            ...contactField,
+            ...(page ?? paginationOptions),
+          }),
+        { all, maxItems, after, before },
+        extra,
+        'segments',
+      );
 
       if (response.error) {
-        throw new Error(
-          `Failed to list contact segments: ${JSON.stringify(response.error)}`,
+        return resendErrorResult(
+          'Failed to list contact segments',
+          response.error,
         );
       }
 
@@ -514,6 +657,10 @@ export function addContactTools(server: McpServer, resend: Resend) {
       if (segments.length === 0) {
         return {
           content: [{ type: 'text', text: 'Contact is not in any segments.' }],
+          structuredContent: {
+            segments,
+            ...paginationOutput(segments, hasMore),
+          },
         };
       }
 
@@ -536,6 +683,7 @@ export function addContactTools(server: McpServer, resend: Resend) {
               ]
             : []),
         ],
+        structuredContent: { segments, ...paginationOutput(segments, hasMore) },
       };
     },
   );
@@ -569,9 +717,20 @@ export function addContactTools(server: McpServer, resend: Resend) {
           .describe(
             'Topic ID before which to retrieve more (for backward pagination). Cannot be used with "after".',
           ),
+        ...paginationInputShape,
+      },
+      outputSchema: {
+        topics: z.array(contactTopicSchema),
+        ...paginationOutputShape,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ id, email, limit, after, before }) => {
+    async ({ id, email, limit, after, before, all, maxItems }, extra) => {
       if (after && before) {
         throw new Error(
           'Cannot use both "after" and "before" parameters. Use only one for pagination.',
@@ -594,14 +753,21 @@ export function addContactTools(server: McpServer, resend: Resend) {
             ? { limit }
             : {};
 
-      const response = await resend.contacts.topics.list({
-        ...contactField,
-        ...paginationOptions,
-      });
+      const response = await listPages(
+        (page) =>
+          resend.contacts.topics.list({
+            ...contactField,
+            ...(page ?? paginationOptions),
+          }),
+        { all, maxItems, after, before },
+        extra,
+        'topics',
+      );
 
       if (response.error) {
-        throw new Error(
-          `Failed to list contact topics: ${JSON.stringify(response.error)}`,
+        return resendErrorResult(
+          'Failed to list contact topics',
+          response.error,
         );
       }
 
@@ -613,6 +779,7 @@ export function addContactTools(server: McpServer, resend: Resend) {
           content: [
             { type: 'text', text: 'Contact has no topic subscriptions.' },
           ],
+          structuredContent: { topics, ...paginationOutput(topics, hasMore) },
         };
       }
 
@@ -642,6 +809,7 @@ export function addContactTools(server: McpServer, resend: Resend) {
               ]
             : []),
         ],
+        structuredContent: { topics, ...paginationOutput(topics, hasMore) },
       };
     },
   );
@@ -667,6 +835,12 @@ export function addContactTools(server: McpServer, resend: Resend) {
           .min(1)
           .describe('Array of topic subscription configurations to update'),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ id, email, topics }) => {
       if (!id && !email) {
@@ -683,8 +857,9 @@ export function addContactTools(server: McpServer, resend: Resend) {
       });
 
       if (response.error) {
-        throw new Error(
-          `Failed to update contact topics: ${JSON.stringify(response.error)}`,
+        return resendErrorResult(
+          'Failed to update contact topics',
+          response.error,
         );
       }
 
@@ -1,6 +1,15 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { Resend } from 'resend';
 import { z } from 'zod';
+import {
+  confirmInputShape,
+  describeResource,
+  lookupForSummary,
+  requireConfirmation,
+} from '../lib/confirm.js';
+import { dryRunInputShape, dryRunResult } from '../lib/dry-run.js';
+import { resendErrorResult } from '../lib/errors.js';
+import { listPages, paginationInputShape } from '../lib/pagination.js';
 
 function formatDnsRecords(
   records: {
@@ -79,6 +88,12 @@ export function addDomainTools(server: McpServer, resend: Resend) {
           .optional()
           .describe('Domain capabilities configuration.'),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
     },
     async ({
       name,
@@ -102,9 +117,7 @@ export function addDomainTools(server: McpServer, resend: Resend) {
       });
 
       if (response.error) {
-        throw new Error(
-          `Failed to create domain: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to create domain', response.error);
       }
 
       const created = response.data;
@@ -155,9 +168,16 @@ export function addDomainTools(server: McpServer, resend: Resend) {
           .describe(
             'Domain ID before which to retrieve more (for backward pagination). Cannot be used with "after".',
           ),
+        ...paginationInputShape,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ limit, after, before }) => {
+    async ({ limit, after, before, all, maxItems }, extra) => {
       if (after && before) {
         throw new Error(
           'Cannot use both "after" and "before" parameters. Use only one for pagination.',
@@ -172,12 +192,15 @@ export function addDomainTools(server: McpServer, resend: Resend) {
             ? { limit }
             : undefined;
 
-      const response = await resend.domains.list(paginationOptions);
+      const response = await listPages(
+        (page) => resend.domains.list(page ?? paginationOptions),
+        { all, maxItems, after, before },
+        extra,
+        'domains',
+      );
 
       if (response.error) {
-        throw new Error(
-          `Failed to list domains: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to list domains', response.error);
       }
 
       const domains = response.data?.data ?? [];
@@ -221,14 +244,18 @@ export function addDomainTools(server: McpServer, resend: Resend) {
       inputSchema: {
         id: z.string().nonempty().describe('Domain ID'),
       },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ id }) => {
       const response = await resend.domains.get(id);
 
       if (response.error) {
-        throw new Error(
-          `Failed to get domain: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to get domain', response.error);
       }
 
       const domain = response.data;
@@ -291,6 +318,12 @@ export function addDomainTools(server: McpServer, resend: Resend) {
             'Domain capabilities. At least one capability must remain enabled.',
           ),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({
       id,
@@ -310,9 +343,7 @@ export function addDomainTools(server: McpServer, resend: Resend) {
       });
 
       if (response.error) {
-        throw new Error(
-          `Failed to update domain: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to update domain', response.error);
       }
 
       return {
@@ -332,15 +363,32 @@ export function addDomainTools(server: McpServer, resend: Resend) {
         'Remove a domain by ID from Resend. Before using this tool, you MUST double-check with the user that they want to remove this domain. Reference the NAME of the domain when double-checking, and warn the user that removing a domain is irreversible and will stop all email sending/receiving for that domain. You may only use this tool if the user explicitly confirms they want to remove the domain after you double-check.',
       inputSchema: {
         id: z.string().nonempty().describe('Domain ID'),
+        ...dryRunInputShape,
+        ...confirmInputShape,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ id }) => {
+    async ({ id, dryRun, confirm }) => {
+      if (dryRun) return dryRunResult('domains.remove', id);
+
+      const cancelled = await requireConfirmation(server, {
+        confirm,
+        summary: async () => {
+          const domain = await lookupForSummary(() => resend.domains.get(id));
+          return `Remove domain ${describeResource(id, domain?.name)}. Emails can no longer be sent from it. This cannot be undone.`;
+        },
+      });
+      if (cancelled) return cancelled;
+
       const response = await resend.domains.remove(id);
 
       if (response.error) {
-        throw new Error(
-          `Failed to remove domain: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to remove domain', response.error);
       }
 
       return {
@@ -361,14 +409,18 @@ export function addDomainTools(server: McpServer, resend: Resend) {
       inputSchema: {
         id: z.string().nonempty().describe('Domain ID'),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
     },
     async ({ id }) => {
       const response = await resend.domains.verify(id);
 
       if (response.error) {
-        throw new Error(
-          `Failed to verify domain: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to verify domain', response.error);
       }
 
       return {
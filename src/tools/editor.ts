@@ -95,6 +95,12 @@ export function addEditorTools(
             'Returns the TipTap schema reference alongside the content. Required for producing valid TipTap JSON. Set to false only if you already have the schema.',
           ),
       },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ resource_type, resource_id: rawResourceId, include_schema }) => {
       const resource_id = extractIdFromUrl(
@@ -180,6 +186,12 @@ export function addEditorTools(
           .optional()
           .describe('Display name for the agent avatar'),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ resource_type, resource_id: rawResourceId, agent_name }) => {
       if (!apiClient) {
@@ -222,6 +234,12 @@ export function addEditorTools(
       description:
         'Remove agent presence from the Resend dashboard editor. Call this when done editing.',
       inputSchema: {},
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async () => {
       if (!apiClient) {
@@ -2,6 +2,74 @@ import fs from 'node:fs/promises';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { Resend } from 'resend';
 import { z } from 'zod';
+import { confirmInputShape, requireConfirmation } from '../lib/confirm.js';
+import { dryRunInputShape, dryRunResult } from '../lib/dry-run.js';
+import { resendErrorResult } from '../lib/errors.js';
+import { listPages, paginationInputShape } from '../lib/pagination.js';
+import {
+  paginationOutput,
+  paginationOutputShape,
+} from '../lib/structured-output.js';
+
+const sentEmailSummarySchema = z.looseObject({
+  id: z.string(),
+  from: z.string(),
+  to: z.array(z.string()),
+  cc: z.array(z.string()).nullable(),
+  bcc: z.array(z.string()).nullable(),
+  reply_to: z.array(z.string()).nullable(),
+  subject: z.string(),
+  last_event: z.string(),
+  created_at: z.string(),
+  scheduled_at: z.string().nullable(),
+});
+
+const sentEmailSchema = sentEmailSummarySchema.extend({
+  html: z.string().nullable(),
+  text: z.string().nullable(),
+});
+
+const inboundAttachmentSchema = z.looseObject({
+  id: z.string(),
+  filename: z.string().nullable(),
+  size: z.number(),
+  content_type: z.string(),
+  content_id: z.string().nullable(),
+  content_disposition: z.string().nullable(),
+});
+
+const receivedEmailSummarySchema = z.looseObject({
+  id: z.string(),
+  from: z.string(),
+  to: z.array(z.string()),
+  cc: z.array(z.string()).nullable(),
+  bcc: z.array(z.string()).nullable(),
+  reply_to: z.array(z.string()).nullable(),
+  subject: z.string(),
+  message_id: z.string(),
+  created_at: z.string(),
+  attachments: z.array(inboundAttachmentSchema),
+});
+
+const receivedEmailSchema = receivedEmailSummarySchema.extend({
+  html: z.string().nullable(),
+  text: z.string().nullable(),
+  raw: z
+    .object({ download_url: z.string(), expires_at: z.string() })
+    .nullable()
+    .optional(),
+});
+
+const attachmentSchema = z.looseObject({
+  id: z.string(),
+  filename: z.string().optional(),
+  size: z.number(),
+  content_type: z.string(),
+  content_disposition: z.string(),
+  content_id: z.string().optional(),
+  download_url: z.string(),
+  expires_at: z.string(),
+});
 
 export function addEmailTools(
   server: McpServer,
@@ -143,6 +211,13 @@ export function addEmailTools(
                 ),
             }
           : {}),
+        ...dryRunInputShape,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
       },
     },
     async ({
@@ -158,6 +233,7 @@ export function addEmailTools(
       attachments,
       tags,
       topicId,
+      dryRun,
     }) => {
       const fromEmailAddress = from ?? senderEmailAddress;
       const replyToEmailAddresses = replyTo ?? replierEmailAddresses;
@@ -265,12 +341,12 @@ export function addEmailTools(
         emailRequest.topicId = topicId;
       }
 
+      if (dryRun) return dryRunResult('emails.send', emailRequest);
+
       const response = await resend.emails.send(emailRequest);
 
       if (response.error) {
-        throw new Error(
-          `Email failed to send: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Email failed to send', response.error);
       }
 
       return {
@@ -321,9 +397,20 @@ export function addEmailTools(
           .describe(
             'Email ID before which to retrieve more emails (for backward pagination). Cannot be used with "after".',
           ),
+        ...paginationInputShape,
+      },
+      outputSchema: {
+        emails: z.array(sentEmailSummarySchema),
+        ...paginationOutputShape,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ limit, after, before }) => {
+    async ({ limit, after, before, all, maxItems }, extra) => {
       if (after && before) {
         throw new Error(
           'Cannot use both "after" and "before" parameters. Use only one for pagination.',
@@ -339,12 +426,15 @@ export function addEmailTools(
             ? { limit }
             : undefined;
 
-      const response = await resend.emails.list(paginationOptions);
+      const response = await listPages(
+        (page) => resend.emails.list(page ?? paginationOptions),
+        { all, maxItems, after, before },
+        extra,
+        'emails',
+      );
 
       if (response.error) {
-        throw new Error(
-          `Failed to list emails: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to list emails', response.error);
       }
 
       const emails = response.data?.data ?? [];
@@ -358,6 +448,7 @@ export function addEmailTools(
               text: 'No emails found.',
             },
           ],
+          structuredContent: { emails, ...paginationOutput(emails, hasMore) },
         };
       }
 
@@ -378,6 +469,7 @@ export function addEmailTools(
             text: `Found ${emails.length} email(s)${hasMore ? ' (more available)' : ''}:\n\n${emailSummaries}`,
           },
         ],
+        structuredContent: { emails, ...paginationOutput(emails, hasMore) },
       };
     },
   );
@@ -391,14 +483,19 @@ export function addEmailTools(
       inputSchema: {
         id: z.string().describe('The email ID to retrieve'),
       },
+      outputSchema: sentEmailSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ id }) => {
       const response = await resend.emails.get(id);
 
       if (response.error) {
-        throw new Error(
-          `Failed to retrieve email: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to retrieve email', response.error);
       }
 
       const email = response.data;
@@ -447,6 +544,7 @@ export function addEmailTools(
             text: details,
           },
         ],
+        structuredContent: { ...email },
       };
     },
   );
@@ -481,9 +579,20 @@ export function addEmailTools(
           .describe(
             'Email ID before which to retrieve more emails (for backward pagination). Cannot be used with "after".',
           ),
+        ...paginationInputShape,
+      },
+      outputSchema: {
+        emails: z.array(receivedEmailSummarySchema),
+        ...paginationOutputShape,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ limit, after, before }) => {
+    async ({ limit, after, before, all, maxItems }, extra) => {
       if (after && before) {
         throw new Error(
           'Cannot use both "after" and "before" parameters. Use only one for pagination.',
@@ -498,11 +607,17 @@ export function addEmailTools(
             ? { limit }
             : undefined;
 
-      const response = await resend.emails.receiving.list(paginationOptions);
+      const response = await listPages(
+        (page) => resend.emails.receiving.list(page ?? paginationOptions),
+        { all, maxItems, after, before },
+        extra,
+        'received emails',
+      );
 
       if (response.error) {
-        throw new Error(
-          `Failed to list received emails: ${JSON.stringify(response.error)}`,
+        return resendErrorResult(
+          'Failed to list received emails',
+          response.error,
         );
       }
 
@@ -517,6 +632,7 @@ export function addEmailTools(
               text: 'No received emails found.',
             },
           ],
+          structuredContent: { emails, ...paginationOutput(emails, hasMore) },
         };
       }
 
@@ -537,6 +653,7 @@ export function addEmailTools(
             text: `Found ${emails.length} received email(s)${hasMore ? ' (more available)' : ''}:\n\n${emailSummaries}`,
           },
         ],
+        structuredContent: { emails, ...paginationOutput(emails, hasMore) },
       };
     },
   );
@@ -550,13 +667,21 @@ export function addEmailTools(
       inputSchema: {
         id: z.string().describe('The received email ID to retrieve'),
       },
+      outputSchema: receivedEmailSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ id }) => {
       const response = await resend.emails.receiving.get(id);
 
       if (response.error) {
-        throw new Error(
-          `Failed to retrieve received email: ${JSON.stringify(response.error)}`,
+        return resendErrorResult(
+          'Failed to retrieve received email',
+          response.error,
         );
       }
 
@@ -611,6 +736,7 @@ export function addEmailTools(
             text: details,
           },
         ],
+        structuredContent: { ...email },
       };
     },
   );
@@ -643,9 +769,20 @@ export function addEmailTools(
           .describe(
             'Attachment ID before which to retrieve more (for backward pagination). Cannot be used with "after".',
           ),
+        ...paginationInputShape,
+      },
+      outputSchema: {
+        attachments: z.array(inboundAttachmentSchema),
+        ...paginationOutputShape,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ emailId, limit, after, before }) => {
+    async ({ emailId, limit, after, before, all, maxItems }, extra) => {
       if (after && before) {
         throw new Error(
           'Cannot use both "after" and "before" parameters. Use only one for pagination.',
@@ -658,13 +795,18 @@ export function addEmailTools(
           ? { emailId, limit, before }
           : { emailId, limit };
 
-      const response =
-        await resend.emails.receiving.attachments.list(paginationOptions);
+      const response = await listPages(
+        (page) =>
+          resend.emails.receiving.attachments.list(
+            page ? { emailId, ...page } : paginationOptions,
+          ),
+        { all, maxItems, after, before },
+        extra,
+        'attachments',
+      );
 
       if (response.error) {
-        throw new Error(
-          `Failed to list attachments: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to list attachments', response.error);
       }
 
       const attachments = response.data?.data ?? [];
@@ -678,6 +820,10 @@ export function addEmailTools(
               text: 'No attachments found for this email.',
             },
           ],
+          structuredContent: {
+            attachments,
+            ...paginationOutput(attachments, hasMore),
+          },
         };
       }
 
@@ -695,6 +841,10 @@ export function addEmailTools(
             text: `Found ${attachments.length} attachment(s)${hasMore ? ' (more available)' : ''}:\n\n${attachmentSummaries}`,
           },
         ],
+        structuredContent: {
+          attachments,
+          ...paginationOutput(attachments, hasMore),
+        },
       };
     },
   );
@@ -709,6 +859,13 @@ export function addEmailTools(
         emailId: z.string().describe('The received email ID'),
         id: z.string().describe('The attachment ID'),
       },
+      outputSchema: attachmentSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ emailId, id }) => {
       const response = await resend.emails.receiving.attachments.get({
@@ -717,8 +874,9 @@ export function addEmailTools(
       });
 
       if (response.error) {
-        throw new Error(
-          `Failed to retrieve attachment: ${JSON.stringify(response.error)}`,
+        return resendErrorResult(
+          'Failed to retrieve attachment',
+          response.error,
         );
       }
 
@@ -747,6 +905,7 @@ export function addEmailTools(
             text: details,
           },
         ],
+        structuredContent: { ...attachment },
       };
     },
   );
@@ -760,14 +919,18 @@ export function addEmailTools(
       inputSchema: {
         id: z.string().describe('The ID of the scheduled email to cancel'),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ id }) => {
       const response = await resend.emails.cancel(id);
 
       if (response.error) {
-        throw new Error(
-          `Failed to cancel email: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to cancel email', response.error);
       }
 
       return {
@@ -795,14 +958,18 @@ export function addEmailTools(
             'The new scheduled time in ISO 8601 format (e.g., "2024-08-05T11:52:01.858Z").',
           ),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ id, scheduledAt }) => {
       const response = await resend.emails.update({ id, scheduledAt });
 
       if (response.error) {
-        throw new Error(
-          `Failed to update email: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to update email', response.error);
       }
 
       return {
@@ -844,9 +1011,20 @@ export function addEmailTools(
           .describe(
             'Attachment ID before which to retrieve more (for backward pagination). Cannot be used with "after".',
           ),
+        ...paginationInputShape,
+      },
+      outputSchema: {
+        attachments: z.array(attachmentSchema),
+        ...paginationOutputShape,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ emailId, limit, after, before }) => {
+    async ({ emailId, limit, after, before, all, maxItems }, extra) => {
       if (after && before) {
         throw new Error(
           'Cannot use both "after" and "before" parameters. Use only one for pagination.',
@@ -859,12 +1037,18 @@ export function addEmailTools(
           ? { emailId, limit, before }
           : { emailId, limit };
 
-      const response = await resend.emails.attachments.list(paginationOptions);
+      const response = await listPages(
+        (page) =>
+          resend.emails.attachments.list(
+            page ? { emailId, ...page } : paginationOptions,
+          ),
+        { all, maxItems, after, before },
+        extra,
+        'attachments',
+      );
 
       if (response.error) {
-        throw new Error(
-          `Failed to list attachments: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to list attachments', response.error);
       }
 
       const attachments = response.data?.data ?? [];
@@ -878,6 +1062,10 @@ export function addEmailTools(
               text: 'No attachments found for this email.',
             },
           ],
+          structuredContent: {
+            attachments,
+            ...paginationOutput(attachments, hasMore),
+          },
         };
       }
 
@@ -895,6 +1083,10 @@ export function addEmailTools(
             text: `Found ${attachments.length} attachment(s)${hasMore ? ' (more available)' : ''}:\n\n${attachmentSummaries}`,
           },
         ],
+        structuredContent: {
+          attachments,
+          ...paginationOutput(attachments, hasMore),
+        },
       };
     },
   );
@@ -909,6 +1101,13 @@ export function addEmailTools(
         emailId: z.string().describe('The sent email ID'),
         id: z.string().describe('The attachment ID'),
       },
+      outputSchema: attachmentSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ emailId, id }) => {
       const response = await resend.emails.attachments.get({
@@ -917,8 +1116,9 @@ export function addEmailTools(
       });
 
       if (response.error) {
-        throw new Error(
-          `Failed to retrieve attachment: ${JSON.stringify(response.error)}`,
+        return resendErrorResult(
+          'Failed to retrieve attachment',
+          response.error,
         );
       }
 
@@ -947,6 +1147,7 @@ export function addEmailTools(
             text: details,
           },
         ],
+        structuredContent: { ...attachment },
       };
     },
   );
@@ -1013,9 +1214,17 @@ export function addEmailTools(
           .min(1)
           .max(100)
           .describe('Array of email objects to send (1-100 emails)'),
+        ...dryRunInputShape,
+        ...confirmInputShape,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
       },
     },
-    async ({ emails }) => {
+    async ({ emails, dryRun, confirm }) => {
       const emailRequests = emails.map((email) => {
         const fromAddress = email.from ?? senderEmailAddress;
         const replyToAddresses = email.replyTo ?? replierEmailAddresses;
@@ -1044,12 +1253,30 @@ export function addEmailTools(
         return request;
       });
 
+      if (dryRun) return dryRunResult('batch.send', emailRequests);
+
+      const cancelled = await requireConfirmation(server, {
+        confirm,
+        summary: () => {
+          const recipients = new Set(
+            emails.flatMap(({ to, cc, bcc }) => [
+              ...to,
+              ...(cc ?? []),
+              ...(bcc ?? []),
+            ]),
+          );
+          const subjects = [...new Set(emails.map(({ subject }) => subject))];
+          return `Send ${emails.length} email${emails.length === 1 ? '' : 's'} to ${recipients.size} unique recipient${recipients.size === 1 ? '' : 's'}. Subject${subjects.length === 1 ? '' : 's'}: ${subjects.map((subject) => `"${subject}"`).join(', ')}. Sent emails cannot be recalled.`;
+        },
+      });
+      if (cancelled) return cancelled;
+
       const response = await resend.batch.send(
         emailRequests as unknown as Parameters<typeof resend.batch.send>[0],
       );
 
       if (response.error) {
-        throw new Error(`Batch send failed: ${JSON.stringify(response.error)}`);
+        return resendErrorResult('Batch send failed', response.error);
       }
 
       const ids = response.data?.data?.map((e) => e.id) ?? [];
@@ -1,6 +1,14 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { Resend } from 'resend';
 import { z } from 'zod';
+import {
+  confirmInputShape,
+  describeResource,
+  lookupForSummary,
+  requireConfirmation,
+} from '../lib/confirm.js';
+import { resendErrorResult } from '../lib/errors.js';
+import { listPages, paginationInputShape } from '../lib/pagination.js';
 
 export function addEventTools(server: McpServer, resend: Resend) {
   server.registerTool(
@@ -43,6 +51,12 @@ export function addEventTools(server: McpServer, resend: Resend) {
             'Optional key-value data passed to the automation. Accessible in steps via event.* variables.',
           ),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
     },
     async ({ event, contactId, email, payload }) => {
       if (!contactId && !email) {
@@ -61,9 +75,7 @@ export function addEventTools(server: McpServer, resend: Resend) {
       const response = await resend.events.send(options);
 
       if (response.error) {
-        throw new Error(
-          `Failed to send event: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to send event', response.error);
       }
 
       return {
@@ -143,9 +155,31 @@ Events define named triggers that your application sends to start automations. E
           .string()
           .optional()
           .describe('Cursor for backward pagination (for list).'),
+        ...paginationInputShape,
+        ...confirmInputShape,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: false,
       },
     },
-    async ({ action, name, identifier, schema, limit, after, before }) => {
+    async (
+      {
+        action,
+        name,
+        identifier,
+        schema,
+        limit,
+        after,
+        before,
+        confirm,
+        all,
+        maxItems,
+      },
+      extra,
+    ) => {
       switch (action) {
         case 'create': {
           if (!name) {
@@ -158,9 +192,7 @@ Events define named triggers that your application sends to start automations. E
           });
 
           if (response.error) {
-            throw new Error(
-              `Failed to create event: ${JSON.stringify(response.error)}`,
-            );
+            return resendErrorResult('Failed to create event', response.error);
           }
 
           return {
@@ -193,12 +225,15 @@ Events define named triggers that your application sends to start automations. E
                 ? { limit }
                 : undefined;
 
-          const response = await resend.events.list(options);
+          const response = await listPages(
+            (page) => resend.events.list(page ?? options),
+            { all, maxItems, after, before },
+            extra,
+            'events',
+          );
 
           if (response.error) {
-            throw new Error(
-              `Failed to list events: ${JSON.stringify(response.error)}`,
-            );
+            return resendErrorResult('Failed to list events', response.error);
           }
 
           const events = response.data?.data ?? [];
@@ -242,9 +277,7 @@ Events define named triggers that your application sends to start automations. E
           const response = await resend.events.get(identifier);
 
           if (response.error) {
-            throw new Error(
-              `Failed to get event: ${JSON.stringify(response.error)}`,
-            );
+            return resendErrorResult('Failed to get event', response.error);
           }
 
           const event = response.data;
@@ -275,9 +308,7 @@ Events define named triggers that your application sends to start automations. E
           });
 
           if (response.error) {
-            throw new Error(
-              `Failed to update event: ${JSON.stringify(response.error)}`,
-            );
+            return resendErrorResult('Failed to update event', response.error);
           }
 
           return {
@@ -295,12 +326,21 @@ Events define named triggers that your application sends to start automations. E
             );
           }
 
+          const cancelled = await requireConfirmation(server, {
+            confirm,
+            summary: async () => {
+              const event = await lookupForSummary(() =>
+                resend.events.get(identifier),
+              );
+              return `Remove event ${event ? describeResource(event.id, event.name) : identifier}. Automations triggered by it will stop running.`;
+            },
+          });
+          if (cancelled) return cancelled;
+
           const response = await resend.events.remove(identifier);
 
           if (response.error) {
-            throw new Error(
-              `Failed to remove event: ${JSON.stringify(response.error)}`,
-            );
+            return resendErrorResult('Failed to remove event', response.error);
           }
 
           return {
@@ -1,4 +1,6 @@
+export * from './accounts.js';
 export * from './apiKeys.js';
+export * from './audit.js';
 export * from './automations.js';
 export * from './broadcasts.js';
 export * from './contactProperties.js';
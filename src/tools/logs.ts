@@ -1,6 +1,8 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { Resend } from 'resend';
 import { z } from 'zod';
+import { resendErrorResult } from '../lib/errors.js';
+import { listPages, paginationInputShape } from '../lib/pagination.js';
 
 export function addLogTools(server: McpServer, resend: Resend) {
   server.registerTool(
@@ -36,9 +38,16 @@ export function addLogTools(server: McpServer, resend: Resend) {
           .describe(
             'Log ID before which to retrieve more (for backward pagination). Cannot be used with "after".',
           ),
+        ...paginationInputShape,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ limit, after, before }) => {
+    async ({ limit, after, before, all, maxItems }, extra) => {
       if (after && before) {
         throw new Error(
           'Cannot use both "after" and "before" parameters. Use only one for pagination.',
@@ -53,12 +62,15 @@ export function addLogTools(server: McpServer, resend: Resend) {
             ? { limit }
             : undefined;
 
-      const response = await resend.logs.list(paginationOptions);
+      const response = await listPages(
+        (page) => resend.logs.list(page ?? paginationOptions),
+        { all, maxItems, after, before },
+        extra,
+        'logs',
+      );
 
       if (response.error) {
-        throw new Error(
-          `Failed to list logs: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to list logs', response.error);
       }
 
       const logs = response.data?.data ?? [];
@@ -117,12 +129,18 @@ export function addLogTools(server: McpServer, resend: Resend) {
       inputSchema: {
         logId: z.string().nonempty().describe('The Log ID to retrieve'),
       },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ logId }) => {
       const response = await resend.logs.get(logId);
 
       if (response.error) {
-        throw new Error(`Failed to get log: ${JSON.stringify(response.error)}`);
+        return resendErrorResult('Failed to get log', response.error);
       }
 
       const log = response.data;
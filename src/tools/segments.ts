@@ -1,6 +1,15 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { Resend } from 'resend';
 import { z } from 'zod';
+import {
+  confirmInputShape,
+  describeResource,
+  lookupForSummary,
+  requireConfirmation,
+} from '../lib/confirm.js';
+import { dryRunInputShape, dryRunResult } from '../lib/dry-run.js';
+import { resendErrorResult } from '../lib/errors.js';
+import { listPages, paginationInputShape } from '../lib/pagination.js';
 
 export function addSegmentTools(server: McpServer, resend: Resend) {
   server.registerTool(
@@ -12,14 +21,18 @@ export function addSegmentTools(server: McpServer, resend: Resend) {
       inputSchema: {
         name: z.string().nonempty().describe('Name for the new segment'),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
     },
     async ({ name }) => {
       const response = await resend.segments.create({ name });
 
       if (response.error) {
-        throw new Error(
-          `Failed to create segment: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to create segment', response.error);
       }
 
       const created = response.data;
@@ -64,9 +77,16 @@ export function addSegmentTools(server: McpServer, resend: Resend) {
           .describe(
             'Segment ID before which to retrieve more (for backward pagination). Cannot be used with "after".',
           ),
+        ...paginationInputShape,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ limit, after, before }) => {
+    async ({ limit, after, before, all, maxItems }, extra) => {
       if (after && before) {
         throw new Error(
           'Cannot use both "after" and "before" parameters. Use only one for pagination.',
@@ -81,12 +101,15 @@ export function addSegmentTools(server: McpServer, resend: Resend) {
             ? { limit }
             : undefined;
 
-      const response = await resend.segments.list(paginationOptions);
+      const response = await listPages(
+        (page) => resend.segments.list(page ?? paginationOptions),
+        { all, maxItems, after, before },
+        extra,
+        'segments',
+      );
 
       if (response.error) {
-        throw new Error(
-          `Failed to list segments: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to list segments', response.error);
       }
 
       const segments = response.data?.data ?? [];
@@ -129,14 +152,18 @@ export function addSegmentTools(server: McpServer, resend: Resend) {
       inputSchema: {
         id: z.string().nonempty().describe('Segment ID'),
       },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ id }) => {
       const response = await resend.segments.get(id);
 
       if (response.error) {
-        throw new Error(
-          `Failed to get segment: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to get segment', response.error);
       }
 
       const segment = response.data;
@@ -159,15 +186,32 @@ export function addSegmentTools(server: McpServer, resend: Resend) {
         'Remove a segment by ID from Resend. Before using this tool, you MUST double-check with the user that they want to remove this segment. Reference the NAME of the segment when double-checking, and warn the user that removing a segment is irreversible. You may only use this tool if the user explicitly confirms they want to remove the segment after you double-check.',
       inputSchema: {
         id: z.string().nonempty().describe('Segment ID'),
+        ...dryRunInputShape,
+        ...confirmInputShape,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ id }) => {
+    async ({ id, dryRun, confirm }) => {
+      if (dryRun) return dryRunResult('segments.remove', id);
+
+      const cancelled = await requireConfirmation(server, {
+        confirm,
+        summary: async () => {
+          const segment = await lookupForSummary(() => resend.segments.get(id));
+          return `Remove segment ${describeResource(id, segment?.name)}. This cannot be undone.`;
+        },
+      });
+      if (cancelled) return cancelled;
+
       const response = await resend.segments.remove(id);
 
       if (response.error) {
-        throw new Error(
-          `Failed to remove segment: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to remove segment', response.error);
       }
 
       return {
@@ -5,8 +5,21 @@ import type {
   UpdateTemplateOptions,
 } from 'resend';
 import { z } from 'zod';
+import {
+  confirmInputShape,
+  describeResource,
+  lookupForSummary,
+  requireConfirmation,
+} from '../lib/confirm.js';
+import { dryRunInputShape, dryRunResult } from '../lib/dry-run.js';
 import { EMAIL_HTML_RULES } from '../lib/email-html-rules.js';
+import { describeResendError, resendErrorResult } from '../lib/errors.js';
+import { listPages, paginationInputShape } from '../lib/pagination.js';
 import type { ResendEditorClient } from '../lib/resend-editor-client.js';
+import {
+  paginationOutput,
+  paginationOutputShape,
+} from '../lib/structured-output.js';
 import { extractIdFromUrl } from '../lib/url-parser.js';
 
 const templateVariableSchema = z.object({
@@ -27,6 +40,31 @@ const templateVariableSchema = z.object({
     ),
 });
 
+const storedTemplateVariableSchema = z.looseObject({
+  key: z.string(),
+  type: z.string().describe('e.g. string or number'),
+  fallback_value: z.union([z.string(), z.number(), z.null()]),
+});
+
+const templateSummarySchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  status: z.string().describe('e.g. draft or published'),
+  alias: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  published_at: z.string().nullable(),
+});
+
+const templateSchema = templateSummarySchema.extend({
+  subject: z.string().nullable(),
+  from: z.string().nullable(),
+  reply_to: z.array(z.string()).nullable(),
+  html: z.string(),
+  text: z.string().nullable(),
+  variables: z.array(storedTemplateVariableSchema).nullable(),
+});
+
 export function addTemplateTools(
   server: McpServer,
   resend: Resend,
@@ -92,6 +130,12 @@ export function addTemplateTools(
           .optional()
           .describe('Array of template variables (up to 50 per template).'),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
     },
     async ({ name, html, subject, from, replyTo, text, alias, variables }) => {
       const response = await resend.templates.create({
@@ -106,9 +150,7 @@ export function addTemplateTools(
       } as CreateTemplateOptions);
 
       if (response.error) {
-        throw new Error(
-          `Failed to create template: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to create template', response.error);
       }
 
       const resultContent: Array<{ type: 'text'; text: string }> = [
@@ -155,9 +197,20 @@ export function addTemplateTools(
           .describe(
             'Template ID before which to retrieve more (for backward pagination). Cannot be used with "after".',
           ),
+        ...paginationInputShape,
+      },
+      outputSchema: {
+        templates: z.array(templateSummarySchema),
+        ...paginationOutputShape,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ limit, after, before }) => {
+    async ({ limit, after, before, all, maxItems }, extra) => {
       if (after && before) {
         throw new Error(
           'Cannot use both "after" and "before" parameters. Use only one for pagination.',
@@ -172,12 +225,15 @@ export function addTemplateTools(
             ? { limit }
             : undefined;
 
-      const response = await resend.templates.list(paginationOptions);
+      const response = await listPages(
+        (page) => resend.templates.list(page ?? paginationOptions),
+        { all, maxItems, after, before },
+        extra,
+        'templates',
+      );
 
       if (response.error) {
-        throw new Error(
-          `Failed to list templates: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to list templates', response.error);
       }
 
       const templates = response.data?.data ?? [];
@@ -186,6 +242,10 @@ export function addTemplateTools(
       if (templates.length === 0) {
         return {
           content: [{ type: 'text', text: 'No templates found.' }],
+          structuredContent: {
+            templates,
+            ...paginationOutput(templates, hasMore),
+          },
         };
       }
 
@@ -208,6 +268,10 @@ export function addTemplateTools(
               ]
             : []),
         ],
+        structuredContent: {
+          templates,
+          ...paginationOutput(templates, hasMore),
+        },
       };
     },
   );
@@ -226,15 +290,20 @@ export function addTemplateTools(
             'The template ID, alias, or Resend dashboard URL (e.g. https://resend.com/templates/<id>)',
           ),
       },
+      outputSchema: templateSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ id: rawId }) => {
       const id = extractIdFromUrl(rawId, 'templates');
       const response = await resend.templates.get(id);
 
       if (response.error) {
-        throw new Error(
-          `Failed to get template: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to get template', response.error);
       }
 
       const template = response.data;
@@ -266,6 +335,7 @@ export function addTemplateTools(
             ? [{ type: 'text' as const, text: `Text:\n${template.text}` }]
             : []),
         ],
+        structuredContent: { ...template },
       };
     },
   );
@@ -318,6 +388,12 @@ export function addTemplateTools(
           .describe('Update the default email subject.'),
         name: z.string().optional().describe('Update the template name.'),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ id: rawId, content, subject, name }) => {
       const id = extractIdFromUrl(rawId, 'templates');
@@ -351,7 +427,10 @@ export function addTemplateTools(
                 { type: 'text', text: `ID: ${id}` },
                 {
                   type: 'text',
-                  text: `Error: ${JSON.stringify(updateResponse.error)}`,
+                  text: describeResendError(
+                    'Failed to update metadata',
+                    updateResponse.error,
+                  ),
                 },
                 {
                   type: 'text',
@@ -472,6 +551,12 @@ export function addTemplateTools(
             'New array of template variables (replaces existing variables).',
           ),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({
       id: rawId,
@@ -497,9 +582,7 @@ export function addTemplateTools(
       } as UpdateTemplateOptions);
 
       if (response.error) {
-        throw new Error(
-          `Failed to update template: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to update template', response.error);
       }
 
       return {
@@ -532,16 +615,35 @@ export function addTemplateTools(
           .describe(
             'The template ID, alias, or Resend dashboard URL (e.g. https://resend.com/templates/<id>)',
           ),
+        ...dryRunInputShape,
+        ...confirmInputShape,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ id: rawId }) => {
+    async ({ id: rawId, dryRun, confirm }) => {
       const id = extractIdFromUrl(rawId, 'templates');
+      if (dryRun) return dryRunResult('templates.remove', id);
+
+      const cancelled = await requireConfirmation(server, {
+        confirm,
+        summary: async () => {
+          const template = await lookupForSummary(() =>
+            resend.templates.get(id),
+          );
+          return `Remove template ${describeResource(id, template?.name)}. This cannot be undone.`;
+        },
+      });
+      if (cancelled) return cancelled;
+
       const response = await resend.templates.remove(id);
 
       if (response.error) {
-        throw new Error(
-          `Failed to remove template: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to remove template', response.error);
       }
 
       return {
@@ -567,15 +669,19 @@ export function addTemplateTools(
             'The template ID, alias, or Resend dashboard URL (e.g. https://resend.com/templates/<id>)',
           ),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ id: rawId }) => {
       const id = extractIdFromUrl(rawId, 'templates');
       const response = await resend.templates.publish(id);
 
       if (response.error) {
-        throw new Error(
-          `Failed to publish template: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to publish template', response.error);
       }
 
       return {
@@ -601,14 +707,21 @@ export function addTemplateTools(
             'The ID, alias, or Resend dashboard URL (e.g. https://resend.com/templates/<id>) of the template to duplicate.',
           ),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
     },
     async ({ id: rawId }) => {
       const id = extractIdFromUrl(rawId, 'templates');
       const response = await resend.templates.duplicate(id);
 
       if (response.error) {
-        throw new Error(
-          `Failed to duplicate template: ${JSON.stringify(response.error)}`,
+        return resendErrorResult(
+          'Failed to duplicate template',
+          response.error,
         );
       }
 
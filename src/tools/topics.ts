@@ -1,6 +1,14 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { Resend } from 'resend';
 import { z } from 'zod';
+import {
+  confirmInputShape,
+  describeResource,
+  lookupForSummary,
+  requireConfirmation,
+} from '../lib/confirm.js';
+import { dryRunInputShape, dryRunResult } from '../lib/dry-run.js';
+import { resendErrorResult } from '../lib/errors.js';
 
 export function addTopicTools(server: McpServer, resend: Resend) {
   server.registerTool(
@@ -26,6 +34,12 @@ export function addTopicTools(server: McpServer, resend: Resend) {
           .optional()
           .describe('Topic description (max 200 characters)'),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
     },
     async ({ name, defaultSubscription, description }) => {
       const response = await resend.topics.create({
@@ -35,9 +49,7 @@ export function addTopicTools(server: McpServer, resend: Resend) {
       });
 
       if (response.error) {
-        throw new Error(
-          `Failed to create topic: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to create topic', response.error);
       }
 
       const created = response.data;
@@ -55,16 +67,20 @@ export function addTopicTools(server: McpServer, resend: Resend) {
     {
       title: 'List Topics',
       description:
-        'List all topics from Resend. This tool is useful for getting topic IDs to use with other tools like send-email.',
+        'List all topics from Resend. The API returns every topic in one response, so there is no pagination. This tool is useful for getting topic IDs to use with other tools like send-email.',
       inputSchema: {},
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async () => {
       const response = await resend.topics.list();
 
       if (response.error) {
-        throw new Error(
-          `Failed to list topics: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to list topics', response.error);
       }
 
       const topics = response.data.data;
@@ -98,14 +114,18 @@ export function addTopicTools(server: McpServer, resend: Resend) {
       inputSchema: {
         id: z.string().nonempty().describe('Topic ID'),
       },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ id }) => {
       const response = await resend.topics.get(id);
 
       if (response.error) {
-        throw new Error(
-          `Failed to get topic: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to get topic', response.error);
       }
 
       const topic = response.data;
@@ -145,6 +165,12 @@ export function addTopicTools(server: McpServer, resend: Resend) {
           .optional()
           .describe('New topic description (max 200 characters)'),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ id, name, description }) => {
       const response = await resend.topics.update({
@@ -154,9 +180,7 @@ export function addTopicTools(server: McpServer, resend: Resend) {
       });
 
       if (response.error) {
-        throw new Error(
-          `Failed to update topic: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to update topic', response.error);
       }
 
       return {
@@ -176,15 +200,32 @@ export function addTopicTools(server: McpServer, resend: Resend) {
         'Remove a topic by ID from Resend. Before using this tool, you MUST double-check with the user that they want to remove this topic. Reference the NAME of the topic when double-checking, and warn the user that removing a topic is irreversible. You may only use this tool if the user explicitly confirms they want to remove the topic after you double-check.',
       inputSchema: {
         id: z.string().nonempty().describe('Topic ID'),
+        ...dryRunInputShape,
+        ...confirmInputShape,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ id }) => {
+    async ({ id, dryRun, confirm }) => {
+      if (dryRun) return dryRunResult('topics.remove', id);
+
+      const cancelled = await requireConfirmation(server, {
+        confirm,
+        summary: async () => {
+          const topic = await lookupForSummary(() => resend.topics.get(id));
+          return `Remove topic ${describeResource(id, topic?.name)} and all contact subscriptions to it. This cannot be undone.`;
+        },
+      });
+      if (cancelled) return cancelled;
+
       const response = await resend.topics.remove(id);
 
       if (response.error) {
-        throw new Error(
-          `Failed to remove topic: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to remove topic', response.error);
       }
 
       return {
@@ -1,6 +1,15 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { Resend } from 'resend';
 import { z } from 'zod';
+import {
+  confirmInputShape,
+  describeResource,
+  lookupForSummary,
+  requireConfirmation,
+} from '../lib/confirm.js';
+import { dryRunInputShape, dryRunResult } from '../lib/dry-run.js';
+import { resendErrorResult } from '../lib/errors.js';
+import { listPages, paginationInputShape } from '../lib/pagination.js';
 
 const webhookEventSchema = z.enum([
   'email.sent',
@@ -36,14 +45,18 @@ export function addWebhookTools(server: McpServer, resend: Resend) {
           .min(1)
           .describe('Array of event types to subscribe to'),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
     },
     async ({ endpoint, events }) => {
       const response = await resend.webhooks.create({ endpoint, events });
 
       if (response.error) {
-        throw new Error(
-          `Failed to create webhook: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to create webhook', response.error);
       }
 
       const created = response.data;
@@ -69,17 +82,62 @@ export function addWebhookTools(server: McpServer, resend: Resend) {
       title: 'List Webhooks',
       description:
         'List all webhooks from Resend. Use to get webhook IDs and see which endpoints and events are configured. Not for listing emails, segments, or broadcasts.',
-      inputSchema: {},
+      inputSchema: {
+        limit: z
+          .number()
+          .min(1)
+          .max(100)
+          .optional()
+          .describe(
+            'Number of webhooks to retrieve. Default: 20, Max: 100, Min: 1',
+          ),
+        after: z
+          .string()
+          .optional()
+          .describe(
+            'Webhook ID after which to retrieve more (for forward pagination). Cannot be used with "before".',
+          ),
+        before: z
+          .string()
+          .optional()
+          .describe(
+            'Webhook ID before which to retrieve more (for backward pagination). Cannot be used with "after".',
+          ),
+        ...paginationInputShape,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
-    async () => {
-      const response = await resend.webhooks.list();
-
-      if (response.error) {
+    async ({ limit, after, before, all, maxItems }, extra) => {
+      if (after && before) {
         throw new Error(
-          `Failed to list webhooks: ${JSON.stringify(response.error)}`,
+          'Cannot use both "after" and "before" parameters. Use only one for pagination.',
         );
       }
 
+      const paginationOptions = after
+        ? { limit, after }
+        : before
+          ? { limit, before }
+          : limit !== undefined
+            ? { limit }
+            : undefined;
+
+      const response = await listPages(
+        (page) => resend.webhooks.list(page ?? paginationOptions),
+        { all, maxItems, after, before },
+        extra,
+        'webhooks',
+      );
+
+      if (response.error) {
+        return resendErrorResult('Failed to list webhooks', response.error);
+      }
+
       const webhooks = response.data.data;
       return {
         content: [
@@ -91,6 +149,14 @@ export function addWebhookTools(server: McpServer, resend: Resend) {
             type: 'text' as const,
             text: `Endpoint: ${endpoint}\nStatus: ${status}\nEvents: ${events?.join(', ') ?? 'none'}\nID: ${id}\nCreated at: ${created_at}`,
           })),
+          ...(response.data.has_more
+            ? [
+                {
+                  type: 'text' as const,
+                  text: 'There are more webhooks available. Use the "after" parameter with the last ID to retrieve more.',
+                },
+              ]
+            : []),
         ],
       };
     },
@@ -104,14 +170,18 @@ export function addWebhookTools(server: McpServer, resend: Resend) {
       inputSchema: {
         webhookId: z.string().nonempty().describe('Webhook ID'),
       },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ webhookId }) => {
       const response = await resend.webhooks.get(webhookId);
 
       if (response.error) {
-        throw new Error(
-          `Failed to get webhook: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to get webhook', response.error);
       }
 
       const webhook = response.data;
@@ -148,6 +218,12 @@ export function addWebhookTools(server: McpServer, resend: Resend) {
           .optional()
           .describe('Webhook status'),
       },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ webhookId, endpoint, events, status }) => {
       const response = await resend.webhooks.update(webhookId, {
@@ -157,9 +233,7 @@ export function addWebhookTools(server: McpServer, resend: Resend) {
       });
 
       if (response.error) {
-        throw new Error(
-          `Failed to update webhook: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to update webhook', response.error);
       }
 
       return {
@@ -179,15 +253,34 @@ export function addWebhookTools(server: McpServer, resend: Resend) {
         'Remove a webhook by ID from Resend. Before using this tool, you MUST double-check with the user that they want to remove this webhook. Reference the ENDPOINT of the webhook when double-checking, and warn the user that removing a webhook is irreversible. You may only use this tool if the user explicitly confirms they want to remove the webhook after you double-check.',
       inputSchema: {
         webhookId: z.string().nonempty().describe('Webhook ID'),
+        ...dryRunInputShape,
+        ...confirmInputShape,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
       },
     },
-    async ({ webhookId }) => {
+    async ({ webhookId, dryRun, confirm }) => {
+      if (dryRun) return dryRunResult('webhooks.remove', webhookId);
+
+      const cancelled = await requireConfirmation(server, {
+        confirm,
+        summary: async () => {
+          const webhook = await lookupForSummary(() =>
+            resend.webhooks.get(webhookId),
+          );
+          return `Remove webhook ${describeResource(webhookId, webhook?.endpoint)}. Events will no longer be delivered to it.`;
+        },
+      });
+      if (cancelled) return cancelled;
+
       const response = await resend.webhooks.remove(webhookId);
 
       if (response.error) {
-        throw new Error(
-          `Failed to remove webhook: ${JSON.stringify(response.error)}`,
-        );
+        return resendErrorResult('Failed to remove webhook', response.error);
       }
 
       return {
@@ -1,13 +1,100 @@
 import { randomUUID } from 'node:crypto';
 import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { OAuthError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
+import {
+  getOAuthProtectedResourceMetadataUrl,
+  mcpAuthRouter,
+} from '@modelcontextprotocol/sdk/server/auth/router.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { createMcpExpressApp } from '@modelcontextprotocol/sdk/server/express.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
-import { Resend } from 'resend';
+import { createAccountClients } from '../lib/accounts.js';
+import { type EventStorage, scopeEventStore } from '../lib/event-store.js';
+import {
+  CONSENT_PATH,
+  OAUTH_SCOPES,
+  ResendOAuthProvider,
+  sendHtml,
+} from '../lib/oauth-provider.js';
+import { createPiiRedactor } from '../lib/pii-redaction.js';
+import {
+  DEFAULT_MAX_SESSIONS_PER_KEY,
+  DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS,
+  DEFAULT_SESSION_MAX_AGE_SECONDS,
+  type SessionLimits,
+  SessionRegistry,
+} from '../lib/session-registry.js';
 import { createMcpServer } from '../server.js';
 import type { ServerOptions } from '../types.js';
 
-const sessions: Record<string, StreamableHTTPServerTransport> = {};
+const UNAUTHORIZED_MESSAGE =
+  'Unauthorized: provide a Resend API key via Authorization: Bearer <key>';
+
+/** Address listened on by default: loopback only. */
+const DEFAULT_HOST = '127.0.0.1';
+
+/** Host names that always reach this machine. */
+const LOCALHOST_NAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/** Addresses that listen on every interface. */
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+/** Request headers browsers may send to /mcp, and response headers they may read. */
+const CORS_ALLOW_HEADERS =
+  'Authorization, Content-Type, Last-Event-ID, Mcp-Protocol-Version, Mcp-Session-Id';
+const CORS_EXPOSE_HEADERS = 'Mcp-Session-Id, WWW-Authenticate';
+
+/** How often expired sessions are closed. */
+const REAP_INTERVAL_MS = 60_000;
+
+const DEFAULT_SESSION_LIMITS: SessionLimits = {
+  idleTimeoutMs: DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS * 1000,
+  maxAgeMs: DEFAULT_SESSION_MAX_AGE_SECONDS * 1000,
+  maxPerKey: DEFAULT_MAX_SESSIONS_PER_KEY,
+};
+
+export interface HttpOptions {
+  /** Address to listen on (default: 127.0.0.1). */
+  host?: string;
+  /**
+   * Host header values to accept, protecting against DNS rebinding. Unset,
+   * the listening address, the OAuth issuer's host and the localhost names
+   * are accepted, except when listening on every interface.
+   */
+  allowedHosts?: string[];
+  /**
+   * Browser origins allowed to call /mcp, or `*` for any. They get CORS
+   * headers; requests from other origins are refused.
+   */
+  allowedOrigins?: string[];
+  /**
+   * Act as an OAuth 2.1 authorization server: clients sign in through a
+   * consent page and use access tokens instead of raw Resend API keys.
+   * `issuerUrl` is the server's public base URL.
+   */
+  oauth?: { issuerUrl: string };
+  /**
+   * Serve every POST with a fresh server and transport, without sessions, so
+   * any replica behind a load balancer can answer any request.
+   */
+  stateless?: boolean;
+  /**
+   * Keep sent SSE messages here, so clients reconnecting with
+   * `Last-Event-ID` get the ones they missed. Unset disables resumption.
+   */
+  eventStorage?: EventStorage;
+  /** Session timeouts and per-key cap (default: 30 min idle, 24 h, 10). */
+  sessionLimits?: SessionLimits;
+}
+
+type Next = (err?: unknown) => void;
+type AuthenticatedRequest = IncomingMessage & {
+  body?: unknown;
+  auth?: AuthInfo;
+};
 
 function sendJsonRpcError(
   res: ServerResponse,
@@ -36,31 +123,246 @@ function extractBearerToken(req: IncomingMessage): string | null {
   return token || null;
 }
 
+/** Read an application/x-www-form-urlencoded request body. */
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return new URLSearchParams(Buffer.concat(chunks).toString('utf8'));
+}
+
+/**
+ * Host names accepted without --allowed-hosts: the address listened on, the
+ * OAuth issuer's host and the localhost names. None when listening on every
+ * interface, since the names clients use can't be known.
+ */
+function defaultAllowedHosts(
+  host: string,
+  issuerUrl?: string,
+): string[] | undefined {
+  if (WILDCARD_HOSTS.includes(host)) return undefined;
+  const listening = host.includes(':') ? `[${host}]` : host;
+  const issuer = issuerUrl ? [new URL(issuerUrl).hostname] : [];
+  return [...new Set([listening, ...issuer, ...LOCALHOST_NAMES])];
+}
+
+/**
+ * Refuse browser requests to /mcp from origins not in `allowedOrigins`, and
+ * answer CORS preflights and add CORS headers for the ones that are. Requests
+ * without an Origin header, e.g. from desktop clients, always pass, and so
+ * do same-origin requests once `hostChecked`: otherwise a DNS rebinding page
+ * controls both the Origin and the Host header.
+ */
+function checkOrigin(allowedOrigins: string[], hostChecked: boolean) {
+  return (req: IncomingMessage, res: ServerResponse, next: Next) => {
+    const origin = req.headers.origin;
+    if (!origin) {
+      next();
+      return;
+    }
+    const sameOrigin =
+      hostChecked &&
+      URL.canParse(origin) &&
+      new URL(origin).host === req.headers.host;
+    if (
+      !sameOrigin &&
+      !allowedOrigins.includes('*') &&
+      !allowedOrigins.includes(origin)
+    ) {
+      sendJsonRpcError(res, 403, `Forbidden: origin ${origin} is not allowed`);
+      return;
+    }
+
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Expose-Headers', CORS_EXPOSE_HEADERS);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Methods': 'GET, POST, DELETE',
+        'Access-Control-Allow-Headers': CORS_ALLOW_HEADERS,
+        'Access-Control-Max-Age': '86400',
+      });
+      res.end();
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Install the OAuth endpoints: discovery metadata, client registration,
+ * authorize, token and revoke, plus the consent form. Returns middleware
+ * that only lets requests with a valid access token through.
+ */
+function installOAuth(
+  app: ReturnType<typeof createMcpExpressApp>,
+  issuerUrl: URL,
+): {
+  provider: ResendOAuthProvider;
+  authenticate: (req: IncomingMessage, res: ServerResponse, next: Next) => void;
+} {
+  const resourceUrl = new URL('/mcp', issuerUrl);
+  const provider = new ResendOAuthProvider({ resourceUrl });
+  app.use(
+    mcpAuthRouter({
+      provider,
+      issuerUrl,
+      resourceServerUrl: resourceUrl,
+      scopesSupported: [...OAUTH_SCOPES],
+      resourceName: 'Resend MCP',
+    }),
+  );
+
+  app.post(CONSENT_PATH, async (req: IncomingMessage, res: ServerResponse) => {
+    const form = await readForm(req);
+    try {
+      const outcome = provider.completeAuthorization(
+        form.get('request_id') ?? '',
+        {
+          approve: form.get('decision') === 'approve',
+          apiKey: form.get('api_key') ?? undefined,
+          allowWrite: form.get('allow_write') === 'true',
+        },
+      );
+      if ('page' in outcome) {
+        sendHtml(res, 400, outcome.page);
+      } else {
+        res.writeHead(302, { Location: outcome.redirectTo });
+        res.end();
+      }
+    } catch (err) {
+      sendHtml(
+        res,
+        400,
+        `<!doctype html><p>${err instanceof OAuthError ? err.message : 'Sign-in failed.'}</p>`,
+      );
+    }
+  });
+
+  return {
+    provider,
+    authenticate: requireBearerAuth({
+      verifier: provider,
+      requiredScopes: ['resend:read'],
+      resourceMetadataUrl: getOAuthProtectedResourceMetadataUrl(resourceUrl),
+    }),
+  };
+}
+
 /**
  * Start the HTTP transport. Each session gets its own Resend client created
  * from the Bearer token provided by the connecting client. This allows
  * remote deployment where each user authenticates with their own API key
- * instead of a single server-side key.
+ * instead of a single server-side key. In OAuth mode the Bearer token is an
+ * access token instead, mapped to the key the user entered when signing in.
+ * Sessions close after sitting idle or reaching their maximum age, and each
+ * API key may only hold a few at once, so abandoned sessions don't pile up.
+ * In stateless mode there are no sessions: each request is authenticated
+ * and served on its own.
  */
 export async function runHttp(
   options: ServerOptions,
   port: number,
+  {
+    host = DEFAULT_HOST,
+    allowedHosts = [],
+    allowedOrigins = [],
+    oauth,
+    stateless = false,
+    eventStorage,
+    sessionLimits = DEFAULT_SESSION_LIMITS,
+  }: HttpOptions = {},
 ): Promise<Server> {
-  const app = createMcpExpressApp();
+  const checkedHosts =
+    allowedHosts.length > 0
+      ? allowedHosts
+      : defaultAllowedHosts(host, oauth?.issuerUrl);
+  const app = createMcpExpressApp({
+    host,
+    ...(checkedHosts && { allowedHosts: checkedHosts }),
+  });
+  const sessions = new SessionRegistry<StreamableHTTPServerTransport>({
+    limits: sessionLimits,
+  });
+  const auth = oauth ? installOAuth(app, new URL(oauth.issuerUrl)) : undefined;
+  // Without OAuth, the Bearer token is checked when a session starts.
+  const authenticate =
+    auth?.authenticate ??
+    ((_req: IncomingMessage, _res: ServerResponse, next: Next) => next());
+
+  /** An MCP server with its own Resend client for the user behind `apiKey`. */
+  const createUserServer = (apiKey: string, authInfo?: AuthInfo) => {
+    const redactor = createPiiRedactor(options.redact);
+    const { resend, editorClient } = createAccountClients(
+      apiKey,
+      options.apiUrl,
+      { cacheTtlMs: options.cacheTtlMs, redactor },
+    );
+    // Tokens without resend:write only get read-only tools.
+    const readOnly =
+      options.readOnly ||
+      (authInfo !== undefined && !authInfo.scopes.includes('resend:write'));
+    return createMcpServer(
+      resend,
+      { ...options, editorClient, redactor, readOnly, multiUser: true },
+      apiKey,
+    );
+  };
 
   app.get('/health', (_req: IncomingMessage, res: ServerResponse) => {
     res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ status: 'ok' }));
+    res.end(
+      JSON.stringify(
+        stateless
+          ? { status: 'ok' }
+          : { status: 'ok', sessions: sessions.counts() },
+      ),
+    );
   });
 
   app.all(
     '/mcp',
-    async (req: IncomingMessage & { body?: unknown }, res: ServerResponse) => {
+    checkOrigin(allowedOrigins, checkedHosts !== undefined),
+    authenticate,
+    async (req: AuthenticatedRequest, res: ServerResponse) => {
+      // The Resend key behind the request: the Bearer token itself, or in
+      // OAuth mode the key the access token was issued for.
+      const apiKey = auth
+        ? req.auth && auth.provider.apiKeyFor(req.auth.token)
+        : extractBearerToken(req);
+      if (stateless) {
+        await handleStatelessRequest(req, res, apiKey);
+        return;
+      }
+
       const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      const session = sessionId ? sessions.get(sessionId) : undefined;
       let transport: StreamableHTTPServerTransport | undefined;
 
-      if (sessionId && sessions[sessionId]) {
-        transport = sessions[sessionId];
+      if (session) {
+        // A token only opens the sessions started with the same Resend key,
+        // so a leaked session ID is useless without the key.
+        if (session.apiKey !== apiKey) {
+          sendJsonRpcError(
+            res,
+            403,
+            'Forbidden: session belongs to another user',
+          );
+          return;
+        }
+        // The session's tools were chosen for the token that opened it, so a
+        // token with fewer scopes, e.g. read-only, may not reuse it.
+        const missing = session.scopes.filter(
+          (scope) => !req.auth?.scopes.includes(scope),
+        );
+        if (missing.length > 0) {
+          sendJsonRpcError(
+            res,
+            403,
+            `Forbidden: this session needs a token with ${missing.join(', ')}`,
+          );
+          return;
+        }
+        transport = session.value;
       } else if (
         !sessionId &&
         req.method === 'POST' &&
@@ -68,31 +370,43 @@ export async function runHttp(
       ) {
         // New session: require a Bearer token so we can create a per-session
         // Resend client scoped to this user's API key.
-        const apiKey = extractBearerToken(req);
         if (!apiKey) {
+          sendJsonRpcError(res, 401, UNAUTHORIZED_MESSAGE);
+          return;
+        }
+        // The slot is taken before anything is awaited, so concurrent
+        // initializations can't all pass the limit, and handed back if this
+        // one fails before the session is added.
+        const release = sessions.reserve(apiKey);
+        if (!release) {
           sendJsonRpcError(
             res,
-            401,
-            'Unauthorized: provide a Resend API key via Authorization: Bearer <key>',
+            429,
+            `Too many sessions: this API key already has ${sessionLimits.maxPerKey} open. Close one with DELETE /mcp or wait for it to expire`,
           );
           return;
         }
 
-        const resend = new Resend(apiKey);
-
-        transport = new StreamableHTTPServerTransport({
-          sessionIdGenerator: () => randomUUID(),
-          onsessioninitialized: (sid) => {
-            sessions[sid] = transport!;
-          },
-        });
-        transport.onclose = () => {
-          const sid = transport!.sessionId;
-          if (sid && sessions[sid]) delete sessions[sid];
-        };
-        const server = createMcpServer(resend, options, apiKey);
-        await server.connect(transport);
-      } else if (sessionId && !sessions[sessionId]) {
+        try {
+          transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            ...(eventStorage && { eventStore: scopeEventStore(eventStorage) }),
+            onsessioninitialized: (sid) => {
+              sessions.add(sid, apiKey, transport!, req.auth?.scopes);
+              release();
+            },
+          });
+          transport.onclose = () => {
+            const sid = transport!.sessionId;
+            if (sid) sessions.delete(sid);
+          };
+          await createUserServer(apiKey, req.auth).connect(transport);
+          await transport.handleRequest(req, res, req.body);
+        } finally {
+          release();
+        }
+        return;
+      } else if (sessionId) {
         res.statusCode = 404;
         res.setHeader('Content-Type', 'application/json');
         res.end(
@@ -112,23 +426,69 @@ export async function runHttp(
     },
   );
 
+  /**
+   * Serve one POST with a throwaway server and transport. The client is
+   * authenticated on every request, and nothing outlives the response.
+   */
+  async function handleStatelessRequest(
+    req: AuthenticatedRequest,
+    res: ServerResponse,
+    apiKey: string | null | undefined,
+  ): Promise<void> {
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      sendJsonRpcError(
+        res,
+        405,
+        'Method not allowed: this server is stateless, so only POST is supported',
+      );
+      return;
+    }
+    if (!apiKey) {
+      sendJsonRpcError(res, 401, UNAUTHORIZED_MESSAGE);
+      return;
+    }
+
+    const server = createUserServer(apiKey, req.auth);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+    });
+    res.on('close', () => {
+      void transport.close();
+      void server.close();
+    });
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  }
+
   return new Promise((resolve, reject) => {
-    const server = app.listen(port, () => {
-      console.error(`Resend MCP server listening on http://127.0.0.1:${port}`);
-      console.error('  Streamable HTTP: POST/GET/DELETE /mcp');
+    const server = app.listen(port, host, () => {
+      // Print the address actually bound, e.g. the port picked for port 0.
+      const bound = server.address() as AddressInfo;
+      const shown =
+        bound.family === 'IPv6' ? `[${bound.address}]` : bound.address;
+      console.error(
+        `Resend MCP server listening on http://${shown}:${bound.port}`,
+      );
+      console.error(
+        stateless
+          ? '  Streamable HTTP (stateless): POST /mcp'
+          : '  Streamable HTTP: POST/GET/DELETE /mcp',
+      );
+      if (oauth) {
+        console.error(`  OAuth 2.1: issuer ${new URL(oauth.issuerUrl).href}`);
+      }
       resolve(server);
     });
     server.once('error', reject);
 
+    // Abandoned sessions never send DELETE, so close them once they expire.
+    const reaper = setInterval(() => void sessions.reap(), REAP_INTERVAL_MS);
+    reaper.unref();
+    server.once('close', () => clearInterval(reaper));
+
     const shutdown = async () => {
-      for (const sid of Object.keys(sessions)) {
-        try {
-          await sessions[sid].close();
-        } catch {
-          // ignore
-        }
-        delete sessions[sid];
-      }
+      await sessions.closeAll();
       server.close();
       process.exit(0);
     };
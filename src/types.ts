@@ -1,4 +1,60 @@
+import type { AccountSwitcher } from './lib/accounts.js';
+import type { AuditLog } from './lib/audit-log.js';
+import type { PiiRedactor, RedactionField } from './lib/pii-redaction.js';
+import type { ResendEditorClient } from './lib/resend-editor-client.js';
+
 export interface ServerOptions {
   senderEmailAddress?: string;
   replierEmailAddresses: string[];
+  /** Tool and group names to register. Empty or missing registers all tools. */
+  tools?: string[];
+  /** Tool and group names to skip, applied after `tools`. */
+  excludeTools?: string[];
+  /** Only register tools annotated with `readOnlyHint: true`. */
+  readOnly?: boolean;
+  /**
+   * Run every call as a dry run: tools that take `dryRun` always preview their
+   * request, and other mutating tools are not registered.
+   */
+  dryRun?: boolean;
+  /**
+   * Several named accounts (stdio only). When set, tools call the active
+   * account and list-accounts / switch-account are registered.
+   */
+  accounts?: AccountSwitcher;
+  /** Resend API base URL for the editor client. Defaults to https://api.resend.com. */
+  apiUrl?: string;
+  /** Resend dashboard base URL, used to fetch the TipTap schema. Defaults to https://resend.com. */
+  dashboardUrl?: string;
+  /**
+   * How long each session caches GET responses, in milliseconds. 0 or unset
+   * disables the cache. Used wherever a session's clients are created.
+   */
+  cacheTtlMs?: number;
+  /**
+   * Editor client created together with the Resend client, sharing its
+   * response cache. Defaults to a new client without a cache.
+   */
+  editorClient?: ResendEditorClient;
+  /**
+   * Personal data to mask in tool outputs. Used wherever a session's
+   * clients are created, each session getting its own pseudonyms.
+   */
+  redact?: RedactionField[];
+  /**
+   * Redactor the Resend client masks responses with. Tool outputs are
+   * masked with it too, and pseudonyms in tool arguments restored.
+   */
+  redactor?: PiiRedactor;
+  /**
+   * Audit log every mutating tool call is appended to, shared by all
+   * sessions. When set, list-audit-entries is registered.
+   */
+  auditLog?: AuditLog;
+  /**
+   * Set when the server process serves several users (HTTP mode). Audit
+   * entries then record which API key made each call, and
+   * list-audit-entries only shows the caller's own.
+   */
+  multiUser?: boolean;
 }
@@ -1,3 +1,13 @@
 import packageJson from '../package.json' with { type: 'json' };
 
-process.env.RESEND_USER_AGENT = `resend-mcp:${packageJson.version}`;
+export const USER_AGENT = `resend-mcp:${packageJson.version}`;
+
+process.env.RESEND_USER_AGENT = USER_AGENT;
+
+/**
+ * The User-Agent for a request made during a tool call. The correlation ID
+ * matches the tool call's log line, and shows up in list-logs output.
+ */
+export function userAgentFor(correlationId?: string): string {
+  return correlationId ? `${USER_AGENT} (${correlationId})` : USER_AGENT;
+}
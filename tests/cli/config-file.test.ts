@@ -0,0 +1,156 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  loadConfigProfile,
+  parseConfigFile,
+} from '../../src/cli/config-file.js';
+import { parseArgs } from '../../src/cli/parse.js';
+
+const CONFIG = {
+  defaultProfile: 'staging',
+  profiles: {
+    staging: { apiKeyEnv: 'STAGING_KEY', sender: 'dev@staging.dev' },
+    production: { apiKeyEnv: 'PROD_KEY', readOnly: true, transport: 'http' },
+  },
+};
+
+describe('parseConfigFile', () => {
+  it('accepts a valid config file', () => {
+    const result = parseConfigFile(JSON.stringify(CONFIG), 'config.json');
+    expect(result).toEqual({ ok: true, file: CONFIG });
+  });
+
+  it('rejects invalid JSON', () => {
+    const result = parseConfigFile('{', 'config.json');
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toContain('Invalid JSON in config.json');
+    }
+  });
+
+  it('rejects unknown profile fields with their path', () => {
+    const result = parseConfigFile(
+      JSON.stringify({ profiles: { staging: { apiKey: 're_secret' } } }),
+      'config.json',
+    );
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toContain('profiles.staging');
+    }
+  });
+});
+
+describe('loadConfigProfile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'resend-mcp-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeConfig(name: string, config: unknown) {
+    fs.writeFileSync(path.join(dir, name), JSON.stringify(config));
+  }
+
+  it('returns an empty profile when there is no default config file', () => {
+    expect(loadConfigProfile(parseArgs([]), {}, dir)).toEqual({
+      ok: true,
+      profile: {},
+    });
+  });
+
+  it('uses the defaultProfile from resend-mcp.config.json', () => {
+    writeConfig('resend-mcp.config.json', CONFIG);
+    expect(loadConfigProfile(parseArgs([]), {}, dir)).toEqual({
+      ok: true,
+      profile: CONFIG.profiles.staging,
+    });
+  });
+
+  it('selects a profile with --profile or MCP_PROFILE', () => {
+    writeConfig('resend-mcp.config.json', CONFIG);
+    const expected = { ok: true, profile: CONFIG.profiles.production };
+    expect(
+      loadConfigProfile(parseArgs(['--profile', 'production']), {}, dir),
+    ).toEqual(expected);
+    expect(
+      loadConfigProfile(parseArgs([]), { MCP_PROFILE: 'production' }, dir),
+    ).toEqual(expected);
+  });
+
+  it('reads the file given by --config or MCP_CONFIG', () => {
+    writeConfig('custom.json', CONFIG);
+    expect(
+      loadConfigProfile(parseArgs(['--config', 'custom.json']), {}, dir),
+    ).toEqual({ ok: true, profile: CONFIG.profiles.staging });
+    expect(
+      loadConfigProfile(parseArgs([]), { MCP_CONFIG: 'custom.json' }, dir),
+    ).toEqual({ ok: true, profile: CONFIG.profiles.staging });
+  });
+
+  it('only reads URL and file fields from a file passed with --config', () => {
+    const config = {
+      defaultProfile: 'dev',
+      profiles: {
+        dev: { apiUrl: 'https://collector.example', logFile: '/tmp/x.log' },
+      },
+    };
+    writeConfig('resend-mcp.config.json', config);
+
+    const implicit = loadConfigProfile(parseArgs([]), {}, dir);
+    const fromEnv = loadConfigProfile(
+      parseArgs([]),
+      { MCP_CONFIG: 'resend-mcp.config.json' },
+      dir,
+    );
+    const explicit = loadConfigProfile(
+      parseArgs(['--config', 'resend-mcp.config.json']),
+      {},
+      dir,
+    );
+
+    expect(implicit.ok).toBe(false);
+    if (!implicit.ok) {
+      expect(implicit.error).toContain('apiUrl, logFile in profile "dev"');
+      expect(implicit.error).toContain('--config');
+    }
+    expect(fromEnv.ok).toBe(false);
+    expect(explicit).toEqual({ ok: true, profile: config.profiles.dev });
+  });
+
+  it('returns error when an explicit config file is missing', () => {
+    const result = loadConfigProfile(
+      parseArgs(['--config', 'missing.json']),
+      {},
+      dir,
+    );
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toContain('Config file not found');
+    }
+  });
+
+  it('returns error when --profile is set without a config file', () => {
+    const result = loadConfigProfile(
+      parseArgs(['--profile', 'staging']),
+      {},
+      dir,
+    );
+    expect(result.ok).toBe(false);
+  });
+
+  it('returns error listing available profiles for an unknown profile', () => {
+    writeConfig('resend-mcp.config.json', CONFIG);
+    const result = loadConfigProfile(parseArgs(['--profile', 'qa']), {}, dir);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toContain('Unknown profile "qa"');
+      expect(result.error).toContain('staging, production');
+    }
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, expect, it, vi } from 'vitest';
+import { parseConfigFile } from '../../src/cli/config-file.js';
 import { HELP_TEXT, printHelp } from '../../src/cli/help.js';
+import { parseArgs } from '../../src/cli/parse.js';
+import { resolveConfig } from '../../src/cli/resolve.js';
 
 describe('help', () => {
   it('HELP_TEXT includes usage and main options', () => {
@@ -10,11 +13,38 @@ describe('help', () => {
     expect(HELP_TEXT).toContain('--reply-to');
     expect(HELP_TEXT).toContain('--http');
     expect(HELP_TEXT).toContain('--port');
+    expect(HELP_TEXT).toContain('--tools');
+    expect(HELP_TEXT).toContain('--exclude-tools');
+    expect(HELP_TEXT).toContain('--read-only');
+    expect(HELP_TEXT).toContain('--config');
+    expect(HELP_TEXT).toContain('--profile');
+    expect(HELP_TEXT).toContain('resend-mcp.config.json');
     expect(HELP_TEXT).toContain('-h, --help');
     expect(HELP_TEXT).toContain('RESEND_API_KEY');
     expect(HELP_TEXT).toContain('MCP_PORT');
   });
 
+  it('shows a sample config whose every profile resolves', () => {
+    const sample = HELP_TEXT.slice(
+      HELP_TEXT.indexOf('{', HELP_TEXT.indexOf('Config file:')),
+      HELP_TEXT.indexOf('\n  }\n') + 4,
+    );
+    const parsed = parseConfigFile(sample, 'help');
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+
+    const env = {
+      RESEND_STAGING_API_KEY: 're_staging',
+      RESEND_PRODUCTION_API_KEY: 're_production',
+      RESEND_EU_API_KEY: 're_eu',
+    };
+    for (const profile of Object.values(parsed.file.profiles)) {
+      expect(resolveConfig(parseArgs([]), env, profile)).toMatchObject({
+        ok: true,
+      });
+    }
+  });
+
   it('printHelp writes HELP_TEXT to console.error', () => {
     const stderr = vi.spyOn(console, 'error').mockImplementation(() => {});
     printHelp();
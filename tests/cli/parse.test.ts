@@ -1,6 +1,10 @@
 import type { ParsedArgs } from 'minimist';
 import { describe, expect, it } from 'vitest';
-import { parseArgs, parseReplierAddresses } from '../../src/cli/parse.js';
+import {
+  parseArgs,
+  parseListOption,
+  parseReplierAddresses,
+} from '../../src/cli/parse.js';
 
 describe('parseArgs', () => {
   it('parses empty argv', () => {
@@ -45,10 +49,26 @@ describe('parseArgs', () => {
     expect(parseArgs(['--http']).http).toBe(true);
   });
 
+  it('parses --read-only as boolean', () => {
+    expect(parseArgs(['--read-only'])['read-only']).toBe(true);
+    expect(parseArgs([])['read-only']).toBe(false);
+  });
+
   it('parses --port', () => {
     const parsed = parseArgs(['--port', '8080']);
     expect(parsed.port).toBe('8080');
   });
+
+  it('parses --tools and --exclude-tools as strings', () => {
+    const parsed = parseArgs([
+      '--tools',
+      'emails,contacts',
+      '--exclude-tools',
+      'send-batch-emails',
+    ]);
+    expect(parsed.tools).toBe('emails,contacts');
+    expect(parsed['exclude-tools']).toBe('send-batch-emails');
+  });
 });
 
 describe('parseReplierAddresses', () => {
@@ -92,3 +112,40 @@ describe('parseReplierAddresses', () => {
     ).toEqual(['cli@x.com']);
   });
 });
+
+describe('parseListOption', () => {
+  it('splits a comma-separated argv value', () => {
+    const parsed: ParsedArgs = { _: [], tools: 'emails, contacts' };
+    expect(parseListOption(parsed, 'tools', undefined)).toEqual([
+      'emails',
+      'contacts',
+    ]);
+  });
+
+  it('flattens repeated argv values', () => {
+    const parsed: ParsedArgs = { _: [], tools: ['emails,logs', 'contacts'] };
+    expect(parseListOption(parsed, 'tools', undefined)).toEqual([
+      'emails',
+      'logs',
+      'contacts',
+    ]);
+  });
+
+  it('falls back to the env value when argv is not set', () => {
+    const parsed: ParsedArgs = { _: [] };
+    expect(parseListOption(parsed, 'tools', ' emails , ,logs ')).toEqual([
+      'emails',
+      'logs',
+    ]);
+  });
+
+  it('argv wins over env', () => {
+    const parsed: ParsedArgs = { _: [], tools: 'emails' };
+    expect(parseListOption(parsed, 'tools', 'contacts')).toEqual(['emails']);
+  });
+
+  it('returns empty array when neither argv nor env set', () => {
+    const parsed: ParsedArgs = { _: [] };
+    expect(parseListOption(parsed, 'tools', undefined)).toEqual([]);
+  });
+});
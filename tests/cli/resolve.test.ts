@@ -172,4 +172,599 @@ describe('resolveConfig', () => {
     if (invalid.ok) expect(invalid.config.port).toBe(3000);
     if (outOfRange.ok) expect(outOfRange.config.port).toBe(3000);
   });
+
+  it('defaults tools and excludeTools to empty lists', () => {
+    const result = resolveConfig(parseArgs(['--key', 're_x']), {});
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.config.tools).toEqual([]);
+      expect(result.config.excludeTools).toEqual([]);
+    }
+  });
+
+  it('resolves --tools and --exclude-tools', () => {
+    const result = resolveConfig(
+      parseArgs([
+        '--key',
+        're_x',
+        '--tools',
+        'emails,contacts',
+        '--exclude-tools',
+        'send-batch-emails',
+      ]),
+      {},
+    );
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.config.tools).toEqual(['emails', 'contacts']);
+      expect(result.config.excludeTools).toEqual(['send-batch-emails']);
+    }
+  });
+
+  it('uses MCP_TOOLS and MCP_EXCLUDE_TOOLS when flags not set', () => {
+    const result = resolveConfig(parseArgs(['--key', 're_x']), {
+      MCP_TOOLS: 'emails',
+      MCP_EXCLUDE_TOOLS: 'send-email',
+    });
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.config.tools).toEqual(['emails']);
+      expect(result.config.excludeTools).toEqual(['send-email']);
+    }
+  });
+
+  it('returns error for unknown tool or group names', () => {
+    const result = resolveConfig(
+      parseArgs(['--key', 're_x', '--tools', 'emails,not-a-tool']),
+      {},
+    );
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toContain('not-a-tool');
+    }
+  });
+
+  it('defaults readOnly to false', () => {
+    const result = resolveConfig(parseArgs(['--key', 're_x']), {});
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.config.readOnly).toBe(false);
+    }
+  });
+
+  it('enables readOnly from --read-only or MCP_READ_ONLY', () => {
+    const fromFlag = resolveConfig(
+      parseArgs(['--key', 're_x', '--read-only']),
+      {},
+    );
+    const fromEnv = resolveConfig(parseArgs(['--key', 're_x']), {
+      MCP_READ_ONLY: 'true',
+    });
+    expect(fromFlag.ok && fromFlag.config.readOnly).toBe(true);
+    expect(fromEnv.ok && fromEnv.config.readOnly).toBe(true);
+  });
+
+  it('uses config profile values when env and argv are unset', () => {
+    const result = resolveConfig(
+      parseArgs([]),
+      { RESEND_STAGING_KEY: 're_staging' },
+      {
+        apiKeyEnv: 'RESEND_STAGING_KEY',
+        sender: 'dev@staging.dev',
+        replyTo: ['support@staging.dev'],
+        tools: ['emails'],
+        excludeTools: ['send-batch-emails'],
+        readOnly: true,
+        transport: 'http',
+        port: 4000,
+        host: '10.0.0.5',
+        allowedHosts: ['MCP.internal'],
+        maxSessionsPerKey: 3,
+        cacheTtl: 10,
+        logFile: '/var/log/resend-mcp.log',
+        redact: ['emails'],
+        auditLog: 'audit.jsonl',
+      },
+    );
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.config).toEqual({
+        apiKey: 're_staging',
+        senderEmailAddress: 'dev@staging.dev',
+        replierEmailAddresses: ['support@staging.dev'],
+        transport: 'http',
+        port: 4000,
+        host: '10.0.0.5',
+        allowedHosts: ['mcp.internal'],
+        allowedOrigins: [],
+        oauth: false,
+        stateless: false,
+        sessionIdleTimeout: 1800,
+        sessionMaxAge: 86400,
+        maxSessionsPerKey: 3,
+        tools: ['emails'],
+        excludeTools: ['send-batch-emails'],
+        readOnly: true,
+        dryRun: false,
+        cacheTtl: 10,
+        logLevel: 'warn',
+        logFile: '/var/log/resend-mcp.log',
+        redact: ['emails'],
+        auditLog: 'audit.jsonl',
+      });
+    }
+  });
+
+  it('lets env override the config profile and argv override env, except for the profile API key', () => {
+    const profile = {
+      apiKeyEnv: 'RESEND_STAGING_KEY',
+      sender: 'profile@r.dev',
+      tools: ['logs'],
+      readOnly: true,
+      port: 4000,
+    };
+    const env = {
+      RESEND_STAGING_KEY: 're_profile',
+      RESEND_API_KEY: 're_env',
+      SENDER_EMAIL_ADDRESS: 'env@r.dev',
+      MCP_TOOLS: 'emails',
+      MCP_READ_ONLY: 'false',
+      MCP_PORT: '5000',
+    };
+
+    const fromEnv = resolveConfig(parseArgs([]), env, profile);
+    expect(fromEnv.ok).toBe(true);
+    if (fromEnv.ok) {
+      expect(fromEnv.config.apiKey).toBe('re_profile');
+      expect(fromEnv.config.senderEmailAddress).toBe('env@r.dev');
+      expect(fromEnv.config.tools).toEqual(['emails']);
+      expect(fromEnv.config.readOnly).toBe(false);
+      expect(fromEnv.config.port).toBe(5000);
+    }
+
+    const fromArgv = resolveConfig(
+      parseArgs(['--key', 're_arg', '--sender', 'arg@r.dev', '--port', '6000']),
+      env,
+      profile,
+    );
+    expect(fromArgv.ok).toBe(true);
+    if (fromArgv.ok) {
+      expect(fromArgv.config.apiKey).toBe('re_arg');
+      expect(fromArgv.config.senderEmailAddress).toBe('arg@r.dev');
+      expect(fromArgv.config.port).toBe(6000);
+    }
+  });
+
+  it('falls back to RESEND_API_KEY when the profile key variable is unset', () => {
+    const result = resolveConfig(
+      parseArgs([]),
+      { RESEND_API_KEY: 're_env' },
+      { apiKeyEnv: 'RESEND_STAGING_KEY' },
+    );
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.config.apiKey).toBe('re_env');
+  });
+
+  it('names the profile API key variable when it is unset', () => {
+    const result = resolveConfig(parseArgs([]), {}, { apiKeyEnv: 'PROD_KEY' });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toContain('PROD_KEY');
+    }
+  });
+
+  it('validates tool names coming from the config profile', () => {
+    const result = resolveConfig(
+      parseArgs(['--key', 're_x']),
+      {},
+      {
+        tools: ['nope'],
+      },
+    );
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toContain('nope');
+    }
+  });
+
+  it('resolves named accounts from --account, keeping --key as default', () => {
+    const result = resolveConfig(
+      parseArgs(['--key', 're_main', '--account', 'eu=re_eu']),
+      {},
+    );
+    expect(result.ok).toBe(true);
+    if (result.ok && result.config.transport === 'stdio') {
+      expect(result.config.apiKey).toBe('re_main');
+      expect(result.config.accounts).toEqual([
+        { name: 'default', apiKey: 're_main' },
+        { name: 'eu', apiKey: 're_eu' },
+      ]);
+    }
+  });
+
+  it('does not require --key when accounts are configured', () => {
+    const result = resolveConfig(parseArgs([]), {
+      RESEND_ACCOUNTS: 'us=re_us, eu=re_eu',
+    });
+    expect(result.ok).toBe(true);
+    if (result.ok && result.config.transport === 'stdio') {
+      expect(result.config.apiKey).toBe('re_us');
+      expect(result.config.accounts.map(({ name }) => name)).toEqual([
+        'us',
+        'eu',
+      ]);
+    }
+  });
+
+  it('resolves accounts from the config profile env vars', () => {
+    const result = resolveConfig(
+      parseArgs([]),
+      { US_KEY: 're_us' },
+      { accounts: { us: 'US_KEY' } },
+    );
+    expect(result.ok && result.config.transport === 'stdio').toBe(true);
+    if (result.ok && result.config.transport === 'stdio') {
+      expect(result.config.accounts).toEqual([{ name: 'us', apiKey: 're_us' }]);
+    }
+
+    const missing = resolveConfig(
+      parseArgs([]),
+      {},
+      { accounts: { us: 'US_KEY' } },
+    );
+    expect(missing.ok).toBe(false);
+    if (!missing.ok) {
+      expect(missing.error).toContain('US_KEY');
+    }
+  });
+
+  it('rejects malformed, duplicate and HTTP-mode accounts', () => {
+    const malformed = resolveConfig(parseArgs(['--account', 're_only']), {});
+    const duplicate = resolveConfig(
+      parseArgs(['--account', 'a=re_1', '--account', 'a=re_2']),
+      {},
+    );
+    const http = resolveConfig(
+      parseArgs(['--http', '--account', 'a=re_1']),
+      {},
+    );
+    expect(malformed.ok).toBe(false);
+    if (!malformed.ok) {
+      expect(malformed.error).not.toContain('re_only');
+    }
+    expect(duplicate.ok).toBe(false);
+    expect(http.ok).toBe(false);
+  });
+
+  it('names the profile fields when a profile combines accounts with HTTP', () => {
+    const result = resolveConfig(
+      parseArgs([]),
+      { RESEND_EU_API_KEY: 're_eu' },
+      { transport: 'http', accounts: { eu: 'RESEND_EU_API_KEY' } },
+    );
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toContain('the config profile\'s "accounts"');
+      expect(result.error).toContain('"transport": "http"');
+    }
+  });
+
+  it('enables dryRun from --dry-run, MCP_DRY_RUN or the config profile', () => {
+    const fromFlag = resolveConfig(
+      parseArgs(['--key', 're_x', '--dry-run']),
+      {},
+    );
+    const fromEnv = resolveConfig(parseArgs(['--key', 're_x']), {
+      MCP_DRY_RUN: 'TRUE',
+    });
+    const fromProfile = resolveConfig(
+      parseArgs(['--key', 're_x']),
+      {},
+      { dryRun: true },
+    );
+    const envOverridesProfile = resolveConfig(
+      parseArgs(['--key', 're_x']),
+      { MCP_DRY_RUN: 'false' },
+      { dryRun: true },
+    );
+    expect(fromFlag.ok && fromFlag.config.dryRun).toBe(true);
+    expect(fromEnv.ok && fromEnv.config.dryRun).toBe(true);
+    expect(fromProfile.ok && fromProfile.config.dryRun).toBe(true);
+    expect(envOverridesProfile.ok && envOverridesProfile.config.dryRun).toBe(
+      false,
+    );
+  });
+
+  it('resolves --api-url and --dashboard-url over env and profile', () => {
+    const fromFlags = resolveConfig(
+      parseArgs([
+        '--key',
+        're_x',
+        '--api-url',
+        'http://127.0.0.1:4010/',
+        '--dashboard-url',
+        'http://127.0.0.1:4011',
+      ]),
+      { RESEND_API_URL: 'http://env.test' },
+      { apiUrl: 'http://profile.test' },
+    );
+    const fromEnv = resolveConfig(
+      parseArgs(['--key', 're_x']),
+      { RESEND_API_URL: 'http://env.test' },
+      { apiUrl: 'http://profile.test', dashboardUrl: 'http://dash.test' },
+    );
+    const unset = resolveConfig(parseArgs(['--key', 're_x']), {});
+
+    expect(fromFlags.ok && fromFlags.config).toMatchObject({
+      apiUrl: 'http://127.0.0.1:4010',
+      dashboardUrl: 'http://127.0.0.1:4011',
+    });
+    expect(fromEnv.ok && fromEnv.config).toMatchObject({
+      apiUrl: 'http://env.test',
+      dashboardUrl: 'http://dash.test',
+    });
+    expect(unset.ok && unset.config.apiUrl).toBeUndefined();
+  });
+
+  it('resolves --cache-ttl over env and profile, defaulting to off', () => {
+    const fromFlag = resolveConfig(
+      parseArgs(['--key', 're_x', '--cache-ttl', '0']),
+      { MCP_CACHE_TTL: '60' },
+    );
+    const fromEnv = resolveConfig(
+      parseArgs(['--key', 're_x']),
+      { MCP_CACHE_TTL: '60' },
+      { cacheTtl: 5 },
+    );
+    const fromProfile = resolveConfig(
+      parseArgs(['--key', 're_x']),
+      {},
+      { cacheTtl: 5 },
+    );
+    const unset = resolveConfig(parseArgs(['--key', 're_x']), {});
+
+    expect(fromFlag.ok && fromFlag.config.cacheTtl).toBe(0);
+    expect(fromEnv.ok && fromEnv.config.cacheTtl).toBe(60);
+    expect(fromProfile.ok && fromProfile.config.cacheTtl).toBe(5);
+    expect(unset.ok && unset.config.cacheTtl).toBe(0);
+    expect(
+      resolveConfig(parseArgs(['--key', 're_x', '--cache-ttl', '1.5']), {}),
+    ).toEqual({
+      ok: false,
+      error:
+        'Invalid --cache-ttl "1.5". Use a whole number of seconds, or 0 to disable the cache',
+    });
+  });
+
+  it('resolves --log-level over env and profile and rejects unknown levels', () => {
+    const fromFlag = resolveConfig(
+      parseArgs([
+        '--key',
+        're_x',
+        '--log-level',
+        'DEBUG',
+        '--log-file',
+        'a.log',
+      ]),
+      { MCP_LOG_LEVEL: 'info' },
+    );
+    const fromEnv = resolveConfig(
+      parseArgs(['--key', 're_x']),
+      { MCP_LOG_LEVEL: 'info', MCP_LOG_FILE: 'b.log' },
+      { logLevel: 'error', logFile: 'c.log' },
+    );
+
+    expect(fromFlag.ok && fromFlag.config).toMatchObject({
+      logLevel: 'debug',
+      logFile: 'a.log',
+    });
+    expect(fromEnv.ok && fromEnv.config).toMatchObject({
+      logLevel: 'info',
+      logFile: 'b.log',
+    });
+    expect(
+      resolveConfig(parseArgs(['--key', 're_x', '--log-level', 'verbose']), {}),
+    ).toEqual({
+      ok: false,
+      error:
+        'Invalid --log-level "verbose". Use one of: error, warn, info, debug',
+    });
+  });
+
+  it('resolves --redact over env and profile and rejects unknown fields', () => {
+    const fromFlag = resolveConfig(
+      parseArgs([
+        '--key',
+        're_x',
+        '--redact',
+        'Emails,names',
+        '--redact',
+        'emails',
+      ]),
+      { MCP_REDACT: 'bodies' },
+    );
+    const fromEnv = resolveConfig(
+      parseArgs(['--key', 're_x']),
+      { MCP_REDACT: 'bodies, properties' },
+      { redact: ['names'] },
+    );
+
+    expect(fromFlag.ok && fromFlag.config.redact).toEqual(['emails', 'names']);
+    expect(fromEnv.ok && fromEnv.config.redact).toEqual([
+      'bodies',
+      'properties',
+    ]);
+    expect(
+      resolveConfig(parseArgs(['--key', 're_x', '--redact', 'phones']), {}),
+    ).toEqual({
+      ok: false,
+      error:
+        'Invalid --redact "phones". Use any of: emails, names, bodies, properties',
+    });
+  });
+
+  it('enables OAuth in HTTP mode only, with an optional public URL', () => {
+    const result = resolveConfig(
+      parseArgs([
+        '--http',
+        '--oauth',
+        '--public-url',
+        'https://mcp.example.com/',
+      ]),
+      {},
+    );
+    const fromEnv = resolveConfig(parseArgs(['--http']), { MCP_OAUTH: 'true' });
+
+    expect(result.ok && result.config).toMatchObject({
+      oauth: true,
+      publicUrl: 'https://mcp.example.com',
+    });
+    expect(fromEnv.ok && fromEnv.config).toMatchObject({ oauth: true });
+    expect(resolveConfig(parseArgs(['--key', 're_x', '--oauth']), {})).toEqual({
+      ok: false,
+      error: 'OAuth is only supported in HTTP mode. Add --http',
+    });
+  });
+
+  it('enables stateless HTTP mode, but not with OAuth, redaction or stdio', () => {
+    const fromFlag = resolveConfig(parseArgs(['--http', '--stateless']), {});
+    const fromEnv = resolveConfig(parseArgs(['--http']), {
+      MCP_STATELESS: 'true',
+    });
+
+    expect(fromFlag.ok && fromFlag.config).toMatchObject({ stateless: true });
+    expect(fromEnv.ok && fromEnv.config).toMatchObject({ stateless: true });
+    expect(
+      resolveConfig(parseArgs(['--key', 're_x', '--stateless']), {}),
+    ).toEqual({
+      ok: false,
+      error: 'Stateless mode is only supported in HTTP mode. Add --http',
+    });
+    expect(
+      resolveConfig(parseArgs(['--http', '--stateless', '--oauth']), {}),
+    ).toMatchObject({ ok: false, error: expect.stringContaining('--oauth') });
+    expect(
+      resolveConfig(
+        parseArgs(['--http', '--stateless', '--redact', 'emails']),
+        {},
+      ),
+    ).toMatchObject({ ok: false, error: expect.stringContaining('--redact') });
+  });
+
+  it('selects an event store in HTTP mode, but not stateless or over stdio', () => {
+    const fromFlag = resolveConfig(
+      parseArgs(['--http', '--event-store', 'memory']),
+      { MCP_EVENT_STORE: 'events.jsonl' },
+    );
+    const fromEnv = resolveConfig(parseArgs(['--http']), {
+      MCP_EVENT_STORE: 'events.jsonl',
+    });
+    const unset = resolveConfig(parseArgs(['--http']), {});
+
+    expect(fromFlag.ok && fromFlag.config).toMatchObject({
+      eventStore: 'memory',
+    });
+    expect(fromEnv.ok && fromEnv.config).toMatchObject({
+      eventStore: 'events.jsonl',
+    });
+    expect(unset.ok && unset.config).not.toHaveProperty('eventStore');
+    expect(
+      resolveConfig(
+        parseArgs(['--key', 're_x', '--event-store', 'memory']),
+        {},
+      ),
+    ).toEqual({
+      ok: false,
+      error: 'Event stores are only supported in HTTP mode. Add --http',
+    });
+    expect(
+      resolveConfig(
+        parseArgs(['--http', '--stateless', '--event-store', 'memory']),
+        {},
+      ),
+    ).toMatchObject({
+      ok: false,
+      error: expect.stringContaining('--stateless'),
+    });
+  });
+
+  it('resolves the HTTP host, allowed hosts and allowed origins', () => {
+    const result = resolveConfig(
+      parseArgs([
+        '--http',
+        '--host',
+        '0.0.0.0',
+        '--allowed-origins',
+        'https://app.example.com/,http://localhost:6274',
+      ]),
+      { MCP_ALLOWED_HOSTS: 'mcp.internal, localhost', MCP_HOST: '::' },
+    );
+    const unset = resolveConfig(parseArgs(['--http']), {});
+
+    expect(result.ok && result.config).toMatchObject({
+      host: '0.0.0.0',
+      allowedHosts: ['mcp.internal', 'localhost'],
+      allowedOrigins: ['https://app.example.com', 'http://localhost:6274'],
+    });
+    expect(unset.ok && unset.config).toMatchObject({
+      host: '127.0.0.1',
+      allowedHosts: [],
+      allowedOrigins: [],
+    });
+    expect(
+      resolveConfig(parseArgs(['--http', '--allowed-origins', 'app.com']), {}),
+    ).toEqual({
+      ok: false,
+      error:
+        'Invalid --allowed-origins "app.com". Use origins like https://app.example.com, or * for any',
+    });
+    expect(
+      resolveConfig(parseArgs(['--key', 're_x', '--host', '0.0.0.0']), {}),
+    ).toMatchObject({ ok: false, error: expect.stringContaining('--http') });
+  });
+
+  it('resolves HTTP session limits over env and profile, with 0 disabling them', () => {
+    const result = resolveConfig(
+      parseArgs([
+        '--http',
+        '--session-idle-timeout',
+        '0',
+        '--max-sessions-per-key',
+        '2',
+      ]),
+      { MCP_SESSION_IDLE_TIMEOUT: '60', MCP_SESSION_MAX_AGE: '3600' },
+      { sessionMaxAge: 7200, maxSessionsPerKey: 5 },
+    );
+
+    expect(result.ok && result.config).toMatchObject({
+      sessionIdleTimeout: 0,
+      sessionMaxAge: 3600,
+      maxSessionsPerKey: 2,
+    });
+    expect(
+      resolveConfig(parseArgs(['--http', '--session-max-age', '1h']), {}),
+    ).toEqual({
+      ok: false,
+      error:
+        'Invalid --session-max-age "1h". Use a whole number of seconds, or 0 for no limit',
+    });
+  });
+
+  it('rejects base URLs that are not http(s)', () => {
+    const result = resolveConfig(
+      parseArgs(['--key', 're_x', '--api-url', 'ftp://example.com']),
+      {},
+    );
+    expect(result).toEqual({
+      ok: false,
+      error:
+        'Invalid --api-url "ftp://example.com". Use an http:// or https:// URL',
+    });
+    expect(
+      resolveConfig(parseArgs(['--key', 're_x']), {
+        RESEND_DASHBOARD_URL: 'not a url',
+      }).ok,
+    ).toBe(false);
+  });
 });
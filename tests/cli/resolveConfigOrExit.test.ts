@@ -55,6 +55,14 @@ describe('resolveConfigOrExit', () => {
       replierEmailAddresses: [],
       transport: 'stdio',
       port: 3000,
+      tools: [],
+      excludeTools: [],
+      readOnly: false,
+      dryRun: false,
+      cacheTtl: 0,
+      logLevel: 'warn',
+      redact: [],
+      accounts: [],
     });
     expect(exitSpy).not.toHaveBeenCalled();
   });
@@ -0,0 +1,363 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ElicitRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AccountSwitcher, createAccountClients } from '../src/lib/accounts.js';
+import { AuditLog } from '../src/lib/audit-log.js';
+import { PiiRedactor } from '../src/lib/pii-redaction.js';
+import { createResendClient } from '../src/lib/resend-client.js';
+import { createMcpServer } from '../src/server.js';
+import {
+  type FakeResendServer,
+  startFakeResendServer,
+} from './support/fake-resend-server.js';
+
+/**
+ * End-to-end tests: real tool handlers and real HTTP clients, talking to the
+ * fake Resend server instead of the network.
+ */
+describe('tools against a fake Resend API', () => {
+  let fake: FakeResendServer;
+  let client: Client;
+
+  beforeEach(async () => {
+    fake = await startFakeResendServer();
+    const server = createMcpServer(
+      createResendClient('re_e2e', fake.url),
+      {
+        senderEmailAddress: 'sender@test.dev',
+        replierEmailAddresses: [],
+        apiUrl: fake.url,
+        dashboardUrl: fake.url,
+      },
+      're_e2e',
+    );
+    client = new Client({ name: 'e2e-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+    await client.listTools();
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fake.close();
+  });
+
+  function texts(result: Awaited<ReturnType<Client['callTool']>>): string {
+    return (result.content as { type: string; text?: string }[])
+      .map(({ text }) => text ?? '')
+      .join('\n');
+  }
+
+  it('creates, lists and removes a segment', async () => {
+    const created = await client.callTool({
+      name: 'create-segment',
+      arguments: { name: 'Newsletter' },
+    });
+    const [segment] = fake.list('segments');
+    const listed = await client.callTool({
+      name: 'list-segments',
+      arguments: {},
+    });
+    const removed = await client.callTool({
+      name: 'remove-segment',
+      arguments: { id: segment.id, confirm: true },
+    });
+
+    expect(texts(created)).toContain(`Name: Newsletter\nID: ${segment.id}`);
+    expect(texts(listed)).toContain('Found 1 segment:');
+    expect(removed.isError).toBeFalsy();
+    expect(fake.list('segments')).toEqual([]);
+    expect(fake.requests.every(({ apiKey }) => apiKey === 're_e2e')).toBe(true);
+  });
+
+  it('sends an email with the default sender', async () => {
+    const result = await client.callTool({
+      name: 'send-email',
+      arguments: {
+        to: ['someone@test.dev'],
+        subject: 'Hello',
+        text: 'Hi there',
+      },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(fake.requests).toEqual([
+      expect.objectContaining({
+        method: 'POST',
+        path: '/emails',
+        body: expect.objectContaining({
+          from: 'sender@test.dev',
+          to: ['someone@test.dev'],
+          subject: 'Hello',
+          text: 'Hi there',
+        }),
+      }),
+    ]);
+  });
+
+  it('surfaces API errors from the server', async () => {
+    const result = await client.callTool({
+      name: 'get-segment',
+      arguments: { id: 'seg_missing' },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(texts(result)).toContain('not_found');
+  });
+
+  it('routes editor and dashboard calls to the configured URLs', async () => {
+    const result = await client.callTool({
+      name: 'get-tiptap-json-content',
+      arguments: { resource_type: 'broadcast', resource_id: 'bc_1' },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(texts(result)).toContain('Fake TipTap schema');
+    expect(
+      fake.requests.map(({ method, path }) => `${method} ${path}`),
+    ).toEqual([
+      'POST /editor/connections',
+      'GET /editor/content',
+      'GET /api/agent/prompt',
+    ]);
+  });
+});
+
+describe('tools with PII redaction', () => {
+  let fake: FakeResendServer;
+  let client: Client;
+
+  beforeEach(async () => {
+    fake = await startFakeResendServer();
+    const redactor = new PiiRedactor(['emails', 'names']);
+    const server = createMcpServer(
+      createResendClient('re_e2e', fake.url, { redactor }),
+      { replierEmailAddresses: [], redactor },
+      're_e2e',
+    );
+    client = new Client({ name: 'e2e-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fake.close();
+  });
+
+  it('shows pseudonyms and acts on the records they stand for', async () => {
+    fake.seed('contacts', {
+      id: 'ct_1',
+      email: 'ada@example.com',
+      first_name: 'Ada',
+      last_name: 'Lovelace',
+      unsubscribed: false,
+    });
+
+    const listed = await client.callTool({
+      name: 'list-contacts',
+      arguments: {},
+    });
+    const listedText = JSON.stringify(listed);
+    const [email] =
+      listedText.match(/user-[\da-f]{10}@redacted\.invalid/) ?? [];
+    const removed = await client.callTool({
+      name: 'remove-contact',
+      arguments: { email, confirm: true },
+    });
+
+    expect(listedText).not.toMatch(/ada@example\.com|Ada|Lovelace/);
+    expect(decodeURIComponent(fake.requests.at(-1)?.path ?? '')).toBe(
+      '/contacts/ada@example.com',
+    );
+    // The fake only finds contacts by ID, so its error echoes the address.
+    expect(removed.isError).toBe(true);
+    expect(JSON.stringify(removed)).toContain(email);
+    expect(JSON.stringify(removed)).not.toContain('ada@example.com');
+  });
+});
+
+describe('tools with an audit log', () => {
+  let fake: FakeResendServer;
+  let auditLog: AuditLog;
+  let client: Client;
+  let dir: string;
+  const clients: Client[] = [];
+
+  /**
+   * Connect a client to its own server sharing the audit log, as sessions do.
+   * `decline` makes the client answer every confirmation prompt with no.
+   */
+  async function connect(
+    options: {
+      apiKey?: string;
+      multiUser?: boolean;
+      decline?: boolean;
+      accounts?: AccountSwitcher;
+    } = {},
+  ): Promise<Client> {
+    const apiKey = options.apiKey ?? 're_e2e';
+    const server = createMcpServer(
+      createResendClient(apiKey, fake.url),
+      {
+        replierEmailAddresses: [],
+        auditLog,
+        multiUser: options.multiUser,
+        accounts: options.accounts,
+      },
+      apiKey,
+    );
+    const connected = new Client(
+      { name: 'e2e-client', version: '1.0.0' },
+      options.decline ? { capabilities: { elicitation: {} } } : {},
+    );
+    if (options.decline) {
+      connected.setRequestHandler(ElicitRequestSchema, () => ({
+        action: 'decline',
+      }));
+    }
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      server.connect(serverTransport),
+      connected.connect(clientTransport),
+    ]);
+    await connected.listTools();
+    clients.push(connected);
+    return connected;
+  }
+
+  beforeEach(async () => {
+    fake = await startFakeResendServer();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'resend-mcp-audit-'));
+    auditLog = new AuditLog(path.join(dir, 'audit.jsonl'));
+    client = await connect();
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((connected) => connected.close()));
+    await fake.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function listEntries(from: Client, args = {}) {
+    const result = await from.callTool({
+      name: 'list-audit-entries',
+      arguments: args,
+    });
+    return (result.structuredContent as { entries: Record<string, unknown>[] })
+      .entries;
+  }
+
+  it('records mutating calls and finds them by resource ID', async () => {
+    await client.callTool({
+      name: 'create-segment',
+      arguments: { name: 'Newsletter' },
+    });
+    await client.callTool({ name: 'list-segments', arguments: {} });
+    const [segment] = fake.list('segments');
+
+    expect(await listEntries(client, { resourceId: segment.id })).toEqual([
+      {
+        time: expect.any(String),
+        tool: 'create-segment',
+        client: 'e2e-client',
+        correlationId: expect.any(String),
+        arguments: { name: 'Newsletter' },
+        resourceIds: [segment.id],
+        outcome: 'ok',
+      },
+    ]);
+    expect(await listEntries(client)).toHaveLength(1);
+  });
+
+  it('records dry runs and calls the user declined as such', async () => {
+    const decliner = await connect({ decline: true });
+    await client.callTool({
+      name: 'remove-segment',
+      arguments: { id: 'seg_1', dryRun: true },
+    });
+    await decliner.callTool({
+      name: 'remove-segment',
+      arguments: { id: 'seg_2' },
+    });
+
+    expect(await listEntries(client)).toMatchObject([
+      { arguments: { id: 'seg_2' }, outcome: 'cancelled' },
+      { arguments: { id: 'seg_1' }, outcome: 'ok', dryRun: true },
+    ]);
+  });
+
+  it('records which account a call went to', async () => {
+    const accounts = new AccountSwitcher(
+      [
+        { name: 'us', apiKey: 're_us' },
+        { name: 'eu', apiKey: 're_eu' },
+      ],
+      (apiKey) => createAccountClients(apiKey, fake.url),
+    );
+    const multi = await connect({ accounts });
+    await multi.callTool({
+      name: 'create-segment',
+      arguments: { name: 'US list' },
+    });
+    await multi.callTool({ name: 'switch-account', arguments: { name: 'eu' } });
+    await multi.callTool({
+      name: 'create-segment',
+      arguments: { name: 'EU list' },
+    });
+
+    expect(await listEntries(multi)).toMatchObject([
+      { arguments: { name: 'EU list' }, account: 'eu' },
+      { arguments: { name: 'US list' }, account: 'us' },
+    ]);
+  });
+
+  it('only records the manage-events actions that change something', async () => {
+    await client.callTool({
+      name: 'manage-events',
+      arguments: { action: 'create', name: 'user.created' },
+    });
+    await client.callTool({
+      name: 'manage-events',
+      arguments: { action: 'list' },
+    });
+    await client.callTool({
+      name: 'manage-events',
+      arguments: { action: 'get', identifier: 'user.created' },
+    });
+
+    expect(await listEntries(client)).toMatchObject([
+      { tool: 'manage-events', arguments: { action: 'create' } },
+    ]);
+  });
+
+  it('only lists the caller’s own entries on a shared server, without session or key IDs', async () => {
+    const alice = await connect({ apiKey: 're_alice', multiUser: true });
+    const bob = await connect({ apiKey: 're_bob', multiUser: true });
+    await alice.callTool({
+      name: 'create-segment',
+      arguments: { name: 'Alice' },
+    });
+    await bob.callTool({ name: 'create-segment', arguments: { name: 'Bob' } });
+
+    const entries = await listEntries(bob);
+
+    expect(entries).toMatchObject([{ arguments: { name: 'Bob' } }]);
+    expect(entries[0]).not.toHaveProperty('apiKeyId');
+    expect(entries[0]).not.toHaveProperty('sessionId');
+    expect(JSON.stringify(auditLog.query())).not.toContain('re_bob');
+  });
+});
@@ -0,0 +1,59 @@
+import type { Resend } from 'resend';
+import { describe, expect, it } from 'vitest';
+import { AccountSwitcher } from '../../src/lib/accounts.js';
+import type { ResendEditorClient } from '../../src/lib/resend-editor-client.js';
+
+function fakeClients(apiKey: string) {
+  return {
+    resend: {
+      apiKey,
+      emails: { describe: () => apiKey },
+    } as unknown as Resend,
+    editorClient: {
+      apiKey,
+      whoAmI() {
+        return this.apiKey;
+      },
+    } as unknown as ResendEditorClient,
+  };
+}
+
+const ACCOUNTS = [
+  { name: 'us', apiKey: 're_us' },
+  { name: 'eu', apiKey: 're_eu' },
+];
+
+describe('AccountSwitcher', () => {
+  it('starts on the first account', () => {
+    const accounts = new AccountSwitcher(ACCOUNTS, fakeClients);
+    expect(accounts.activeAccount).toBe('us');
+    expect(accounts.accountNames).toEqual(['us', 'eu']);
+  });
+
+  it('routes client calls to the active account', () => {
+    const accounts = new AccountSwitcher(ACCOUNTS, fakeClients);
+    const resend = accounts.resend as unknown as {
+      emails: { describe(): string };
+    };
+    const editor = accounts.editorClient as unknown as { whoAmI(): string };
+
+    expect(resend.emails.describe()).toBe('re_us');
+    expect(editor.whoAmI()).toBe('re_us');
+
+    accounts.switchTo('eu');
+
+    expect(accounts.activeAccount).toBe('eu');
+    expect(resend.emails.describe()).toBe('re_eu');
+    expect(editor.whoAmI()).toBe('re_eu');
+  });
+
+  it('throws for an unknown account without changing the active one', () => {
+    const accounts = new AccountSwitcher(ACCOUNTS, fakeClients);
+    expect(() => accounts.switchTo('apac')).toThrow('Unknown account "apac"');
+    expect(accounts.activeAccount).toBe('us');
+  });
+
+  it('requires at least one account', () => {
+    expect(() => new AccountSwitcher([], fakeClients)).toThrow();
+  });
+});
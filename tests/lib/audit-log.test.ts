@@ -0,0 +1,115 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  type AuditEntry,
+  AuditLog,
+  apiKeyId,
+  createAuditLog,
+} from '../../src/lib/audit-log.js';
+
+function entry(fields: Partial<AuditEntry>): AuditEntry {
+  return {
+    time: '2026-03-02T10:00:00.000Z',
+    tool: 'send-email',
+    correlationId: 'c_1',
+    arguments: {},
+    resourceIds: [],
+    outcome: 'ok',
+    ...fields,
+  };
+}
+
+describe('AuditLog', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'resend-mcp-audit-'));
+    file = path.join(dir, 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends one JSON line per entry, keeping earlier ones', () => {
+    fs.writeFileSync(file, `${JSON.stringify(entry({ tool: 'old' }))}\n`);
+    const auditLog = new AuditLog(file);
+
+    auditLog.append(entry({ tool: 'create-contact' }));
+
+    const lines = fs.readFileSync(file, 'utf8').trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).tool)).toEqual([
+      'old',
+      'create-contact',
+    ]);
+  });
+
+  it('queries by tool, time range and resource ID, newest first', () => {
+    const auditLog = new AuditLog(file);
+    auditLog.append(
+      entry({ time: '2026-03-01T09:00:00.000Z', resourceIds: ['em_1'] }),
+    );
+    auditLog.append(
+      entry({
+        time: '2026-03-02T09:00:00.000Z',
+        tool: 'remove-contact',
+        resourceIds: ['ct_1'],
+      }),
+    );
+    auditLog.append(
+      entry({ time: '2026-03-03T09:00:00.000Z', resourceIds: ['em_2'] }),
+    );
+
+    const times = (entries: AuditEntry[]) => entries.map(({ time }) => time);
+    expect(times(auditLog.query())).toEqual([
+      '2026-03-03T09:00:00.000Z',
+      '2026-03-02T09:00:00.000Z',
+      '2026-03-01T09:00:00.000Z',
+    ]);
+    expect(times(auditLog.query({ tool: 'send-email', limit: 1 }))).toEqual([
+      '2026-03-03T09:00:00.000Z',
+    ]);
+    expect(
+      times(
+        auditLog.query({
+          since: new Date('2026-03-01T12:00:00Z'),
+          until: new Date('2026-03-02T09:00:00Z'),
+        }),
+      ),
+    ).toEqual(['2026-03-02T09:00:00.000Z']);
+    expect(auditLog.query({ resourceId: 'em_1' })).toEqual([
+      entry({ time: '2026-03-01T09:00:00.000Z', resourceIds: ['em_1'] }),
+    ]);
+  });
+
+  it('keeps the file private and filters by API key ID', () => {
+    fs.writeFileSync(file, '', { mode: 0o644 });
+    const auditLog = new AuditLog(file);
+    auditLog.append(entry({ tool: 'mine', apiKeyId: apiKeyId('re_mine') }));
+    auditLog.append(entry({ tool: 'theirs', apiKeyId: apiKeyId('re_theirs') }));
+
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    expect(
+      auditLog.query({ apiKeyId: apiKeyId('re_mine') }).map(({ tool }) => tool),
+    ).toEqual(['mine']);
+    expect(apiKeyId('re_mine')).not.toContain('re_mine');
+  });
+
+  it('skips damaged lines', () => {
+    fs.writeFileSync(
+      file,
+      `not json\n{"tool":"x"}\n${JSON.stringify(entry({}))}\n{"tool":"send-em`,
+    );
+
+    expect(new AuditLog(file).query()).toEqual([entry({})]);
+  });
+});
+
+describe('createAuditLog', () => {
+  it('creates no audit log without a file', () => {
+    expect(createAuditLog()).toBeUndefined();
+  });
+});
@@ -0,0 +1,91 @@
+import type { Resend } from 'resend';
+import { describe, expect, it } from 'vitest';
+import { createCompletions } from '../../src/lib/completions.js';
+
+const templates = [
+  { id: 'tpl_welcome', name: 'Welcome', alias: 'welcome-email' },
+  { id: 'tpl_receipt', name: 'Order receipt', alias: null },
+  { id: 'b5f1c2', name: 'Password reset', alias: 'reset' },
+];
+
+function fakeResend(responses: unknown[]) {
+  const calls: unknown[] = [];
+  const resend = {
+    templates: {
+      list: async (options: unknown) => {
+        calls.push(options);
+        const response = responses.shift();
+        if (response instanceof Error) throw response;
+        return response;
+      },
+    },
+  } as unknown as Resend;
+  return { resend, calls };
+}
+
+const listed = (data: unknown[]) => ({
+  data: { object: 'list', has_more: false, data },
+  error: null,
+});
+
+describe('createCompletions', () => {
+  it('completes IDs by ID prefix, name or alias', async () => {
+    const { resend, calls } = fakeResend([listed(templates)]);
+    const { templateIds } = createCompletions(resend);
+
+    expect(await templateIds('tpl_')).toEqual(['tpl_welcome', 'tpl_receipt']);
+    expect(await templateIds('RECEIPT')).toEqual(['tpl_receipt']);
+    expect(await templateIds('reset')).toEqual(['b5f1c2']);
+    expect(await templateIds()).toHaveLength(3);
+    expect(calls).toEqual([{ limit: 100 }]);
+  });
+
+  it('lists again once the cache expires', async () => {
+    let now = 0;
+    const { resend, calls } = fakeResend([
+      listed(templates),
+      listed(templates.slice(0, 1)),
+    ]);
+    const { templateIds } = createCompletions(resend, {
+      ttlMs: 1000,
+      now: () => now,
+    });
+
+    await templateIds('tpl');
+    now = 999;
+    expect(await templateIds('tpl')).toHaveLength(2);
+    now = 1000;
+    expect(await templateIds('tpl')).toEqual(['tpl_welcome']);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('keeps cached lists apart by scope', async () => {
+    let account = 'us';
+    const { resend, calls } = fakeResend([
+      listed(templates),
+      listed(templates.slice(1, 2)),
+    ]);
+    const { templateIds } = createCompletions(resend, {
+      scope: () => account,
+    });
+
+    await templateIds();
+    account = 'eu';
+    expect(await templateIds()).toEqual(['tpl_receipt']);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('completes to nothing when listing fails, without caching the failure', async () => {
+    const { resend, calls } = fakeResend([
+      { data: null, error: { name: 'rate_limit_exceeded', statusCode: 429 } },
+      new Error('socket hang up'),
+      listed(templates),
+    ]);
+    const { templateIds } = createCompletions(resend);
+
+    expect(await templateIds('tpl')).toEqual([]);
+    expect(await templateIds('tpl')).toEqual([]);
+    expect(await templateIds('tpl')).toHaveLength(2);
+    expect(calls).toHaveLength(3);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { describeResource, lookupForSummary } from '../../src/lib/confirm.js';
+
+describe('describeResource', () => {
+  it('quotes the name and keeps the ID', () => {
+    expect(describeResource('seg_1', 'Newsletter')).toBe(
+      '"Newsletter" (seg_1)',
+    );
+  });
+
+  it('falls back to the ID when the name is unknown', () => {
+    expect(describeResource('seg_1')).toBe('seg_1');
+    expect(describeResource('seg_1', null)).toBe('seg_1');
+  });
+});
+
+describe('lookupForSummary', () => {
+  it('returns the looked-up data', async () => {
+    await expect(
+      lookupForSummary(async () => ({ data: { name: 'Newsletter' } })),
+    ).resolves.toEqual({ name: 'Newsletter' });
+  });
+
+  it('returns undefined on API errors and thrown errors', async () => {
+    await expect(
+      lookupForSummary(async () => ({ data: null })),
+    ).resolves.toBeUndefined();
+    await expect(
+      lookupForSummary(async () => {
+        throw new Error('network down');
+      }),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { dryRunResult } from '../../src/lib/dry-run.js';
+
+describe('dryRunResult', () => {
+  it('returns the method and arguments as structured content', () => {
+    const result = dryRunResult('broadcasts.send', 'b_1', {
+      scheduledAt: 'tomorrow',
+    });
+    expect(result.structuredContent).toEqual({
+      dryRun: true,
+      method: 'broadcasts.send',
+      arguments: ['b_1', { scheduledAt: 'tomorrow' }],
+    });
+    expect(result.content[0]).toMatchObject({
+      type: 'text',
+      text: expect.stringContaining('Would call resend.broadcasts.send'),
+    });
+  });
+
+  it('summarizes buffers instead of dumping their bytes', () => {
+    const result = dryRunResult('emails.send', {
+      attachments: [{ filename: 'a.bin', content: Buffer.alloc(1024) }],
+    });
+    expect(result.structuredContent?.arguments).toEqual([
+      {
+        attachments: [
+          { filename: 'a.bin', content: '<1024 bytes of binary content>' },
+        ],
+      },
+    ]);
+  });
+
+  it('drops undefined fields like the SDK request would', () => {
+    const result = dryRunResult('emails.send', {
+      to: ['a@b.dev'],
+      cc: undefined,
+    });
+    expect(result.structuredContent?.arguments).toEqual([{ to: ['a@b.dev'] }]);
+  });
+});
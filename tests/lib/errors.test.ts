@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  classifyResendError,
+  ResendApiError,
+  resendErrorResult,
+  toolErrorResult,
+} from '../../src/lib/errors.js';
+
+describe('classifyResendError', () => {
+  it.each([
+    [{ name: 'validation_error', statusCode: 422 }, 'validation'],
+    [{ name: 'missing_required_field', statusCode: 422 }, 'validation'],
+    [{ name: 'missing_api_key', statusCode: 401 }, 'auth'],
+    [{ name: 'restricted_api_key', statusCode: 401 }, 'auth'],
+    [{ name: 'invalid_api_key', statusCode: 403 }, 'auth'],
+    [{ name: 'not_found', statusCode: 404 }, 'not_found'],
+    [{ name: 'rate_limit_exceeded', statusCode: 429 }, 'rate_limited'],
+    [{ name: 'daily_quota_exceeded', statusCode: 429 }, 'quota_exceeded'],
+    [{ name: 'monthly_quota_exceeded', statusCode: 429 }, 'quota_exceeded'],
+    [{ name: 'internal_server_error', statusCode: 500 }, 'server'],
+    [{ name: 'application_error', statusCode: null }, 'network'],
+    [{ statusCode: 403 }, 'auth'],
+    [{ statusCode: 503 }, 'server'],
+  ] as const)('%o is %s', (error, category) => {
+    expect(classifyResendError(error)).toBe(category);
+  });
+
+  it('recognizes unverified domains from the message', () => {
+    expect(
+      classifyResendError({
+        name: 'validation_error',
+        statusCode: 403,
+        message:
+          'The example.com domain is not verified. Please, add and verify your domain on https://resend.com/domains',
+      }),
+    ).toBe('domain_not_verified');
+    expect(
+      classifyResendError({
+        name: 'validation_error',
+        statusCode: 403,
+        message:
+          'You can only send testing emails to your own email address (me@test.dev).',
+      }),
+    ).toBe('domain_not_verified');
+  });
+});
+
+describe('resendErrorResult', () => {
+  it('reports the failure, category and next step', () => {
+    const result = resendErrorResult('Failed to send event', {
+      name: 'rate_limit_exceeded',
+      statusCode: 429,
+      message: 'Too many requests',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([
+      {
+        type: 'text',
+        text: 'Failed to send event: Too many requests (rate_limit_exceeded, 429)\nCategory: rate_limited\nNext step: The request was already retried. Wait a few seconds before calling again, and avoid calling tools in parallel.',
+      },
+    ]);
+  });
+});
+
+describe('toolErrorResult', () => {
+  it('classifies API errors and keeps other messages as they are', () => {
+    const api = toolErrorResult(
+      new ResendApiError('Editor request failed', {
+        statusCode: 404,
+        message: 'Broadcast not found',
+      }),
+    );
+    const other = toolErrorResult(new Error('The "name" field is required.'));
+
+    expect(api).toMatchObject({
+      isError: true,
+      content: [
+        {
+          text: expect.stringContaining(
+            'Editor request failed: Broadcast not found (404)\nCategory: not_found',
+          ),
+        },
+      ],
+    });
+    expect(other).toEqual({
+      isError: true,
+      content: [{ type: 'text', text: 'The "name" field is required.' }],
+    });
+  });
+});
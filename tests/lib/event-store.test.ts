@@ -0,0 +1,115 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  createEventStorage,
+  type EventStorage,
+  FileEventStorage,
+  MemoryEventStorage,
+  scopeEventStore,
+} from '../../src/lib/event-store.js';
+
+function progress(progress: number): JSONRPCMessage {
+  return {
+    jsonrpc: '2.0',
+    method: 'notifications/progress',
+    params: { progressToken: 't', progress },
+  };
+}
+
+/** Replay everything after `eventId`, collecting what would be resent. */
+async function replay(
+  store: ReturnType<typeof scopeEventStore>,
+  eventId: string,
+) {
+  const sent: JSONRPCMessage[] = [];
+  const streamId = await store.replayEventsAfter(eventId, {
+    send: async (_id, message) => {
+      sent.push(message);
+    },
+  });
+  return { streamId, sent };
+}
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'resend-mcp-events-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe.each([
+  [
+    'MemoryEventStorage',
+    (maxEvents?: number) => new MemoryEventStorage({ maxEvents }),
+  ],
+  [
+    'FileEventStorage',
+    (maxEvents?: number) =>
+      new FileEventStorage(path.join(dir, 'events.jsonl'), { maxEvents }),
+  ],
+] as const)('%s', (_name, create: (maxEvents?: number) => EventStorage) => {
+  it('replays the events sent after the last one received, on that stream only', async () => {
+    const store = scopeEventStore(create());
+    const first = await store.storeEvent('s_1', progress(1));
+    await store.storeEvent('s_2', progress(99));
+    await store.storeEvent('s_1', progress(2));
+    await store.storeEvent('s_1', progress(3));
+
+    expect(await store.getStreamIdForEventId?.(first)).toBe('s_1');
+    expect(await replay(store, first)).toEqual({
+      streamId: 's_1',
+      sent: [progress(2), progress(3)],
+    });
+  });
+
+  it('does not replay another session’s events', async () => {
+    const storage = create();
+    const mine = scopeEventStore(storage);
+    const theirs = scopeEventStore(storage);
+    const eventId = await theirs.storeEvent('_GET_stream', progress(1));
+    await theirs.storeEvent('_GET_stream', progress(2));
+
+    expect(await mine.getStreamIdForEventId?.(eventId)).toBeUndefined();
+    expect(await replay(mine, eventId)).toEqual({ streamId: '', sent: [] });
+  });
+
+  it('forgets the oldest events beyond the limit', async () => {
+    const store = scopeEventStore(create(2));
+    const ids: string[] = [];
+    for (let i = 1; i <= 5; i++) {
+      ids.push(await store.storeEvent('s_1', progress(i)));
+    }
+
+    expect(await store.getStreamIdForEventId?.(ids[0])).toBeUndefined();
+    expect((await replay(store, ids[3])).sent).toEqual([progress(5)]);
+  });
+});
+
+describe('FileEventStorage', () => {
+  it('empties the file on startup and keeps it private', async () => {
+    const file = path.join(dir, 'events.jsonl');
+    fs.writeFileSync(file, 'stale\n');
+
+    const store = scopeEventStore(new FileEventStorage(file));
+    await store.storeEvent('s_1', progress(1));
+
+    expect(fs.readFileSync(file, 'utf8').split('\n')).toHaveLength(2);
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+  });
+});
+
+describe('createEventStorage', () => {
+  it('keeps events in memory or in a file, or nowhere when unset', () => {
+    expect(createEventStorage('memory')).toBeInstanceOf(MemoryEventStorage);
+    expect(createEventStorage(path.join(dir, 'e.jsonl'))).toBeInstanceOf(
+      FileEventStorage,
+    );
+    expect(createEventStorage()).toBeUndefined();
+  });
+});
@@ -0,0 +1,56 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createLogger } from '../../src/lib/logger.js';
+
+describe('createLogger', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'resend-mcp-log-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const readLines = (file: string) =>
+    fs
+      .readFileSync(file, 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+
+  it('appends JSON lines at or above the level to the file', () => {
+    const file = path.join(dir, 'server.log');
+    fs.writeFileSync(file, `${JSON.stringify({ event: 'earlier' })}\n`);
+    const logger = createLogger({
+      level: 'info',
+      file,
+      now: () => new Date('2026-01-01T00:00:00Z'),
+    });
+
+    logger.log('debug', 'resend_request', { path: '/domains' });
+    logger.log('info', 'tool_call', { tool: 'list-domains' });
+    logger.log('error', 'failure');
+
+    expect(logger.isEnabled('debug')).toBe(false);
+    expect(readLines(file)).toEqual([
+      { event: 'earlier' },
+      {
+        time: '2026-01-01T00:00:00.000Z',
+        level: 'info',
+        event: 'tool_call',
+        tool: 'list-domains',
+      },
+      { time: '2026-01-01T00:00:00.000Z', level: 'error', event: 'failure' },
+    ]);
+  });
+
+  it('fails right away when the file cannot be opened', () => {
+    expect(() =>
+      createLogger({ file: path.join(dir, 'missing', 'server.log') }),
+    ).toThrow(/ENOENT/);
+  });
+});
@@ -0,0 +1,208 @@
+import type { ServerResponse } from 'node:http';
+import type { OAuthClientInformationFull } from '@modelcontextprotocol/sdk/shared/auth.js';
+import { describe, expect, it } from 'vitest';
+import { ResendOAuthProvider } from '../../src/lib/oauth-provider.js';
+
+const resourceUrl = new URL('http://localhost:3000/mcp');
+
+const client: OAuthClientInformationFull = {
+  client_id: 'client_1',
+  client_name: 'Test <Client>',
+  redirect_uris: ['http://localhost:9999/callback'],
+};
+
+function fakeResponse() {
+  const sent = { status: 0, body: '' };
+  const res = {
+    writeHead(status: number) {
+      sent.status = status;
+      return res;
+    },
+    end(body: string) {
+      sent.body = body;
+    },
+  };
+  return { res: res as unknown as ServerResponse, sent };
+}
+
+/** Start an authorization and return the consent page's request ID. */
+async function startAuthorization(
+  provider: ResendOAuthProvider,
+  scopes: string[] = [],
+) {
+  const { res, sent } = fakeResponse();
+  await provider.authorize(
+    client,
+    {
+      scopes,
+      state: 'st_1',
+      codeChallenge: 'challenge',
+      redirectUri: client.redirect_uris[0],
+    },
+    res,
+  );
+  const requestId = sent.body.match(/name="request_id" value="([^"]+)"/)?.[1];
+  return { requestId: requestId ?? '', page: sent.body };
+}
+
+async function signIn(provider: ResendOAuthProvider, allowWrite = true) {
+  const { requestId } = await startAuthorization(provider);
+  const outcome = provider.completeAuthorization(requestId, {
+    approve: true,
+    apiKey: 're_secret',
+    allowWrite,
+  });
+  const code =
+    'redirectTo' in outcome
+      ? (new URL(outcome.redirectTo).searchParams.get('code') ?? '')
+      : '';
+  return provider.exchangeAuthorizationCode(client, code);
+}
+
+describe('ResendOAuthProvider', () => {
+  it('shows a consent page naming the client, escaped', async () => {
+    const provider = new ResendOAuthProvider({ resourceUrl });
+
+    const { page, requestId } = await startAuthorization(provider);
+
+    expect(page).toContain('<strong>Test &lt;Client&gt;</strong>');
+    expect(page).toContain('name="api_key"');
+    expect(requestId).not.toBe('');
+  });
+
+  it('rejects unknown scopes and other resources', async () => {
+    const provider = new ResendOAuthProvider({ resourceUrl });
+    const { res } = fakeResponse();
+    const params = {
+      codeChallenge: 'challenge',
+      redirectUri: client.redirect_uris[0],
+    };
+
+    await expect(
+      provider.authorize(client, { ...params, scopes: ['admin'] }, res),
+    ).rejects.toThrow('Unknown scope: admin');
+    await expect(
+      provider.authorize(
+        client,
+        { ...params, resource: new URL('https://other.example/mcp') },
+        res,
+      ),
+    ).rejects.toThrow('Tokens can only be issued for');
+  });
+
+  it('redirects with access_denied when the user denies', async () => {
+    const provider = new ResendOAuthProvider({ resourceUrl });
+    const { requestId } = await startAuthorization(provider);
+
+    expect(
+      provider.completeAuthorization(requestId, { approve: false }),
+    ).toEqual({
+      redirectTo:
+        'http://localhost:9999/callback?state=st_1&error=access_denied',
+    });
+    expect(() =>
+      provider.completeAuthorization(requestId, { approve: false }),
+    ).toThrow('expired');
+  });
+
+  it('asks again for a malformed key', async () => {
+    const provider = new ResendOAuthProvider({ resourceUrl });
+    const { requestId } = await startAuthorization(provider);
+
+    const outcome = provider.completeAuthorization(requestId, {
+      approve: true,
+      apiKey: 'not-a-key',
+    });
+
+    expect(outcome).toEqual({
+      page: expect.stringContaining('Keys start with re_.'),
+    });
+  });
+
+  it('issues expiring tokens that map to the key', async () => {
+    let now = 1_000_000;
+    const provider = new ResendOAuthProvider({ resourceUrl, now: () => now });
+
+    const tokens = await signIn(provider);
+    const info = await provider.verifyAccessToken(tokens.access_token);
+
+    expect(tokens).toMatchObject({
+      token_type: 'Bearer',
+      expires_in: 3600,
+      scope: 'resend:read resend:write',
+    });
+    expect(info).toMatchObject({
+      clientId: 'client_1',
+      scopes: ['resend:read', 'resend:write'],
+      expiresAt: 1_000 + 3600,
+      resource: resourceUrl,
+    });
+    expect(provider.apiKeyFor(tokens.access_token)).toBe('re_secret');
+
+    now += 3600 * 1000;
+    await expect(
+      provider.verifyAccessToken(tokens.access_token),
+    ).rejects.toThrow('Invalid or expired access token');
+    expect(provider.apiKeyFor(tokens.access_token)).toBeUndefined();
+  });
+
+  it('grants only resend:read when changes are not allowed', async () => {
+    const provider = new ResendOAuthProvider({ resourceUrl });
+
+    const tokens = await signIn(provider, false);
+
+    expect(tokens.scope).toBe('resend:read');
+  });
+
+  it('uses each authorization code and refresh token once', async () => {
+    const provider = new ResendOAuthProvider({ resourceUrl });
+    const { requestId } = await startAuthorization(provider);
+    const outcome = provider.completeAuthorization(requestId, {
+      approve: true,
+      apiKey: 're_secret',
+    });
+    const code =
+      'redirectTo' in outcome
+        ? (new URL(outcome.redirectTo).searchParams.get('code') ?? '')
+        : '';
+
+    await expect(
+      provider.exchangeAuthorizationCode(
+        { ...client, client_id: 'client_2' },
+        code,
+      ),
+    ).rejects.toThrow('Invalid authorization code');
+    const tokens = await provider.exchangeAuthorizationCode(client, code);
+    await expect(
+      provider.exchangeAuthorizationCode(client, code),
+    ).rejects.toThrow('Invalid authorization code');
+
+    const refreshed = await provider.exchangeRefreshToken(
+      client,
+      tokens.refresh_token ?? '',
+      ['resend:read'],
+    );
+    expect(refreshed.scope).toBe('resend:read');
+    await expect(
+      provider.exchangeRefreshToken(client, tokens.refresh_token ?? ''),
+    ).rejects.toThrow('Invalid refresh token');
+    await expect(
+      provider.exchangeRefreshToken(client, refreshed.refresh_token ?? '', [
+        'resend:write',
+      ]),
+    ).rejects.toThrow('Cannot widen the scopes of a grant');
+  });
+
+  it('revokes tokens of the requesting client only', async () => {
+    const provider = new ResendOAuthProvider({ resourceUrl });
+    const tokens = await signIn(provider);
+
+    await provider.revokeToken(
+      { ...client, client_id: 'client_2' },
+      { token: tokens.access_token },
+    );
+    expect(provider.apiKeyFor(tokens.access_token)).toBe('re_secret');
+    await provider.revokeToken(client, { token: tokens.access_token });
+    expect(provider.apiKeyFor(tokens.access_token)).toBeUndefined();
+  });
+});
@@ -0,0 +1,164 @@
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { describe, expect, it } from 'vitest';
+import {
+  listPages,
+  MAX_PAGINATED_ITEMS,
+  type PageOptions,
+} from '../../src/lib/pagination.js';
+
+type Extra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+function fakeExtra(progressToken?: string) {
+  const notifications: ServerNotification[] = [];
+  const controller = new AbortController();
+  const extra = {
+    signal: controller.signal,
+    _meta: progressToken === undefined ? undefined : { progressToken },
+    sendNotification: async (notification: ServerNotification) => {
+      notifications.push(notification);
+    },
+  } as unknown as Extra;
+  return { extra, notifications, controller };
+}
+
+/** A list endpoint over `total` items with IDs item_1..item_N. */
+function fakeList(total: number) {
+  const calls: (PageOptions | undefined)[] = [];
+  const listPage = async (page?: PageOptions) => {
+    calls.push(page);
+    const limit = page?.limit ?? 20;
+    const start = page?.after ? Number(page.after.slice(5)) : 0;
+    const data = Array.from(
+      { length: Math.max(0, Math.min(limit, total - start)) },
+      (_, i) => ({ id: `item_${start + i + 1}` }),
+    );
+    return {
+      data: { object: 'list', data, has_more: start + data.length < total },
+      error: null,
+    };
+  };
+  return { calls, listPage };
+}
+
+describe('listPages', () => {
+  it('makes one call with the tool arguments without all or maxItems', async () => {
+    const { calls, listPage } = fakeList(50);
+    const { extra } = fakeExtra();
+
+    const response = await listPages(listPage, {}, extra, 'items');
+
+    expect(calls).toEqual([undefined]);
+    expect(response.data?.data).toHaveLength(20);
+    expect(response.data?.has_more).toBe(true);
+  });
+
+  it('walks every page with all', async () => {
+    const { calls, listPage } = fakeList(250);
+    const { extra } = fakeExtra();
+
+    const response = await listPages(listPage, { all: true }, extra, 'items');
+
+    expect(calls).toEqual([
+      { limit: 100 },
+      { limit: 100, after: 'item_100' },
+      { limit: 100, after: 'item_200' },
+    ]);
+    expect(response.data?.data).toHaveLength(250);
+    expect(response.data?.has_more).toBe(false);
+  });
+
+  it('stops at maxItems, starting from after', async () => {
+    const { calls, listPage } = fakeList(500);
+    const { extra } = fakeExtra();
+
+    const response = await listPages(
+      listPage,
+      { maxItems: 150, after: 'item_10' },
+      extra,
+      'items',
+    );
+
+    expect(calls).toEqual([
+      { limit: 100, after: 'item_10' },
+      { limit: 50, after: 'item_110' },
+    ]);
+    expect(response.data?.data.at(-1)).toEqual({ id: 'item_160' });
+    expect(response.data?.has_more).toBe(true);
+  });
+
+  it('stops at the safety cap and reports that more are available', async () => {
+    const { calls, listPage } = fakeList(MAX_PAGINATED_ITEMS + 1);
+    const { extra } = fakeExtra();
+
+    const response = await listPages(listPage, { all: true }, extra, 'items');
+
+    expect(calls).toHaveLength(MAX_PAGINATED_ITEMS / 100);
+    expect(response.data?.data).toHaveLength(MAX_PAGINATED_ITEMS);
+    expect(response.data?.has_more).toBe(true);
+  });
+
+  it('reports progress when the client asked for it', async () => {
+    const { listPage } = fakeList(150);
+    const { extra, notifications } = fakeExtra('tok');
+
+    await listPages(listPage, { maxItems: 200 }, extra, 'contacts');
+
+    expect(notifications).toEqual([
+      {
+        method: 'notifications/progress',
+        params: {
+          progressToken: 'tok',
+          progress: 100,
+          total: 200,
+          message: 'Fetched 100 contacts',
+        },
+      },
+      {
+        method: 'notifications/progress',
+        params: {
+          progressToken: 'tok',
+          progress: 150,
+          total: 200,
+          message: 'Fetched 150 contacts',
+        },
+      },
+    ]);
+  });
+
+  it('stops walking when the request is cancelled', async () => {
+    const { calls, listPage } = fakeList(500);
+    const { extra, controller } = fakeExtra();
+    controller.abort();
+
+    await listPages(listPage, { all: true }, extra, 'items');
+
+    expect(calls).toHaveLength(1);
+  });
+
+  it('returns an error from any page as is', async () => {
+    const error = { name: 'rate_limit_exceeded', message: 'Slow down' };
+    let page = 0;
+    const listPage = async () =>
+      page++ === 0
+        ? { data: { data: [{ id: 'item_1' }], has_more: true }, error: null }
+        : { data: null, error };
+    const { extra } = fakeExtra();
+
+    const response = await listPages(listPage, { all: true }, extra, 'items');
+
+    expect(response).toEqual({ data: null, error });
+  });
+
+  it('rejects before with all or maxItems', async () => {
+    const { listPage } = fakeList(10);
+    const { extra } = fakeExtra();
+
+    await expect(
+      listPages(listPage, { all: true, before: 'item_5' }, extra, 'items'),
+    ).rejects.toThrow('Cannot use "before" with "all" or "maxItems"');
+  });
+});
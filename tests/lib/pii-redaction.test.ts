@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { createPiiRedactor, PiiRedactor } from '../../src/lib/pii-redaction.js';
+
+const contact = {
+  object: 'contact',
+  id: 'ct_1',
+  email: 'Ada@Example.com',
+  first_name: 'Ada',
+  last_name: 'Lovelace',
+  properties: { plan: 'pro', seats: 3, company: null },
+};
+
+describe('PiiRedactor', () => {
+  it('gives the same value the same pseudonym everywhere', () => {
+    const redactor = new PiiRedactor(['emails', 'names']);
+
+    const fetched = redactor.redactResponse('/contacts/ct_1', contact);
+    const listed = redactor.redactResponse('/contacts', {
+      data: [{ ...contact, email: 'ada@example.com' }],
+    });
+
+    expect(fetched).toMatchObject({
+      id: 'ct_1',
+      email: expect.stringMatching(/^user-[\da-f]{10}@redacted\.invalid$/),
+      first_name: expect.stringMatching(/^name-[\da-f]{10}$/),
+      last_name: expect.stringMatching(/^name-[\da-f]{10}$/),
+      properties: contact.properties,
+    });
+    expect(listed.data[0].email).toBe(fetched.email);
+    expect(listed.data[0].first_name).toBe(fetched.first_name);
+    expect(contact.email).toBe('Ada@Example.com');
+  });
+
+  it('uses a different key per redactor', () => {
+    const a = new PiiRedactor(['emails']).redactResponse('/contacts', contact);
+    const b = new PiiRedactor(['emails']).redactResponse('/contacts', contact);
+
+    expect(a.email).not.toBe(b.email);
+  });
+
+  it('masks display names and addresses in any string', () => {
+    const redactor = new PiiRedactor(['emails', 'names']);
+
+    const email = redactor.redactResponse('/emails/em_1', {
+      from: 'Ada Lovelace <ada@example.com>',
+      to: ['"Babbage, Charles" <charles@example.com>'],
+      subject: 'Ping charles@example.com',
+    });
+
+    expect(email.from).toMatch(
+      /^name-[\da-f]{10} <user-[\da-f]{10}@redacted\.invalid>$/,
+    );
+    expect(email.to[0]).toMatch(/^name-[\da-f]{10} <user-/);
+    expect(email.subject).toBe(`Ping ${email.to[0].split(/[<>]/)[1]}`);
+  });
+
+  it('only masks message bodies from emails and logs', () => {
+    const redactor = new PiiRedactor(['bodies']);
+    const body = { html: '<p>Hi Ada</p>', text: 'Hi Ada' };
+
+    expect(redactor.redactResponse('/emails/em_1', body)).toEqual({
+      html: '[redacted: 13 chars]',
+      text: '[redacted: 6 chars]',
+    });
+    expect(redactor.redactResponse('/templates/tpl_1', body)).toEqual(body);
+  });
+
+  it('masks contact property values but keeps their names', () => {
+    const redactor = new PiiRedactor(['properties']);
+
+    const { properties } = redactor.redactResponse('/contacts/ct_1', contact);
+
+    expect(properties).toEqual({
+      plan: expect.stringMatching(/^value-[\da-f]{10}$/),
+      seats: expect.stringMatching(/^value-[\da-f]{10}$/),
+      company: null,
+    });
+  });
+
+  it('leaves fields that are not redacted alone', () => {
+    const redactor = new PiiRedactor(['bodies']);
+
+    expect(redactor.redactResponse('/contacts/ct_1', contact)).toEqual(contact);
+  });
+
+  it('restores pseudonyms in tool arguments', () => {
+    const redactor = new PiiRedactor(['emails', 'names']);
+    const { email, first_name } = redactor.redactResponse(
+      '/contacts/ct_1',
+      contact,
+    );
+
+    expect(
+      redactor.restore({
+        email,
+        to: [`${first_name} <${email}>`],
+        subject: 'user-0000000000@redacted.invalid is unknown',
+      }),
+    ).toEqual({
+      email: 'ada@example.com',
+      to: ['Ada <ada@example.com>'],
+      subject: 'user-0000000000@redacted.invalid is unknown',
+    });
+  });
+
+  it('masks addresses and known names echoed in tool results', () => {
+    const redactor = new PiiRedactor(['emails', 'names']);
+    const { email } = redactor.redactResponse('/contacts/ct_1', contact);
+
+    const result = redactor.redactToolResult({
+      content: [{ type: 'text', text: 'Would email Ada at ada@example.com' }],
+      structuredContent: { to: ['ada@example.com'], names: ['Adam'] },
+    });
+
+    expect(result.content).toEqual([
+      {
+        type: 'text',
+        text: expect.stringMatching(
+          new RegExp(`^Would email name-[\\da-f]{10} at ${email}$`),
+        ),
+      },
+    ]);
+    expect(result.structuredContent).toEqual({ to: [email], names: ['Adam'] });
+  });
+});
+
+describe('createPiiRedactor', () => {
+  it('creates no redactor without fields', () => {
+    expect(createPiiRedactor([])).toBeUndefined();
+    expect(createPiiRedactor()).toBeUndefined();
+    expect(createPiiRedactor(['emails'])).toBeInstanceOf(PiiRedactor);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { redactArguments } from '../../src/lib/redact.js';
+
+describe('redactArguments', () => {
+  it('replaces credentials and shortens long strings, at any depth', () => {
+    const html = `<p>${'a'.repeat(300)}</p>`;
+
+    expect(
+      redactArguments({
+        to: ['ada@test.dev'],
+        html,
+        headers: { Authorization: 'Bearer re_secret' },
+        accounts: [{ name: 'eu', apiKey: 're_eu' }],
+        variables: [{ key: 'NAME', fallbackValue: 'there' }],
+        limit: 10,
+      }),
+    ).toEqual({
+      to: ['ada@test.dev'],
+      html: `<p>${'a'.repeat(197)}… (307 chars)`,
+      headers: { Authorization: '[redacted]' },
+      accounts: [{ name: 'eu', apiKey: '[redacted]' }],
+      variables: [{ key: 'NAME', fallbackValue: 'there' }],
+      limit: 10,
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { Resend } from 'resend';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createAccountClients } from '../../src/lib/accounts.js';
+import { createResendClient } from '../../src/lib/resend-client.js';
+import { ResponseCache } from '../../src/lib/response-cache.js';
+import { withTrace } from '../../src/lib/tracing.js';
+import {
+  type FakeResendServer,
+  startFakeResendServer,
+} from '../support/fake-resend-server.js';
+
+describe('createResendClient', () => {
+  let fake: FakeResendServer;
+
+  beforeEach(async () => {
+    fake = await startFakeResendServer();
+  });
+
+  afterEach(async () => {
+    await fake.close();
+  });
+
+  it('returns an SDK client when no apiUrl is set', () => {
+    const client = createResendClient('re_test');
+    expect(client).toBeInstanceOf(Resend);
+  });
+
+  it('sends requests to apiUrl with the API key', async () => {
+    const client = createResendClient('re_test', `${fake.url}/`);
+
+    const created = await client.segments.create({ name: 'Newsletter' });
+    const fetched = await client.segments.get(created.data?.id ?? '');
+
+    expect(created.error).toBeNull();
+    expect(fetched.data).toMatchObject({ name: 'Newsletter' });
+    expect(fake.requests).toEqual([
+      expect.objectContaining({
+        method: 'POST',
+        path: '/segments',
+        body: { name: 'Newsletter' },
+        apiKey: 're_test',
+      }),
+      expect.objectContaining({ method: 'GET', path: '/segments/segments_1' }),
+    ]);
+  });
+
+  it('returns API errors the way the SDK does', async () => {
+    const client = createResendClient('re_test', fake.url);
+
+    const response = await client.segments.get('seg_missing');
+
+    expect(response.data).toBeNull();
+    expect(response.error).toEqual({
+      statusCode: 404,
+      name: 'not_found',
+      message: 'segments seg_missing not found',
+    });
+  });
+
+  // Lost connections on a GET are retried with backoff before giving up.
+  it('reports unreachable servers as an application error', {
+    timeout: 10_000,
+  }, async () => {
+    await fake.close();
+    const client = createResendClient('re_test', fake.url);
+    fake = await startFakeResendServer();
+
+    const response = await client.domains.list();
+
+    expect(response.error).toMatchObject({
+      name: 'application_error',
+      statusCode: null,
+    });
+  });
+
+  it('reports an empty success body as an application error', async () => {
+    fake.failNext({ status: 200 });
+    const client = createResendClient('re_test', fake.url);
+
+    const response = await client.segments.create({ name: 'Newsletter' });
+
+    expect(response).toMatchObject({
+      data: null,
+      error: { name: 'application_error', statusCode: null },
+    });
+    expect(fake.requests).toHaveLength(1);
+  });
+
+  it('retries a rate-limited request after retry-after', async () => {
+    fake.failNext({
+      status: 429,
+      body: {
+        statusCode: 429,
+        name: 'rate_limit_exceeded',
+        message: 'Too many requests',
+      },
+      headers: { 'retry-after': '0' },
+    });
+    const client = createResendClient('re_retry_429', fake.url);
+
+    const response = await client.domains.list();
+
+    expect(response.error).toBeNull();
+    expect(fake.requests).toHaveLength(2);
+  });
+
+  it('does not retry a daily quota error', async () => {
+    fake.failNext({
+      status: 429,
+      body: {
+        statusCode: 429,
+        name: 'daily_quota_exceeded',
+        message: 'Daily quota reached',
+      },
+      headers: { 'retry-after': '0' },
+    });
+    const client = createResendClient('re_retry_quota', fake.url);
+
+    const response = await client.domains.list();
+
+    expect(response.error).toMatchObject({ name: 'daily_quota_exceeded' });
+    expect(fake.requests).toHaveLength(1);
+  });
+
+  it('retries server errors only when the request is safe to repeat', async () => {
+    const failure = {
+      status: 503,
+      body: { statusCode: 503, name: 'application_error', message: 'Down' },
+      headers: { 'retry-after': '0' },
+    };
+    const client = createResendClient('re_retry_5xx', fake.url);
+
+    fake.failNext(failure);
+    const listed = await client.segments.list();
+    fake.failNext(failure);
+    const created = await client.segments.create({ name: 'Newsletter' });
+
+    expect(listed.error).toBeNull();
+    expect(created.error).toMatchObject({ statusCode: 503 });
+    expect(fake.requests.map(({ method }) => method)).toEqual([
+      'GET',
+      'GET',
+      'POST',
+    ]);
+  });
+
+  it('serves repeated GETs from the cache until a write invalidates them', async () => {
+    const cache = new ResponseCache({ ttlMs: 60_000 });
+    const client = createResendClient('re_test', fake.url, { cache });
+
+    const { data } = await client.segments.create({ name: 'Newsletter' });
+    const id = data?.id ?? '';
+    await client.segments.get(id);
+    const cached = await client.segments.get(id);
+    await client.segments.remove(id);
+    const afterRemove = await client.segments.get(id);
+
+    expect(cached.data).toMatchObject({ name: 'Newsletter' });
+    expect(afterRemove.error).toMatchObject({ statusCode: 404 });
+    expect(
+      fake.requests.map(({ method, path }) => `${method} ${path}`),
+    ).toEqual([
+      'POST /segments',
+      `GET /segments/${id}`,
+      `DELETE /segments/${id}`,
+      `GET /segments/${id}`,
+    ]);
+    expect(cache.stats).toEqual({ hits: 1, misses: 2, invalidations: 2 });
+  });
+
+  it('invalidates cached broadcasts when the editor composes content', async () => {
+    const { resend, editorClient } = createAccountClients('re_test', fake.url, {
+      cacheTtlMs: 60_000,
+    });
+    const { data } = await resend.broadcasts.create({
+      name: 'Launch',
+      segmentId: 'seg_1',
+      from: 'me@test.dev',
+      subject: 'Hi',
+      text: 'Hi',
+    });
+    const id = data?.id ?? '';
+
+    await resend.broadcasts.get(id);
+    await editorClient.composeBroadcastContent(id, { content: {} });
+    await resend.broadcasts.get(id);
+
+    expect(
+      fake.requests.filter(
+        ({ method, path }) => method === 'GET' && path === `/broadcasts/${id}`,
+      ),
+    ).toHaveLength(2);
+  });
+
+  it('tags requests with the tool call correlation ID and records them', async () => {
+    const client = createResendClient('re_test', fake.url);
+
+    const trace = await withTrace(async (trace) => {
+      await client.segments.create({ name: 'Newsletter' });
+      await client.segments.get('segments_missing');
+      return trace;
+    });
+
+    expect(fake.requests.map(({ userAgent }) => userAgent)).toEqual([
+      expect.stringMatching(
+        new RegExp(`^resend-mcp:[\\d.]+ \\(${trace.correlationId}\\)$`),
+      ),
+      expect.stringContaining(trace.correlationId),
+    ]);
+    expect(trace.requests).toEqual([
+      {
+        method: 'POST',
+        path: '/segments',
+        durationMs: expect.any(Number),
+        resourceIds: [expect.stringMatching(/^segments_/)],
+      },
+      {
+        method: 'GET',
+        path: '/segments/segments_missing',
+        durationMs: expect.any(Number),
+        error: 'not_found',
+      },
+    ]);
+  });
+});
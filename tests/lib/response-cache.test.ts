@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createResponseCache,
+  ResponseCache,
+} from '../../src/lib/response-cache.js';
+
+const ok = (data: unknown) => ({ data, error: null, headers: null });
+
+describe('ResponseCache', () => {
+  it('serves a copy of a fresh response and counts hits and misses', () => {
+    let now = 0;
+    const cache = new ResponseCache({ ttlMs: 1000, now: () => now });
+
+    expect(cache.get('/domains')).toBeUndefined();
+    cache.set('/domains', ok({ data: [{ id: 'd_1' }] }));
+    const hit = cache.get<{ data: { id: string }[] }>('/domains');
+    hit?.data?.data.push({ id: 'mutated' });
+
+    expect(cache.get('/domains')).toEqual(ok({ data: [{ id: 'd_1' }] }));
+    now = 1000;
+    expect(cache.get('/domains')).toBeUndefined();
+    expect(cache.stats).toEqual({ hits: 2, misses: 2, invalidations: 0 });
+  });
+
+  it('keeps paths with different queries apart', () => {
+    const cache = new ResponseCache({ ttlMs: 1000 });
+
+    cache.set('/emails?limit=10', ok({ data: [] }));
+
+    expect(cache.get('/emails?limit=10')).toBeDefined();
+    expect(cache.get('/emails?limit=20')).toBeUndefined();
+  });
+
+  it('drops the written resource and related resources on a write', () => {
+    const cache = new ResponseCache({ ttlMs: 1000 });
+    for (const path of [
+      '/contacts/ct_1',
+      '/segments',
+      '/topics/top_1',
+      '/domains',
+      '/events',
+    ]) {
+      cache.set(path, ok({}));
+    }
+
+    cache.invalidate('/contacts/ct_1/segments/seg_1');
+
+    expect(cache.get('/contacts/ct_1')).toBeUndefined();
+    expect(cache.get('/segments')).toBeUndefined();
+    expect(cache.get('/topics/top_1')).toBeUndefined();
+    expect(cache.get('/domains')).toBeDefined();
+    expect(cache.get('/events')).toBeDefined();
+    expect(cache.stats.invalidations).toBe(1);
+  });
+
+  it('never caches errors or request logs', () => {
+    const cache = new ResponseCache({ ttlMs: 1000 });
+
+    cache.set('/domains/d_1', {
+      data: null,
+      error: { name: 'not_found', message: 'Not found', statusCode: 404 },
+      headers: null,
+    });
+    cache.set('/logs', ok({ data: [] }));
+
+    expect(cache.get('/domains/d_1')).toBeUndefined();
+    expect(cache.get('/logs')).toBeUndefined();
+  });
+
+  it('is disabled by a TTL of 0', () => {
+    expect(createResponseCache(0)).toBeUndefined();
+    expect(createResponseCache()).toBeUndefined();
+    expect(createResponseCache(30_000)).toBeInstanceOf(ResponseCache);
+  });
+});
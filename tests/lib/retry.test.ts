@@ -0,0 +1,215 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type AttemptOutcome,
+  parseRetryAfter,
+  RateLimiter,
+  withRetry,
+} from '../../src/lib/retry.js';
+
+/** A clock that only moves when something sleeps on it. */
+function fakeClock() {
+  const clock = {
+    time: 0,
+    sleeps: [] as number[],
+    now: () => clock.time,
+    sleep: async (ms: number) => {
+      clock.sleeps.push(ms);
+      clock.time += ms;
+    },
+  };
+  return clock;
+}
+
+/** Scripted attempts: each entry is what one call resolves with. */
+function attempts(...outcomes: AttemptOutcome[]) {
+  let calls = 0;
+  return {
+    call: async () => outcomes[Math.min(calls++, outcomes.length - 1)],
+    get calls() {
+      return calls;
+    },
+  };
+}
+
+const rateLimited: AttemptOutcome = {
+  failure: { status: 429, name: 'rate_limit_exceeded' },
+};
+const serverError: AttemptOutcome = {
+  failure: { status: 500, name: 'application_error' },
+};
+
+describe('RateLimiter', () => {
+  it('spaces requests to the requests-per-second limit', async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter({ requestsPerSecond: 4, ...clock });
+
+    await limiter.acquire();
+    await limiter.acquire();
+    await limiter.acquire();
+
+    expect(clock.sleeps).toEqual([250, 250]);
+  });
+
+  it('learns the limit from ratelimit headers', async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter({ ...clock });
+
+    limiter.observe({ 'ratelimit-limit': '10', 'ratelimit-policy': '10;w=1' });
+    await limiter.acquire();
+    await limiter.acquire();
+
+    expect(clock.sleeps).toEqual([100]);
+  });
+
+  it('waits for the window to reset when no requests remain', async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter({ requestsPerSecond: 10, ...clock });
+
+    limiter.observe({ 'ratelimit-remaining': '0', 'ratelimit-reset': '2' });
+    await limiter.acquire();
+
+    expect(clock.sleeps).toEqual([2000]);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('accepts seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter('Thu, 01 Jan 1970 00:00:05 GMT', 1000)).toBe(4000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
+});
+
+describe('withRetry', () => {
+  function setup() {
+    const clock = fakeClock();
+    const limiter = new RateLimiter({ requestsPerSecond: 1000, ...clock });
+    return { clock, limiter };
+  }
+
+  it('retries rate limiting with growing backoff until it succeeds', async () => {
+    const { clock, limiter } = setup();
+    const script = attempts(rateLimited, rateLimited, {});
+
+    const result = await withRetry(script.call, (outcome) => outcome, {
+      limiter,
+      idempotent: false,
+      baseDelayMs: 100,
+      sleep: clock.sleep,
+    });
+
+    expect(result).toEqual({});
+    expect(script.calls).toBe(3);
+    const backoffs = clock.sleeps.filter((ms) => ms >= 50);
+    expect(backoffs[0]).toBeGreaterThanOrEqual(50);
+    expect(backoffs[0]).toBeLessThanOrEqual(100);
+    expect(backoffs[1]).toBeGreaterThanOrEqual(100);
+    expect(backoffs[1]).toBeLessThanOrEqual(200);
+  });
+
+  it('waits for retry-after instead of backing off', async () => {
+    const { clock, limiter } = setup();
+    const script = attempts(
+      { ...rateLimited, headers: { 'retry-after': '2' } },
+      {},
+    );
+
+    await withRetry(script.call, (outcome) => outcome, {
+      limiter,
+      idempotent: true,
+      sleep: clock.sleep,
+    });
+
+    expect(script.calls).toBe(2);
+    expect(clock.sleeps).toEqual([2000]);
+  });
+
+  it('gives up when retry-after is longer than the longest delay', async () => {
+    const { clock, limiter } = setup();
+    const tooLong = { ...rateLimited, headers: { 'retry-after': '60' } };
+    const script = attempts(tooLong, {});
+
+    const result = await withRetry(script.call, (outcome) => outcome, {
+      limiter,
+      idempotent: true,
+      sleep: clock.sleep,
+    });
+
+    expect(result).toBe(tooLong);
+    expect(script.calls).toBe(1);
+  });
+
+  it('returns the last failure once retries run out', async () => {
+    const { clock, limiter } = setup();
+    const script = attempts(serverError);
+
+    const result = await withRetry(script.call, (outcome) => outcome, {
+      limiter,
+      idempotent: true,
+      maxRetries: 2,
+      sleep: clock.sleep,
+    });
+
+    expect(result).toBe(serverError);
+    expect(script.calls).toBe(3);
+  });
+
+  it('does not repeat unsafe requests after server errors', async () => {
+    const { clock, limiter } = setup();
+    const script = attempts(serverError, {});
+
+    const result = await withRetry(script.call, (outcome) => outcome, {
+      limiter,
+      idempotent: false,
+      sleep: clock.sleep,
+    });
+
+    expect(result).toBe(serverError);
+    expect(script.calls).toBe(1);
+  });
+
+  it('does not retry quota errors or client errors', async () => {
+    const { clock, limiter } = setup();
+    for (const failure of [
+      { status: 429, name: 'monthly_quota_exceeded' },
+      { status: 422, name: 'validation_error' },
+    ]) {
+      const script = attempts({ failure }, {});
+
+      await withRetry(script.call, (outcome) => outcome, {
+        limiter,
+        idempotent: true,
+        sleep: clock.sleep,
+      });
+
+      expect(script.calls).toBe(1);
+    }
+  });
+
+  it('retries thrown errors only when the request is safe to repeat', async () => {
+    const { clock, limiter } = setup();
+    let calls = 0;
+    const flaky = async () => {
+      calls++;
+      if (calls === 1) throw new Error('socket hang up');
+      return {};
+    };
+
+    await expect(
+      withRetry(flaky, () => ({}), {
+        limiter,
+        idempotent: true,
+        sleep: clock.sleep,
+      }),
+    ).resolves.toEqual({});
+    calls = 0;
+    await expect(
+      withRetry(flaky, () => ({}), {
+        limiter,
+        idempotent: false,
+        sleep: clock.sleep,
+      }),
+    ).rejects.toThrow('socket hang up');
+  });
+});
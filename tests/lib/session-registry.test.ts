@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SessionRegistry } from '../../src/lib/session-registry.js';
+
+function setup(limits = { idleTimeoutMs: 100, maxAgeMs: 1000, maxPerKey: 2 }) {
+  let now = 0;
+  const registry = new SessionRegistry<{ close: () => Promise<void> }>({
+    limits,
+    now: () => now,
+  });
+  const transport = () => ({ close: vi.fn().mockResolvedValue(undefined) });
+  return {
+    registry,
+    transport,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+describe('SessionRegistry', () => {
+  it('keeps a session alive while it is used and expires it when idle', () => {
+    const { registry, transport, advance } = setup();
+    registry.add('s_1', 're_a', transport());
+
+    advance(90);
+    expect(registry.get('s_1')?.apiKey).toBe('re_a');
+    advance(90);
+    expect(registry.get('s_1')).toBeDefined();
+    advance(100);
+    expect(registry.get('s_1')).toBeUndefined();
+  });
+
+  it('expires a session at its maximum age however busy it is', () => {
+    const { registry, transport, advance } = setup();
+    registry.add('s_1', 're_a', transport());
+
+    for (let i = 0; i < 10; i++) {
+      advance(99);
+      registry.get('s_1');
+    }
+    advance(10);
+
+    expect(registry.get('s_1')).toBeUndefined();
+  });
+
+  it('caps live sessions per API key and counts them', () => {
+    const { registry, transport, advance } = setup();
+    registry.add('s_1', 're_a', transport());
+    advance(60);
+    registry.add('s_2', 're_a', transport());
+    registry.add('s_3', 're_b', transport());
+
+    expect(registry.isFull('re_a')).toBe(true);
+    expect(registry.isFull('re_b')).toBe(false);
+    expect(registry.counts()).toEqual({ active: 3, apiKeys: 2 });
+
+    advance(50);
+    expect(registry.isFull('re_a')).toBe(false);
+    expect(registry.counts()).toEqual({ active: 2, apiKeys: 2 });
+  });
+
+  it('counts reserved slots until they are released', () => {
+    const { registry, transport } = setup();
+    const first = registry.reserve('re_a');
+    const second = registry.reserve('re_a');
+
+    expect(first).toBeDefined();
+    expect(second).toBeDefined();
+    expect(registry.reserve('re_a')).toBeUndefined();
+
+    registry.add('s_1', 're_a', transport());
+    first?.();
+    first?.();
+    expect(registry.isFull('re_a')).toBe(true);
+
+    second?.();
+    expect(registry.isFull('re_a')).toBe(false);
+    expect(registry.counts()).toEqual({ active: 1, apiKeys: 1 });
+  });
+
+  it('reaps only expired sessions, closing their transports', async () => {
+    const { registry, transport, advance } = setup();
+    const stale = transport();
+    const fresh = transport();
+    registry.add('s_1', 're_a', stale);
+    advance(60);
+    registry.add('s_2', 're_a', fresh);
+    advance(50);
+
+    expect(await registry.reap()).toBe(1);
+    expect(stale.close).toHaveBeenCalledOnce();
+    expect(fresh.close).not.toHaveBeenCalled();
+    expect(registry.get('s_2')).toBeDefined();
+  });
+
+  it('never expires or caps sessions when the limits are 0', async () => {
+    const { registry, transport, advance } = setup({
+      idleTimeoutMs: 0,
+      maxAgeMs: 0,
+      maxPerKey: 0,
+    });
+    registry.add('s_1', 're_a', transport());
+    advance(1e9);
+
+    expect(await registry.reap()).toBe(0);
+    expect(registry.isFull('re_a')).toBe(false);
+    expect(registry.get('s_1')).toBeDefined();
+  });
+});
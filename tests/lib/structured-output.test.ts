@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { paginationOutput } from '../../src/lib/structured-output.js';
+
+describe('paginationOutput', () => {
+  it('uses the last item ID as the next cursor when more are available', () => {
+    expect(paginationOutput([{ id: 'a' }, { id: 'b' }], true)).toEqual({
+      has_more: true,
+      next_cursor: 'b',
+    });
+  });
+
+  it('returns a null cursor on the last page', () => {
+    expect(paginationOutput([{ id: 'a' }], false)).toEqual({
+      has_more: false,
+      next_cursor: null,
+    });
+  });
+
+  it('returns a null cursor for an empty page', () => {
+    expect(paginationOutput([], true)).toEqual({
+      has_more: true,
+      next_cursor: null,
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ALL_TOOL_NAMES,
+  createToolFilter,
+  expandToolNames,
+  findUnknownToolNames,
+  TOOL_GROUPS,
+} from '../../src/lib/tool-filter.js';
+
+describe('expandToolNames', () => {
+  it('expands group names into their tools', () => {
+    expect(expandToolNames(['logs'])).toEqual(['list-logs', 'get-log']);
+  });
+
+  it('passes tool names through unchanged', () => {
+    expect(expandToolNames(['send-email', 'segments'])).toEqual([
+      'send-email',
+      ...TOOL_GROUPS.segments,
+    ]);
+  });
+});
+
+describe('findUnknownToolNames', () => {
+  it('accepts tool and group names', () => {
+    expect(findUnknownToolNames(['emails', 'create-api-key'])).toEqual([]);
+  });
+
+  it('returns names that are neither tools nor groups', () => {
+    expect(findUnknownToolNames(['emails', 'mail', 'toString'])).toEqual([
+      'mail',
+      'toString',
+    ]);
+  });
+});
+
+describe('createToolFilter', () => {
+  it('allows every tool when no lists are given', () => {
+    const isEnabled = createToolFilter({});
+    expect(ALL_TOOL_NAMES.every(isEnabled)).toBe(true);
+  });
+
+  it('allows only listed tools and groups', () => {
+    const isEnabled = createToolFilter({ tools: ['emails', 'list-segments'] });
+    expect(isEnabled('send-email')).toBe(true);
+    expect(isEnabled('list-segments')).toBe(true);
+    expect(isEnabled('remove-segment')).toBe(false);
+    expect(isEnabled('create-api-key')).toBe(false);
+  });
+
+  it('excludes listed tools and groups', () => {
+    const isEnabled = createToolFilter({ excludeTools: ['api-keys'] });
+    expect(isEnabled('create-api-key')).toBe(false);
+    expect(isEnabled('send-email')).toBe(true);
+  });
+
+  it('applies the denylist after the allowlist', () => {
+    const isEnabled = createToolFilter({
+      tools: ['emails'],
+      excludeTools: ['send-batch-emails'],
+    });
+    expect(isEnabled('send-email')).toBe(true);
+    expect(isEnabled('send-batch-emails')).toBe(false);
+  });
+});
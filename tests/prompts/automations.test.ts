@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { createToolHarness, ok } from '../support/tool-harness.js';
+
+describe('automation prompts', () => {
+  it('welcome-series enables the automation before testing it', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.client.getPrompt({
+      name: 'welcome-series',
+      arguments: { eventName: 'user.created', emails: '2' },
+    });
+    await harness.close();
+
+    expect(result.description).toBe('Welcome series on user.created');
+    expect(result.messages[0].content).toEqual({
+      type: 'text',
+      text: 'I want a welcome series: 2 emails, 1 day apart, starting when the "user.created" event is sent.',
+    });
+    const plan = result.messages[1].content;
+    expect(plan.type === 'text' && plan.text).toMatch(
+      /\n4\. Call create-automation with status "disabled".*\n5\. .*call update-automation to enable it.*\n6\. Call send-event .*get-automation-runs/s,
+    );
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('welcome-series completes event names', async () => {
+    const harness = await createToolHarness({
+      'events.list': ok({
+        object: 'list',
+        has_more: false,
+        data: [
+          { id: 'evt_1', name: 'user.created' },
+          { id: 'evt_2', name: 'order.paid' },
+        ],
+      }),
+    });
+
+    const result = await harness.client.complete({
+      ref: { type: 'ref/prompt', name: 'welcome-series' },
+      argument: { name: 'eventName', value: 'user' },
+    });
+    await harness.close();
+
+    expect(result.completion.values).toEqual(['user.created']);
+  });
+
+  it('welcome-series is not offered without send-event', async () => {
+    const harness = await createToolHarness(
+      {},
+      { excludeTools: ['send-event'] },
+    );
+
+    const { prompts } = await harness.client.listPrompts();
+    await harness.close();
+
+    expect(prompts.map(({ name }) => name)).not.toContain('welcome-series');
+  });
+});
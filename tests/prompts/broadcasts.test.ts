@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createToolHarness, ok } from '../support/tool-harness.js';
+
+describe('broadcast prompts', () => {
+  it('newsletter walks from segment to send, naming the tools', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.client.getPrompt({
+      name: 'newsletter',
+      arguments: { topic: 'the spring release', segment: 'Customers' },
+    });
+    await harness.close();
+
+    expect(result.description).toBe('Newsletter about the spring release');
+    expect(result.messages.map(({ role }) => role)).toEqual([
+      'user',
+      'assistant',
+      'user',
+    ]);
+    expect(result.messages[0].content).toEqual({
+      type: 'text',
+      text: 'I want to send a newsletter about: the spring release',
+    });
+    const plan = result.messages[1].content;
+    expect(plan.type === 'text' && plan.text).toMatch(
+      /^Here is the plan:\n\n1\. Call list-segments and find the segment "Customers"\.\n2\. Call create-broadcast .*a subject you propose.*\n3\. Call get-tiptap-json-content .*compose-broadcast.*\n4\. .*\n5\. Once I approve, call send-broadcast/s,
+    );
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('newsletter completes segment names', async () => {
+    const harness = await createToolHarness({
+      'segments.list': ok({
+        object: 'list',
+        has_more: false,
+        data: [
+          { id: 'seg_1', name: 'Customers' },
+          { id: 'seg_2', name: 'Beta testers' },
+        ],
+      }),
+    });
+
+    const result = await harness.client.complete({
+      ref: { type: 'ref/prompt', name: 'newsletter' },
+      argument: { name: 'segment', value: 'cust' },
+    });
+    await harness.close();
+
+    expect(result.completion.values).toEqual(['Customers']);
+  });
+
+  it('newsletter rejects a missing topic', async () => {
+    const harness = await createToolHarness();
+
+    await expect(
+      harness.client.getPrompt({ name: 'newsletter', arguments: {} }),
+    ).rejects.toThrow(/topic/);
+    await harness.close();
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { createToolHarness } from '../support/tool-harness.js';
+
+describe('domain prompts', () => {
+  it('verify-new-domain fills in the domain and region', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.client.getPrompt({
+      name: 'verify-new-domain',
+      arguments: { domain: 'example.com', region: 'eu-west-1' },
+    });
+    await harness.close();
+
+    const plan = result.messages[1].content;
+    expect(plan.type === 'text' && plan.text).toContain(
+      '2. Call create-domain for example.com in the eu-west-1 region.',
+    );
+    expect(plan.type === 'text' && plan.text).toContain(
+      'suggest a sender address such as hello@example.com.',
+    );
+  });
+});
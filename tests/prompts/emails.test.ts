@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createToolHarness } from '../support/tool-harness.js';
+
+describe('email prompts', () => {
+  it('triage-inbox fills in the count and focus', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.client.getPrompt({
+      name: 'triage-inbox',
+      arguments: { count: '5', focus: 'support requests' },
+    });
+    await harness.close();
+
+    expect(result.messages[0].content).toEqual({
+      type: 'text',
+      text: 'Help me triage the last 5 emails I received, looking out for support requests.',
+    });
+    const plan = result.messages[1].content;
+    expect(plan.type === 'text' && plan.text).toContain(
+      '1. Call list-received-emails with limit 5.',
+    );
+    expect(plan.type === 'text' && plan.text).toContain(
+      'Send each reply with send-email only after I approve it',
+    );
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('triage-inbox defaults to the last 20 emails', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.client.getPrompt({
+      name: 'triage-inbox',
+      arguments: {},
+    });
+    await harness.close();
+
+    expect(result.messages[0].content).toEqual({
+      type: 'text',
+      text: 'Help me triage the last 20 emails I received.',
+    });
+  });
+
+  it('triage-inbox is not offered without send-email', async () => {
+    const harness = await createToolHarness(
+      {},
+      { excludeTools: ['send-email'] },
+    );
+
+    const { prompts } = await harness.client.listPrompts();
+    await harness.close();
+
+    expect(prompts.map(({ name }) => name)).not.toContain('triage-inbox');
+  });
+});
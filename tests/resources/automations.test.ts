@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createToolHarness, ok } from '../support/tool-harness.js';
+
+describe('automation resources', () => {
+  it('reads an automation as the workflow the automation tools accept', async () => {
+    const harness = await createToolHarness({
+      'automations.get': ok({
+        object: 'automation',
+        id: 'auto_1',
+        name: 'Welcome Series',
+        status: 'enabled',
+        steps: [
+          {
+            key: 'trigger',
+            type: 'trigger',
+            config: { eventName: 'user.created' },
+          },
+          {
+            key: 'send_email_1',
+            type: 'send_email',
+            config: { template: { id: 'tpl_1' } },
+          },
+        ],
+        connections: [{ from: 'trigger', to: 'send_email_1', type: 'default' }],
+      }),
+    });
+
+    const result = await harness.client.readResource({
+      uri: 'resend://automations/auto_1/workflow',
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual(['auto_1']);
+    expect(result.contents[0].mimeType).toBe('application/json');
+    expect(JSON.parse(result.contents[0].text as string)).toEqual({
+      steps: [
+        {
+          key: 'trigger',
+          type: 'trigger',
+          config: { eventName: 'user.created' },
+          next: 'send_email_1',
+        },
+        {
+          key: 'send_email_1',
+          type: 'send_email',
+          config: { template: { id: 'tpl_1' } },
+          next: null,
+        },
+      ],
+    });
+  });
+});
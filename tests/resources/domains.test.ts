@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { createToolHarness, ok } from '../support/tool-harness.js';
+
+describe('domain resources', () => {
+  it('reads a domain as JSON, including its DNS records', async () => {
+    const domain = {
+      object: 'domain',
+      id: 'dom_1',
+      name: 'example.com',
+      status: 'pending',
+      region: 'us-east-1',
+      records: [
+        {
+          record: 'SPF',
+          name: 'send',
+          type: 'TXT',
+          value: 'v=spf1 include:amazonses.com ~all',
+          status: 'pending',
+        },
+      ],
+    };
+    const harness = await createToolHarness({ 'domains.get': ok(domain) });
+
+    const result = await harness.client.readResource({
+      uri: 'resend://domains/dom_1',
+    });
+    await harness.close();
+
+    expect(result.contents).toEqual([
+      {
+        uri: 'resend://domains/dom_1',
+        mimeType: 'application/json',
+        text: JSON.stringify(domain, null, 2),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { createToolHarness, ok } from '../support/tool-harness.js';
+
+describe('segment and topic resources', () => {
+  it('completes segment IDs by name', async () => {
+    const harness = await createToolHarness({
+      'segments.list': ok({
+        object: 'list',
+        has_more: false,
+        data: [
+          { id: 'seg_1', name: 'Customers' },
+          { id: 'seg_2', name: 'Beta testers' },
+        ],
+      }),
+    });
+
+    const result = await harness.client.complete({
+      ref: { type: 'ref/resource', uri: 'resend://segments/{id}' },
+      argument: { name: 'id', value: 'beta' },
+    });
+    await harness.close();
+
+    expect(result.completion.values).toEqual(['seg_2']);
+    expect(harness.calls[0]).toEqual({
+      method: 'segments.list',
+      args: [{ limit: 100 }],
+    });
+  });
+
+  it('completes topic IDs from the unpaginated topics list', async () => {
+    const harness = await createToolHarness({
+      'topics.list': ok({
+        data: [
+          { id: 'top_1', name: 'Product updates' },
+          { id: 'top_2', name: 'Newsletter' },
+        ],
+      }),
+    });
+
+    const byName = await harness.client.complete({
+      ref: { type: 'ref/resource', uri: 'resend://topics/{id}' },
+      argument: { name: 'id', value: 'news' },
+    });
+    const byId = await harness.client.complete({
+      ref: { type: 'ref/resource', uri: 'resend://topics/{id}' },
+      argument: { name: 'id', value: 'top_' },
+    });
+    await harness.close();
+
+    expect(byName.completion.values).toEqual(['top_2']);
+    expect(byId.completion.values).toEqual(['top_1', 'top_2']);
+    expect(harness.calls).toHaveLength(1);
+  });
+
+  it('reads a topic as JSON', async () => {
+    const topic = {
+      id: 'top_1',
+      name: 'Product updates',
+      description: null,
+      default_subscription: 'opt_in',
+    };
+    const harness = await createToolHarness({ 'topics.get': ok(topic) });
+
+    const result = await harness.client.readResource({
+      uri: 'resend://topics/top_1',
+    });
+    await harness.close();
+
+    expect(result.contents).toEqual([
+      {
+        uri: 'resend://topics/top_1',
+        mimeType: 'application/json',
+        text: JSON.stringify(topic, null, 2),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { apiError, createToolHarness, ok } from '../support/tool-harness.js';
+
+const emptyList = ok({ object: 'list', has_more: false, data: [] });
+
+describe('template resources', () => {
+  it('lists the first page of templates without walking further pages', async () => {
+    const harness = await createToolHarness({
+      'templates.list': ok({
+        object: 'list',
+        has_more: true,
+        data: [{ id: 'tpl_1', name: 'Welcome' }],
+      }),
+      'automations.list': emptyList,
+      'broadcasts.list': emptyList,
+      'domains.list': emptyList,
+      'emails.list': emptyList,
+      'segments.list': emptyList,
+      'topics.list': ok({ data: [] }),
+      'webhooks.list': emptyList,
+    });
+
+    const { resources } = await harness.client.listResources();
+    await harness.close();
+
+    expect(
+      harness.calls
+        .filter(({ method }) => method === 'templates.list')
+        .map(({ args }) => args),
+    ).toEqual([[{ limit: 100 }]]);
+    expect(resources.map(({ uri, name }) => ({ uri, name }))).toEqual([
+      { uri: 'resend://templates/tpl_1', name: 'Welcome' },
+    ]);
+    expect(resources[0].mimeType).toBe('text/html');
+  });
+
+  it('only offers resources whose tools are kept by --tools and --exclude-tools', async () => {
+    const harness = await createToolHarness(
+      {
+        'templates.list': ok({
+          object: 'list',
+          has_more: false,
+          data: [{ id: 'tpl_1', name: 'Welcome' }],
+        }),
+      },
+      { tools: ['templates', 'emails'], excludeTools: ['get-email'] },
+    );
+
+    const { resources } = await harness.client.listResources();
+    const { resourceTemplates } = await harness.client.listResourceTemplates();
+    await harness.close();
+
+    expect(resources.map(({ uri }) => uri)).toEqual([
+      'resend://templates/tpl_1',
+    ]);
+    expect(resourceTemplates.map(({ uriTemplate }) => uriTemplate)).toEqual([
+      'resend://templates/{id}',
+    ]);
+    expect(harness.calls.map(({ method }) => method)).toEqual([
+      'templates.list',
+    ]);
+  });
+
+  it('reads a template as its HTML', async () => {
+    const harness = await createToolHarness({
+      'templates.get': ok({
+        id: 'tpl_1',
+        name: 'Welcome',
+        html: '<p>Hi {{{FIRST_NAME}}}</p>',
+      }),
+    });
+
+    const result = await harness.client.readResource({
+      uri: 'resend://templates/welcome',
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual(['welcome']);
+    expect(result.contents).toEqual([
+      {
+        uri: 'resend://templates/welcome',
+        mimeType: 'text/html',
+        text: '<p>Hi {{{FIRST_NAME}}}</p>',
+      },
+    ]);
+  });
+
+  it('completes template IDs from a cached list call', async () => {
+    const harness = await createToolHarness({
+      'templates.list': ok({
+        object: 'list',
+        has_more: false,
+        data: [
+          { id: 'tpl_1', name: 'Welcome', alias: 'welcome' },
+          { id: 'tpl_2', name: 'Receipt', alias: null },
+        ],
+      }),
+    });
+    const complete = (value: string) =>
+      harness.client.complete({
+        ref: { type: 'ref/resource', uri: 'resend://templates/{id}' },
+        argument: { name: 'id', value },
+      });
+
+    const byName = await complete('rece');
+    const byId = await complete('tpl_');
+    await harness.close();
+
+    expect(byName.completion.values).toEqual(['tpl_2']);
+    expect(byId.completion.values).toEqual(['tpl_1', 'tpl_2']);
+    expect(harness.calls).toHaveLength(1);
+  });
+
+  it('fails the read with the classified API error', async () => {
+    const harness = await createToolHarness({
+      'templates.get': apiError('not_found', 'Template not found', 404),
+    });
+
+    const read = harness.client.readResource({
+      uri: 'resend://templates/tpl_missing',
+    });
+
+    await expect(read).rejects.toThrow(
+      'Failed to read template tpl_missing: Template not found (not_found, 404)\nCategory: not_found',
+    );
+    await harness.close();
+  });
+});
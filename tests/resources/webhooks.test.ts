@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createToolHarness, ok } from '../support/tool-harness.js';
+
+describe('webhook resources', () => {
+  it('reads a webhook as JSON without its signing secret', async () => {
+    const harness = await createToolHarness({
+      'webhooks.get': ok({
+        object: 'webhook',
+        id: 'wh_1',
+        endpoint: 'https://example.com/hooks',
+        status: 'enabled',
+        events: ['email.sent'],
+        created_at: '2026-01-01',
+        signing_secret: 'whsec_secret',
+      }),
+    });
+
+    const result = await harness.client.readResource({
+      uri: 'resend://webhooks/wh_1',
+    });
+    await harness.close();
+
+    const [content] = result.contents;
+    expect(content.mimeType).toBe('application/json');
+    expect(JSON.parse(String(content.text))).toMatchObject({
+      id: 'wh_1',
+      endpoint: 'https://example.com/hooks',
+    });
+    expect(content.text).not.toContain('whsec_secret');
+  });
+
+  it('completes webhook IDs by endpoint', async () => {
+    const harness = await createToolHarness({
+      'webhooks.list': ok({
+        object: 'list',
+        has_more: false,
+        data: [
+          { id: 'wh_1', endpoint: 'https://example.com/hooks' },
+          { id: 'wh_2', endpoint: 'https://staging.example.com/hooks' },
+        ],
+      }),
+    });
+
+    const result = await harness.client.complete({
+      ref: { type: 'ref/resource', uri: 'resend://webhooks/{id}' },
+      argument: { name: 'id', value: 'staging' },
+    });
+    await harness.close();
+
+    expect(result.completion.values).toEqual(['wh_2']);
+  });
+});
@@ -1,6 +1,97 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  ElicitRequestSchema,
+  type ElicitResult,
+} from '@modelcontextprotocol/sdk/types.js';
 import type { Resend } from 'resend';
 import { describe, expect, it } from 'vitest';
-import { createMcpServer } from '../src/server.js';
+import { AccountSwitcher } from '../src/lib/accounts.js';
+import { createLogger, setLogger } from '../src/lib/logger.js';
+import type { ResendEditorClient } from '../src/lib/resend-editor-client.js';
+import { ALL_TOOL_NAMES, TOOL_GROUPS } from '../src/lib/tool-filter.js';
+import { createMcpServer, type ServerOptions } from '../src/server.js';
+
+async function connectClient(
+  options: ServerOptions,
+  resend: Resend = {} as Resend,
+) {
+  const server = createMcpServer(resend, options, 're_test_key');
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await Promise.all([
+    server.connect(serverTransport),
+    client.connect(clientTransport),
+  ]);
+  return client;
+}
+
+/**
+ * Connect a client that supports elicitation and answers every confirmation
+ * prompt with `respond`, recording the prompt messages.
+ */
+async function connectElicitingClient(
+  resend: unknown,
+  respond: (message: string) => ElicitResult,
+) {
+  const server = createMcpServer(
+    resend as Resend,
+    { replierEmailAddresses: [] },
+    're_test_key',
+  );
+  const client = new Client(
+    { name: 'test-client', version: '1.0.0' },
+    { capabilities: { elicitation: {} } },
+  );
+  const prompts: string[] = [];
+  client.setRequestHandler(ElicitRequestSchema, (request) => {
+    const { message } = request.params;
+    prompts.push(message);
+    return respond(message);
+  });
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await Promise.all([
+    server.connect(serverTransport),
+    client.connect(clientTransport),
+  ]);
+  return { client, prompts };
+}
+
+async function listTools(options: ServerOptions) {
+  const client = await connectClient(options);
+  const { tools } = await client.listTools();
+  await client.close();
+  return tools;
+}
+
+/**
+ * Call a tool against a stubbed Resend client. Tools are listed first so the
+ * client validates structuredContent against each tool's outputSchema.
+ */
+async function callTool(
+  resend: unknown,
+  name: string,
+  args: Record<string, unknown> = {},
+) {
+  const client = await connectClient(
+    { replierEmailAddresses: [] },
+    resend as Resend,
+  );
+  await client.listTools();
+  const result = await client.callTool({ name, arguments: args });
+  await client.close();
+  return result;
+}
+
+async function listToolNames(options: ServerOptions): Promise<string[]> {
+  const tools = await listTools(options);
+  return tools.map((tool) => tool.name);
+}
 
 describe('createMcpServer', () => {
   it('returns an MCP server with connect method', () => {
@@ -21,4 +112,577 @@ describe('createMcpServer', () => {
     expect(server).toBeDefined();
     expect(typeof server.connect).toBe('function');
   });
+
+  it('registers every tool by default, each in exactly one group', async () => {
+    const names = await listToolNames({ replierEmailAddresses: [] });
+    const optionalTools: readonly string[] = [
+      ...TOOL_GROUPS.accounts,
+      ...TOOL_GROUPS.audit,
+    ];
+    expect([...names].sort()).toEqual(
+      ALL_TOOL_NAMES.filter((name) => !optionalTools.includes(name)).sort(),
+    );
+  });
+
+  it('registers account tools only when accounts are configured', async () => {
+    const accounts = new AccountSwitcher([
+      { name: 'us', apiKey: 're_us' },
+      { name: 'eu', apiKey: 're_eu' },
+    ]);
+    const names = await listToolNames({
+      replierEmailAddresses: [],
+      accounts,
+    });
+    expect(names).toContain('list-accounts');
+    expect(names).toContain('switch-account');
+  });
+
+  it('keeps switch-account in --read-only and --dry-run mode', async () => {
+    const accounts = new AccountSwitcher([
+      { name: 'us', apiKey: 're_us' },
+      { name: 'eu', apiKey: 're_eu' },
+    ]);
+    for (const mode of [{ readOnly: true }, { dryRun: true }]) {
+      const names = await listToolNames({
+        replierEmailAddresses: [],
+        accounts,
+        ...mode,
+      });
+      expect(names).toContain('switch-account');
+    }
+  });
+
+  it('switches the account used by every tool', async () => {
+    const listed: string[] = [];
+    const accounts = new AccountSwitcher(
+      [
+        { name: 'us', apiKey: 're_us' },
+        { name: 'eu', apiKey: 're_eu' },
+      ],
+      (apiKey) => ({
+        resend: {
+          segments: {
+            list: async () => {
+              listed.push(apiKey);
+              return {
+                data: { object: 'list', has_more: false, data: [] },
+                error: null,
+              };
+            },
+          },
+        } as unknown as Resend,
+        editorClient: {} as ResendEditorClient,
+      }),
+    );
+    const client = await connectClient(
+      { replierEmailAddresses: [], accounts },
+      {} as Resend,
+    );
+    await client.listTools();
+
+    await client.callTool({ name: 'list-segments', arguments: {} });
+    const switched = await client.callTool({
+      name: 'switch-account',
+      arguments: { name: 'eu' },
+    });
+    await client.callTool({ name: 'list-segments', arguments: {} });
+    const unknown = await client.callTool({
+      name: 'switch-account',
+      arguments: { name: 'apac' },
+    });
+    const listedAccounts = await client.callTool({
+      name: 'list-accounts',
+      arguments: {},
+    });
+    await client.close();
+
+    expect(listed).toEqual(['re_us', 're_eu']);
+    expect(switched.structuredContent).toMatchObject({ active: 'eu' });
+    expect(unknown.isError).toBe(true);
+    expect(listedAccounts.structuredContent).toEqual({
+      accounts: [
+        { name: 'us', active: false },
+        { name: 'eu', active: true },
+      ],
+      active: 'eu',
+    });
+    expect(JSON.stringify(listedAccounts)).not.toContain('re_');
+  });
+
+  it('registers only tools from --tools', async () => {
+    const names = await listToolNames({
+      replierEmailAddresses: [],
+      tools: ['logs', 'send-email'],
+    });
+    expect(names.sort()).toEqual(['get-log', 'list-logs', 'send-email']);
+  });
+
+  it('skips tools from --exclude-tools', async () => {
+    const names = await listToolNames({
+      replierEmailAddresses: [],
+      excludeTools: ['api-keys', 'remove-domain'],
+    });
+    expect(names).not.toContain('create-api-key');
+    expect(names).not.toContain('remove-domain');
+    expect(names).toContain('send-email');
+  });
+
+  it('registers only list-* and get-* tools in read-only mode', async () => {
+    const names = await listToolNames({
+      replierEmailAddresses: [],
+      readOnly: true,
+    });
+    expect(names.length).toBeGreaterThan(0);
+    expect(names.every((name) => /^(list|get)-/.test(name))).toBe(true);
+    expect(names).toContain('list-emails');
+    expect(names).not.toContain('send-email');
+    expect(names).not.toContain('remove-segment');
+  });
+
+  it('combines read-only mode with --tools', async () => {
+    const names = await listToolNames({
+      replierEmailAddresses: [],
+      tools: ['segments'],
+      readOnly: true,
+    });
+    expect(names.sort()).toEqual(['get-segment', 'list-segments']);
+  });
+
+  it('offers every workflow prompt by default', async () => {
+    const client = await connectClient({ replierEmailAddresses: [] });
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(({ name }) => name).sort()).toEqual([
+      'newsletter',
+      'triage-inbox',
+      'verify-new-domain',
+      'welcome-series',
+    ]);
+  });
+
+  it('drops prompts whose tools are filtered out', async () => {
+    const client = await connectClient({
+      replierEmailAddresses: [],
+      excludeTools: ['send-broadcast'],
+    });
+    const readOnly = await connectClient({
+      replierEmailAddresses: [],
+      readOnly: true,
+    });
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(({ name }) => name)).not.toContain('newsletter');
+    expect(prompts.map(({ name }) => name)).toContain('verify-new-domain');
+    // The server declares no prompts capability when none are registered.
+    await expect(readOnly.listPrompts()).rejects.toThrow();
+  });
+
+  it('annotates every tool with all behavior hints', async () => {
+    const tools = await listTools({ replierEmailAddresses: [] });
+    for (const { name, annotations } of tools) {
+      expect(annotations, name).toEqual({
+        readOnlyHint: expect.any(Boolean),
+        destructiveHint: expect.any(Boolean),
+        idempotentHint: expect.any(Boolean),
+        openWorldHint: expect.any(Boolean),
+      });
+      expect(annotations?.readOnlyHint, name).toBe(/^(list|get)-/.test(name));
+      if (annotations?.readOnlyHint) {
+        expect(annotations.destructiveHint, name).toBe(false);
+        expect(annotations.idempotentHint, name).toBe(true);
+      }
+      if (name.startsWith('remove-')) {
+        expect(annotations?.destructiveHint, name).toBe(true);
+      }
+    }
+  });
+
+  it('declares an outputSchema on the structured list/get tools', async () => {
+    const tools = await listTools({
+      replierEmailAddresses: [],
+      tools: ['emails', 'contacts', 'broadcasts', 'templates', 'automations'],
+      readOnly: true,
+    });
+    expect(tools.length).toBeGreaterThan(0);
+    for (const { name, outputSchema } of tools) {
+      expect(outputSchema?.type, name).toBe('object');
+    }
+  });
+
+  it('returns structured pagination from list-emails', async () => {
+    const email = {
+      id: 'email_2',
+      from: 'from@test.dev',
+      to: ['to@test.dev'],
+      cc: null,
+      bcc: null,
+      reply_to: null,
+      subject: 'Hello',
+      last_event: 'delivered',
+      created_at: '2026-01-01T00:00:00Z',
+      scheduled_at: null,
+    };
+    const resend = {
+      emails: {
+        list: async () => ({
+          data: { object: 'list', has_more: true, data: [email] },
+          error: null,
+        }),
+      },
+    };
+
+    const result = await callTool(resend, 'list-emails', { limit: 1 });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toEqual({
+      emails: [email],
+      has_more: true,
+      next_cursor: 'email_2',
+    });
+  });
+
+  it('returns structured content for an empty page', async () => {
+    const resend = {
+      contacts: {
+        list: async () => ({
+          data: { object: 'list', has_more: false, data: [] },
+          error: null,
+        }),
+      },
+    };
+
+    const result = await callTool(resend, 'list-contacts');
+
+    expect(result.structuredContent).toEqual({
+      contacts: [],
+      has_more: false,
+      next_cursor: null,
+    });
+  });
+
+  it('returns the automation and its workflow from get-automation', async () => {
+    const resend = {
+      automations: {
+        get: async () => ({
+          data: {
+            object: 'automation',
+            id: 'auto_1',
+            name: 'Welcome',
+            status: 'enabled',
+            created_at: '2026-01-01T00:00:00Z',
+            updated_at: null,
+            steps: [],
+            connections: [],
+          },
+          error: null,
+        }),
+      },
+    };
+
+    const result = await callTool(resend, 'get-automation', { id: 'auto_1' });
+
+    expect(result.structuredContent).toEqual({
+      automation: {
+        id: 'auto_1',
+        name: 'Welcome',
+        status: 'enabled',
+        created_at: '2026-01-01T00:00:00Z',
+        updated_at: null,
+        workflow: { steps: [] },
+      },
+    });
+  });
+
+  it('registers only dry-run capable mutating tools in dry-run mode', async () => {
+    const names = await listToolNames({
+      replierEmailAddresses: [],
+      dryRun: true,
+    });
+    expect(names).toContain('send-email');
+    expect(names).toContain('send-batch-emails');
+    expect(names).toContain('send-broadcast');
+    expect(names).toContain('create-automation');
+    expect(names).toContain('remove-contact');
+    expect(names).toContain('list-emails');
+    expect(names).not.toContain('create-contact');
+    expect(names).not.toContain('update-broadcast');
+  });
+
+  it('logs each tool call with its correlation ID, redacted arguments and outcome', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'resend-mcp-log-'));
+    const file = path.join(dir, 'server.log');
+    setLogger(createLogger({ level: 'info', file }));
+    const resend = {
+      segments: {
+        get: async () => ({
+          data: null,
+          error: { name: 'not_found', statusCode: 404, message: 'Not found' },
+        }),
+      },
+    };
+
+    try {
+      await callTool(resend, 'get-segment', { id: 'seg_missing' });
+    } finally {
+      setLogger(createLogger());
+    }
+    const lines = fs.readFileSync(file, 'utf8').trim().split('\n');
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      {
+        time: expect.any(String),
+        level: 'info',
+        event: 'tool_call',
+        correlationId: expect.stringMatching(/^[\da-f-]{36}$/),
+        tool: 'get-segment',
+        arguments: { id: 'seg_missing' },
+        requests: [],
+        durationMs: expect.any(Number),
+        outcome: 'error',
+        error: 'Failed to get segment: Not found (not_found, 404)',
+      },
+    ]);
+  });
+
+  it('previews the exact request in dry-run mode without calling Resend', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'resend-mcp-dry-run-'));
+    const filePath = path.join(dir, 'report.txt');
+    fs.writeFileSync(filePath, 'hello');
+    const resend = new Proxy(
+      {},
+      {
+        get() {
+          throw new Error('Resend must not be called in dry-run mode');
+        },
+      },
+    );
+    const client = await connectClient(
+      {
+        senderEmailAddress: 'from@test.dev',
+        replierEmailAddresses: [],
+        dryRun: true,
+      },
+      resend as Resend,
+    );
+
+    const result = await client.callTool({
+      name: 'send-email',
+      arguments: {
+        to: ['to@test.dev'],
+        subject: 'Hi',
+        text: 'Hello',
+        attachments: [{ filename: 'report.txt', filePath }],
+      },
+    });
+    await client.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toEqual({
+      dryRun: true,
+      method: 'emails.send',
+      arguments: [
+        {
+          to: ['to@test.dev'],
+          subject: 'Hi',
+          text: 'Hello',
+          from: 'from@test.dev',
+          replyTo: [],
+          attachments: [
+            {
+              filename: 'report.txt',
+              content: '<5 bytes of binary content>',
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('honors a per-call dryRun argument', async () => {
+    const removed: string[] = [];
+    const resend = {
+      segments: {
+        remove: async (id: string) => {
+          removed.push(id);
+          return {
+            data: { object: 'segment', id, deleted: true },
+            error: null,
+          };
+        },
+      },
+      automations: {
+        create: async () => {
+          throw new Error('not expected');
+        },
+      },
+    };
+
+    const preview = await callTool(resend, 'remove-segment', {
+      id: 'seg_1',
+      dryRun: true,
+    });
+    const real = await callTool(resend, 'remove-segment', {
+      id: 'seg_2',
+      confirm: true,
+    });
+    const automation = await callTool(resend, 'create-automation', {
+      name: 'Welcome',
+      workflow: {
+        steps: [
+          {
+            key: 'trigger',
+            type: 'trigger',
+            config: { eventName: 'user.created' },
+            next: null,
+          },
+        ],
+      },
+      dryRun: true,
+    });
+
+    expect(preview.structuredContent).toEqual({
+      dryRun: true,
+      method: 'segments.remove',
+      arguments: ['seg_1'],
+    });
+    expect(real.isError).toBeFalsy();
+    expect(removed).toEqual(['seg_2']);
+    expect(automation.structuredContent).toMatchObject({
+      method: 'automations.create',
+      arguments: [{ name: 'Welcome', connections: [] }],
+    });
+  });
+
+  describe('confirmation', () => {
+    function segmentsStub(removed: string[]) {
+      return {
+        segments: {
+          get: async (id: string) => ({
+            data: { id, name: 'Newsletter' },
+            error: null,
+          }),
+          remove: async (id: string) => {
+            removed.push(id);
+            return { data: { id, deleted: true }, error: null };
+          },
+        },
+      };
+    }
+
+    it('requires confirm: true when the client cannot elicit', async () => {
+      const removed: string[] = [];
+      const resend = segmentsStub(removed);
+
+      const refused = await callTool(resend, 'remove-segment', { id: 'seg_1' });
+      const confirmed = await callTool(resend, 'remove-segment', {
+        id: 'seg_1',
+        confirm: true,
+      });
+
+      expect(refused.isError).toBe(true);
+      expect(refused.content).toEqual([
+        expect.objectContaining({
+          text: expect.stringContaining(
+            'Confirmation required: Remove segment "Newsletter" (seg_1)',
+          ),
+        }),
+      ]);
+      expect(confirmed.isError).toBeFalsy();
+      expect(removed).toEqual(['seg_1']);
+    });
+
+    it('asks the user through elicitation and honors their answer', async () => {
+      const removed: string[] = [];
+      const answers: ElicitResult[] = [
+        { action: 'accept', content: { confirm: true } },
+        { action: 'accept', content: { confirm: false } },
+        { action: 'decline' },
+      ];
+      const { client, prompts } = await connectElicitingClient(
+        segmentsStub(removed),
+        () => answers.shift() ?? { action: 'cancel' },
+      );
+
+      const accepted = await client.callTool({
+        name: 'remove-segment',
+        arguments: { id: 'seg_1' },
+      });
+      const unchecked = await client.callTool({
+        name: 'remove-segment',
+        arguments: { id: 'seg_2' },
+      });
+      // confirm: true does not bypass the prompt when the user can be asked.
+      const declined = await client.callTool({
+        name: 'remove-segment',
+        arguments: { id: 'seg_3', confirm: true },
+      });
+      await client.close();
+
+      expect(prompts).toHaveLength(3);
+      expect(prompts[0]).toBe(
+        'Remove segment "Newsletter" (seg_1). This cannot be undone.',
+      );
+      expect(accepted.isError).toBeFalsy();
+      expect(removed).toEqual(['seg_1']);
+      for (const result of [unchecked, declined]) {
+        expect(result.isError).toBeFalsy();
+        expect(result.content).toEqual([
+          expect.objectContaining({
+            text: expect.stringContaining(
+              'Cancelled: the user did not confirm',
+            ),
+          }),
+        ]);
+      }
+    });
+
+    it('summarizes batch sends by email and recipient count', async () => {
+      const { client, prompts } = await connectElicitingClient(
+        { batch: { send: async () => ({ data: { data: [] }, error: null }) } },
+        () => ({ action: 'decline' }),
+      );
+
+      await client.callTool({
+        name: 'send-batch-emails',
+        arguments: {
+          emails: [
+            {
+              from: 'from@test.dev',
+              to: ['a@test.dev', 'b@test.dev'],
+              subject: 'Hi',
+              text: 'Hello',
+            },
+            {
+              from: 'from@test.dev',
+              to: ['a@test.dev'],
+              cc: ['c@test.dev'],
+              subject: 'Hi',
+              text: 'Hello again',
+            },
+          ],
+        },
+      });
+      await client.close();
+
+      expect(prompts).toEqual([
+        'Send 2 emails to 3 unique recipients. Subject: "Hi". Sent emails cannot be recalled.',
+      ]);
+    });
+
+    it('skips confirmation for dry runs', async () => {
+      const { client, prompts } = await connectElicitingClient({}, () => ({
+        action: 'decline',
+      }));
+
+      const result = await client.callTool({
+        name: 'remove-domain',
+        arguments: { id: 'dom_1', dryRun: true },
+      });
+      await client.close();
+
+      expect(prompts).toEqual([]);
+      expect(result.structuredContent).toMatchObject({ dryRun: true });
+    });
+  });
 });
@@ -0,0 +1,232 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+  /** Bearer token sent with the request, if any. */
+  apiKey: string | null;
+  userAgent?: string;
+}
+
+type StoredResource = Record<string, unknown> & { id: string };
+
+/** A canned response for `failNext`. */
+export interface FakeFailure {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface FakeResendServer {
+  /** Base URL to pass as apiUrl / dashboardUrl. */
+  url: string;
+  /** Every request received, in order. */
+  requests: RecordedRequest[];
+  /** Add a resource to a collection (e.g. "segments") and return it. */
+  seed(collection: string, resource: Record<string, unknown>): StoredResource;
+  /** Current contents of a collection. */
+  list(collection: string): StoredResource[];
+  /** Answer the next `times` API requests with `failure` instead of routing them. */
+  failNext(failure: FakeFailure, times?: number): void;
+  close(): Promise<void>;
+}
+
+/**
+ * A small in-memory stand-in for the Resend API (and the dashboard endpoint
+ * the editor tools use), for end-to-end tests without the network.
+ * Collections behave like generic REST resources: POST creates (and echoes
+ * the stored resource), GET lists or fetches, PATCH merges and DELETE removes. Unknown IDs get Resend's 404
+ * error shape; requests without a Bearer token get its 401.
+ */
+export async function startFakeResendServer(): Promise<FakeResendServer> {
+  const requests: RecordedRequest[] = [];
+  const collections = new Map<string, Map<string, StoredResource>>();
+  const failures: FakeFailure[] = [];
+  let nextId = 1;
+
+  function collection(name: string): Map<string, StoredResource> {
+    let items = collections.get(name);
+    if (!items) {
+      items = new Map();
+      collections.set(name, items);
+    }
+    return items;
+  }
+
+  function store(
+    name: string,
+    fields: Record<string, unknown>,
+  ): StoredResource {
+    const resource: StoredResource = {
+      object: name.replace(/s$/, ''),
+      created_at: new Date(0).toISOString(),
+      ...fields,
+      id: typeof fields.id === 'string' ? fields.id : `${name}_${nextId++}`,
+    };
+    collection(name).set(resource.id, resource);
+    return resource;
+  }
+
+  function send(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      // A generous limit, so paced clients don't slow tests down.
+      'ratelimit-limit': '50',
+      'ratelimit-policy': '50;w=1',
+    });
+    res.end(JSON.stringify(body));
+  }
+
+  function notFound(res: ServerResponse, message: string): void {
+    send(res, 404, { statusCode: 404, name: 'not_found', message });
+  }
+
+  async function readBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString('utf8');
+    return text ? JSON.parse(text) : undefined;
+  }
+
+  function route(
+    method: string,
+    segments: string[],
+    body: unknown,
+    res: ServerResponse,
+  ): void {
+    const [name, id, ...rest] = segments;
+    const fields = (body ?? {}) as Record<string, unknown>;
+
+    if (name === 'editor') {
+      if (id === 'connections') {
+        send(
+          res,
+          200,
+          method === 'DELETE'
+            ? { ok: true }
+            : { apiKeyId: 'key_fake', room_id: 'room_fake' },
+        );
+      } else if (method === 'GET') {
+        send(res, 200, { content: { type: 'doc', content: [] } });
+      } else {
+        send(res, 200, { id: fields.resource_id, object: 'editor_content' });
+      }
+      return;
+    }
+
+    if (name === 'emails' && id === 'batch' && method === 'POST') {
+      const emails = (Array.isArray(body) ? body : []) as Record<
+        string,
+        unknown
+      >[];
+      send(res, 200, {
+        data: emails.map((email) => ({ id: store('emails', email).id })),
+      });
+      return;
+    }
+
+    if (!name || rest.length > 0) {
+      notFound(res, `Route not found: ${method} /${segments.join('/')}`);
+      return;
+    }
+
+    const items = collection(name);
+    if (id === undefined) {
+      if (method === 'POST') {
+        send(res, 200, store(name, fields));
+      } else if (method === 'GET') {
+        send(res, 200, {
+          object: 'list',
+          has_more: false,
+          data: [...items.values()],
+        });
+      } else {
+        notFound(res, `Route not found: ${method} /${name}`);
+      }
+      return;
+    }
+
+    const existing = items.get(id);
+    if (!existing) {
+      notFound(res, `${name} ${id} not found`);
+      return;
+    }
+    if (method === 'GET') {
+      send(res, 200, existing);
+    } else if (method === 'PATCH') {
+      items.set(id, { ...existing, ...fields, id });
+      send(res, 200, { object: existing.object, id });
+    } else if (method === 'DELETE') {
+      items.delete(id);
+      send(res, 200, { object: existing.object, id, deleted: true });
+    } else {
+      notFound(res, `Route not found: ${method} /${name}/${id}`);
+    }
+  }
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const header = req.headers.authorization;
+    const apiKey = header?.startsWith('Bearer ')
+      ? header.slice('Bearer '.length)
+      : null;
+    const body = await readBody(req);
+    const method = req.method ?? 'GET';
+    requests.push({
+      method,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      body,
+      apiKey,
+      userAgent: req.headers['user-agent'],
+    });
+
+    // The dashboard endpoint is public; everything else needs a key.
+    if (url.pathname === '/api/agent/prompt') {
+      send(res, 200, { data: 'Fake TipTap schema', version: 'fake' });
+      return;
+    }
+    if (!apiKey) {
+      send(res, 401, {
+        statusCode: 401,
+        name: 'missing_api_key',
+        message: 'Missing API key in the authorization header',
+      });
+      return;
+    }
+    const failure = failures.shift();
+    if (failure) {
+      res.writeHead(failure.status, {
+        'Content-Type': 'application/json',
+        ...failure.headers,
+      });
+      res.end(failure.body === undefined ? '' : JSON.stringify(failure.body));
+      return;
+    }
+    route(method, url.pathname.split('/').filter(Boolean), body, res);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    seed: store,
+    list: (name) => [...collection(name).values()],
+    failNext: (failure, times = 1) => {
+      for (let i = 0; i < times; i++) failures.push(failure);
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve())),
+      ),
+  };
+}
@@ -0,0 +1,109 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Resend } from 'resend';
+import { createMcpServer, type ServerOptions } from '../../src/server.js';
+
+/** One SDK call made by a tool, e.g. `{ method: 'segments.get', args: ['seg_1'] }`. */
+export interface RecordedCall {
+  method: string;
+  args: unknown[];
+}
+
+/**
+ * Scripted SDK responses by method path. A value is returned as is; a
+ * function is called with the SDK arguments. Unscripted calls throw.
+ */
+export type ResendScript = Record<string, unknown>;
+
+/** A successful SDK response. */
+export function ok<T>(data: T) {
+  return { data, error: null, headers: null };
+}
+
+/** A failed SDK response, shaped like the API's errors. */
+export function apiError(name: string, message: string, statusCode = 422) {
+  return { data: null, error: { name, message, statusCode }, headers: null };
+}
+
+/**
+ * Build a stand-in for the Resend SDK client where any method path, e.g.
+ * `resend.contacts.segments.add(...)`, resolves to the scripted response and
+ * is recorded in `calls`.
+ */
+function scriptedResend(script: ResendScript, calls: RecordedCall[]): Resend {
+  const at = (path: string[]): unknown =>
+    new Proxy(() => {}, {
+      get: (_, prop) =>
+        // Never look like a promise, so the stand-in can be awaited safely.
+        typeof prop === 'string' && prop !== 'then'
+          ? at([...path, prop])
+          : undefined,
+      apply: async (_, __, args: unknown[]) => {
+        const method = path.join('.');
+        calls.push({ method, args });
+        if (!Object.hasOwn(script, method)) {
+          throw new Error(`Unexpected call: ${method}`);
+        }
+        const response = script[method];
+        return typeof response === 'function'
+          ? (response as (...args: unknown[]) => unknown)(...args)
+          : response;
+      },
+    });
+  return at([]) as Resend;
+}
+
+export interface ToolHarness {
+  /** SDK calls made so far, in order. */
+  calls: RecordedCall[];
+  /** The connected client, for anything other than tool calls. */
+  client: Client;
+  /** Call a tool and return its result; errors come back as `isError`. */
+  callTool(
+    name: string,
+    args?: Record<string, unknown>,
+  ): Promise<CallToolResult>;
+  close(): Promise<void>;
+}
+
+/**
+ * Connect an in-memory MCP client to `createMcpServer`, backed by a scripted
+ * fake Resend client. Tools are listed on connect, so the client validates
+ * structured output against each tool's outputSchema like a real client.
+ * Editor tools don't use the SDK; point `apiUrl` at a fake server for those.
+ */
+export async function createToolHarness(
+  script: ResendScript = {},
+  options: Partial<ServerOptions> = {},
+): Promise<ToolHarness> {
+  const calls: RecordedCall[] = [];
+  const server = createMcpServer(
+    scriptedResend(script, calls),
+    { replierEmailAddresses: [], ...options },
+    're_test_key',
+  );
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await Promise.all([
+    server.connect(serverTransport),
+    client.connect(clientTransport),
+  ]);
+  await client.listTools();
+
+  return {
+    calls,
+    client,
+    callTool: async (name, args = {}) =>
+      (await client.callTool({ name, arguments: args })) as CallToolResult,
+    close: () => client.close(),
+  };
+}
+
+/** All text content of a tool result, joined by newlines. */
+export function resultText(result: CallToolResult): string {
+  return result.content
+    .map((part) => (part.type === 'text' ? part.text : ''))
+    .join('\n');
+}
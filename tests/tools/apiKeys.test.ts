@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { createToolHarness, ok, resultText } from '../support/tool-harness.js';
+
+describe('API key tools', () => {
+  it('create-api-key maps domainId and shows the token once', async () => {
+    const harness = await createToolHarness({
+      'apiKeys.create': ok({ id: 'key_1', token: 're_secret' }),
+    });
+
+    const result = await harness.callTool('create-api-key', {
+      name: 'CI',
+      permission: 'sending_access',
+      domainId: 'dom_1',
+      confirm: true,
+    });
+    await harness.close();
+
+    expect(harness.calls).toEqual([
+      {
+        method: 'apiKeys.create',
+        args: [
+          { name: 'CI', permission: 'sending_access', domain_id: 'dom_1' },
+        ],
+      },
+    ]);
+    expect(resultText(result)).toContain(
+      'Name: CI\nID: key_1\nToken: re_secret',
+    );
+    expect(resultText(result)).toContain('only shown once');
+  });
+
+  it('create-api-key omits unset options', async () => {
+    const harness = await createToolHarness({
+      'apiKeys.create': ok({ id: 'key_1', token: 're_secret' }),
+    });
+
+    await harness.callTool('create-api-key', { name: 'CI', confirm: true });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([{ name: 'CI' }]);
+  });
+
+  it('create-api-key rejects names over 50 characters', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.callTool('create-api-key', {
+      name: 'x'.repeat(51),
+      confirm: true,
+    });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('list-api-keys reports an empty account', async () => {
+    const harness = await createToolHarness({
+      'apiKeys.list': ok({ object: 'list', has_more: false, data: [] }),
+    });
+
+    const result = await harness.callTool('list-api-keys');
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([undefined]);
+    expect(resultText(result)).toBe('No API keys found.');
+  });
+
+  it('remove-api-key removes by ID once confirmed', async () => {
+    const harness = await createToolHarness({
+      'apiKeys.remove': ok({}),
+    });
+
+    const result = await harness.callTool('remove-api-key', {
+      id: 'key_1',
+      confirm: true,
+    });
+    await harness.close();
+
+    expect(harness.calls).toEqual([
+      { method: 'apiKeys.remove', args: ['key_1'] },
+    ]);
+    expect(resultText(result)).toBe('API key removed successfully.');
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { createToolHarness, ok, resultText } from '../support/tool-harness.js';
+
+const workflow = {
+  steps: [
+    {
+      key: 'trigger',
+      type: 'trigger',
+      config: { eventName: 'user.created' },
+      next: 'send_email_1',
+    },
+    {
+      key: 'send_email_1',
+      type: 'send_email',
+      config: { template: { id: 'tpl_1' } },
+      next: null,
+    },
+  ],
+};
+
+const automation = {
+  object: 'automation',
+  id: 'auto_1',
+  name: 'Welcome Series',
+  status: 'disabled',
+  created_at: '2026-01-01',
+  updated_at: null,
+};
+
+describe('automation tools', () => {
+  it('create-automation converts the workflow to steps and connections', async () => {
+    const harness = await createToolHarness({
+      'automations.create': ok({ id: 'auto_1' }),
+    });
+
+    const result = await harness.callTool('create-automation', {
+      name: 'Welcome Series',
+      workflow,
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([
+      {
+        name: 'Welcome Series',
+        steps: [
+          {
+            key: 'trigger',
+            type: 'trigger',
+            config: { eventName: 'user.created' },
+          },
+          {
+            key: 'send_email_1',
+            type: 'send_email',
+            config: { template: { id: 'tpl_1' } },
+          },
+        ],
+        connections: [{ from: 'trigger', to: 'send_email_1' }],
+      },
+    ]);
+    expect(resultText(result)).toContain('Name: Welcome Series\nID: auto_1');
+  });
+
+  it('create-automation rejects an unknown step type', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.callTool('create-automation', {
+      name: 'Welcome Series',
+      workflow: {
+        steps: [{ key: 'trigger', type: 'teleport', config: {}, next: null }],
+      },
+    });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('get-automation returns the workflow for an id', async () => {
+    const harness = await createToolHarness({
+      'automations.get': ok({
+        ...automation,
+        steps: [
+          {
+            key: 'trigger',
+            type: 'trigger',
+            config: { eventName: 'user.created' },
+          },
+          {
+            key: 'send_email_1',
+            type: 'send_email',
+            config: { template: { id: 'tpl_1' } },
+          },
+        ],
+        connections: [{ from: 'trigger', to: 'send_email_1', type: 'default' }],
+      }),
+    });
+
+    const result = await harness.callTool('get-automation', {
+      id: 'https://resend.com/automations/auto_1',
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual(['auto_1']);
+    expect(result.structuredContent).toEqual({
+      automation: {
+        id: 'auto_1',
+        name: 'Welcome Series',
+        status: 'disabled',
+        created_at: '2026-01-01',
+        updated_at: null,
+        workflow,
+      },
+    });
+  });
+
+  it('get-automation lists automations with a status filter', async () => {
+    const harness = await createToolHarness({
+      'automations.list': ok({
+        object: 'list',
+        has_more: false,
+        data: [automation],
+      }),
+    });
+
+    const result = await harness.callTool('get-automation', {
+      status: 'disabled',
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([{ status: 'disabled' }]);
+    expect(resultText(result)).toContain(
+      'Found 1 automation:\nName: Welcome Series\nID: auto_1\nStatus: disabled',
+    );
+    expect(result.structuredContent).toEqual({
+      automations: [automation],
+      has_more: false,
+      next_cursor: null,
+    });
+  });
+
+  it('remove-automation names the automation when asking for confirmation', async () => {
+    const harness = await createToolHarness({
+      'automations.get': ok(automation),
+    });
+
+    const result = await harness.callTool('remove-automation', {
+      id: 'auto_1',
+    });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain(
+      'Remove automation "Welcome Series" (auto_1). This cannot be undone.',
+    );
+    expect(harness.calls.map(({ method }) => method)).toEqual([
+      'automations.get',
+    ]);
+  });
+});
@@ -0,0 +1,238 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  type FakeResendServer,
+  startFakeResendServer,
+} from '../support/fake-resend-server.js';
+import {
+  apiError,
+  createToolHarness,
+  ok,
+  resultText,
+} from '../support/tool-harness.js';
+
+const broadcast = {
+  object: 'broadcast',
+  id: 'bc_1',
+  name: 'Launch',
+  audience_id: 'seg_1',
+  segment_id: 'seg_1',
+  from: 'news@test.dev',
+  subject: 'We launched',
+  reply_to: null,
+  preview_text: null,
+  status: 'draft',
+  created_at: '2026-01-01',
+  scheduled_at: null,
+  sent_at: null,
+  html: null,
+  text: 'Hello',
+  topic_id: null,
+};
+
+describe('broadcast tools', () => {
+  it('create-broadcast uses the configured sender and reply-to', async () => {
+    const harness = await createToolHarness(
+      { 'broadcasts.create': ok({ id: 'bc_1' }) },
+      {
+        senderEmailAddress: 'news@test.dev',
+        replierEmailAddresses: ['support@test.dev'],
+      },
+    );
+
+    const result = await harness.callTool('create-broadcast', {
+      name: 'Launch',
+      segmentId: 'seg_1',
+      subject: 'We launched',
+      text: 'Hello',
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([
+      {
+        name: 'Launch',
+        segmentId: 'seg_1',
+        subject: 'We launched',
+        text: 'Hello',
+        from: 'news@test.dev',
+        replyTo: ['support@test.dev'],
+      },
+    ]);
+    expect(resultText(result)).toContain('ID: bc_1');
+    expect(resultText(result)).toContain(
+      'Preview: https://resend.com/broadcasts/bc_1',
+    );
+  });
+
+  it('create-broadcast requires from when no sender is configured', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.callTool('create-broadcast', {
+      name: 'Launch',
+      segmentId: 'seg_1',
+      subject: 'We launched',
+      text: 'Hello',
+    });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('get-broadcast accepts a dashboard URL and lists only set fields', async () => {
+    const harness = await createToolHarness({
+      'broadcasts.get': ok(broadcast),
+    });
+
+    const result = await harness.callTool('get-broadcast', {
+      broadcastId: 'https://resend.com/broadcasts/bc_1',
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual(['bc_1']);
+    expect(resultText(result)).toBe(
+      'ID: bc_1\nName: Launch\nSegment ID: seg_1\nFrom: news@test.dev\nSubject: We launched\nStatus: draft\nCreated at: 2026-01-01\n\n--- Plain Text Content ---\nHello',
+    );
+  });
+
+  it('get-broadcast returns statuses the API adds later', async () => {
+    const harness = await createToolHarness({
+      'broadcasts.get': ok({ ...broadcast, status: 'scheduled' }),
+    });
+
+    const result = await harness.callTool('get-broadcast', {
+      broadcastId: 'bc_1',
+    });
+    await harness.close();
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({ status: 'scheduled' });
+  });
+
+  it('send-broadcast passes scheduledAt once confirmed', async () => {
+    const harness = await createToolHarness({
+      'broadcasts.send': ok({ id: 'bc_1' }),
+    });
+
+    const result = await harness.callTool('send-broadcast', {
+      broadcastId: 'bc_1',
+      scheduledAt: 'tomorrow at 10am',
+      confirm: true,
+    });
+    await harness.close();
+
+    expect(harness.calls).toEqual([
+      {
+        method: 'broadcasts.send',
+        args: ['bc_1', { scheduledAt: 'tomorrow at 10am' }],
+      },
+    ]);
+    expect(resultText(result)).toBe('Broadcast sent successfully.\nID: bc_1');
+  });
+
+  it('send-broadcast summarizes the audience when asking for confirmation', async () => {
+    const harness = await createToolHarness({
+      'broadcasts.get': ok(broadcast),
+      'segments.get': ok({ id: 'seg_1', name: 'Customers' }),
+    });
+
+    const result = await harness.callTool('send-broadcast', {
+      broadcastId: 'bc_1',
+    });
+    await harness.close();
+
+    expect(resultText(result)).toContain(
+      'Send broadcast "Launch" (bc_1) with subject "We launched" to every contact in segment "Customers" (seg_1) now.',
+    );
+  });
+
+  it('update-broadcast refuses when required fields are missing', async () => {
+    const harness = await createToolHarness({
+      'broadcasts.get': ok({ ...broadcast, from: null }),
+    });
+
+    const result = await harness.callTool('update-broadcast', {
+      broadcastId: 'bc_1',
+      subject: 'New subject',
+    });
+    await harness.close();
+
+    expect(resultText(result)).toContain(
+      'Cannot update: this broadcast is missing required fields: from.',
+    );
+    expect(harness.calls.map(({ method }) => method)).toEqual([
+      'broadcasts.get',
+    ]);
+  });
+
+  describe('compose-broadcast', () => {
+    let fake: FakeResendServer;
+
+    beforeEach(async () => {
+      fake = await startFakeResendServer();
+    });
+
+    afterEach(async () => {
+      await fake.close();
+    });
+
+    it('sets content through the editor API and updates metadata', async () => {
+      const harness = await createToolHarness(
+        {
+          'broadcasts.get': ok(broadcast),
+          'broadcasts.update': ok({ id: 'bc_1' }),
+        },
+        { apiUrl: fake.url },
+      );
+      const content = { type: 'doc', content: [] };
+
+      const result = await harness.callTool('compose-broadcast', {
+        broadcastId: 'bc_1',
+        content: JSON.stringify(content),
+        subject: 'Fresh subject',
+      });
+      await harness.close();
+
+      expect(
+        fake.requests.map(({ method, path }) => `${method} ${path}`),
+      ).toEqual([
+        'POST /editor/connections',
+        'POST /editor/content',
+        'DELETE /editor/connections',
+      ]);
+      expect(fake.requests[1].body).toEqual({
+        resource_type: 'broadcast',
+        resource_id: 'bc_1',
+        content,
+      });
+      expect(harness.calls.at(-1)).toEqual({
+        method: 'broadcasts.update',
+        args: ['bc_1', { subject: 'Fresh subject' }],
+      });
+      expect(resultText(result)).toContain(
+        'Broadcast content composed successfully.',
+      );
+    });
+
+    it('describes a failed metadata update like other API errors', async () => {
+      const harness = await createToolHarness(
+        {
+          'broadcasts.get': ok(broadcast),
+          'broadcasts.update': apiError('validation_error', 'Invalid subject'),
+        },
+        { apiUrl: fake.url },
+      );
+
+      const result = await harness.callTool('compose-broadcast', {
+        broadcastId: 'bc_1',
+        content: JSON.stringify({ type: 'doc', content: [] }),
+        subject: 'Fresh subject',
+      });
+      await harness.close();
+
+      expect(resultText(result)).toContain(
+        'Failed to update metadata: Invalid subject (validation_error, 422)\nCategory: validation',
+      );
+      expect(resultText(result)).not.toContain('{');
+    });
+  });
+});
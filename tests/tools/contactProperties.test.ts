@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { createToolHarness, ok, resultText } from '../support/tool-harness.js';
+
+describe('contact property tools', () => {
+  it('create-contact-property passes key, type and fallback value', async () => {
+    const harness = await createToolHarness({
+      'contactProperties.create': ok({ id: 'prop_1' }),
+    });
+
+    const result = await harness.callTool('create-contact-property', {
+      key: 'plan',
+      type: 'string',
+      fallbackValue: 'free',
+    });
+    await harness.close();
+
+    expect(harness.calls[0]).toEqual({
+      method: 'contactProperties.create',
+      args: [{ key: 'plan', type: 'string', fallbackValue: 'free' }],
+    });
+    expect(resultText(result)).toBe(
+      'Contact property created successfully.\nKey: plan\nType: string\nID: prop_1',
+    );
+  });
+
+  it('create-contact-property rejects unsupported types', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.callTool('create-contact-property', {
+      key: 'signed_up',
+      type: 'date',
+    });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('list-contact-properties pluralizes and shows missing fallbacks', async () => {
+    const harness = await createToolHarness({
+      'contactProperties.list': ok({
+        has_more: false,
+        data: [
+          {
+            id: 'prop_1',
+            key: 'plan',
+            type: 'string',
+            fallbackValue: null,
+            createdAt: '2026-01-01',
+          },
+        ],
+      }),
+    });
+
+    const result = await harness.callTool('list-contact-properties');
+    await harness.close();
+
+    expect(resultText(result)).toBe(
+      'Found 1 contact property:\nKey: plan\nType: string\nFallback value: none\nID: prop_1\nCreated at: 2026-01-01',
+    );
+  });
+
+  it('update-contact-property maps the ID and allows clearing the fallback', async () => {
+    const harness = await createToolHarness({
+      'contactProperties.update': ok({ id: 'prop_1' }),
+    });
+
+    await harness.callTool('update-contact-property', {
+      contactPropertyId: 'prop_1',
+      fallbackValue: null,
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([
+      { id: 'prop_1', fallbackValue: null },
+    ]);
+  });
+
+  it('remove-contact-property previews a dry run without calling Resend', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.callTool('remove-contact-property', {
+      contactPropertyId: 'prop_1',
+      dryRun: true,
+    });
+    await harness.close();
+
+    expect(result.structuredContent).toEqual({
+      dryRun: true,
+      method: 'contactProperties.remove',
+      arguments: ['prop_1'],
+    });
+    expect(harness.calls).toEqual([]);
+  });
+});
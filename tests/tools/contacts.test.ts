@@ -0,0 +1,222 @@
+import { describe, expect, it } from 'vitest';
+import { createToolHarness, ok, resultText } from '../support/tool-harness.js';
+
+const contact = {
+  id: 'ct_1',
+  email: 'ada@test.dev',
+  first_name: 'Ada',
+  last_name: null,
+  unsubscribed: false,
+  created_at: '2026-01-01',
+};
+
+describe('contact tools', () => {
+  it('create-contact maps segmentIds to segment objects', async () => {
+    const harness = await createToolHarness({
+      'contacts.create': ok({ id: 'ct_1' }),
+    });
+
+    const result = await harness.callTool('create-contact', {
+      email: 'ada@test.dev',
+      firstName: 'Ada',
+      segmentIds: ['seg_1', 'seg_2'],
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([
+      {
+        email: 'ada@test.dev',
+        firstName: 'Ada',
+        segments: [{ id: 'seg_1' }, { id: 'seg_2' }],
+      },
+    ]);
+    expect(resultText(result)).toBe('Contact created successfully.\nID: ct_1');
+  });
+
+  it('create-contact rejects invalid email addresses', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.callTool('create-contact', {
+      email: 'not-an-email',
+    });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('list-contacts filters by segment and skips unset names', async () => {
+    const harness = await createToolHarness({
+      'contacts.list': ok({
+        has_more: false,
+        data: [{ ...contact, properties: { plan: 'pro' } }],
+      }),
+    });
+
+    const result = await harness.callTool('list-contacts', {
+      segmentId: 'seg_1',
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([{ segmentId: 'seg_1' }]);
+    expect(resultText(result)).toBe(
+      'Found 1 contact:\nID: ct_1\nEmail: ada@test.dev\nFirst name: Ada\nUnsubscribed: false\nProperties: {"plan":"pro"}\nCreated at: 2026-01-01',
+    );
+  });
+
+  it('list-contacts with all walks every page of a segment', async () => {
+    const grace = { ...contact, id: 'ct_2', email: 'grace@test.dev' };
+    const harness = await createToolHarness({
+      'contacts.list': (options: { after?: string }) =>
+        ok(
+          options.after
+            ? { has_more: false, data: [grace] }
+            : { has_more: true, data: [contact] },
+        ),
+    });
+
+    const result = await harness.callTool('list-contacts', {
+      segmentId: 'seg_1',
+      limit: 5,
+      all: true,
+    });
+    await harness.close();
+
+    expect(harness.calls.map(({ args }) => args)).toEqual([
+      [{ segmentId: 'seg_1', limit: 100 }],
+      [{ segmentId: 'seg_1', limit: 100, after: 'ct_1' }],
+    ]);
+    expect(resultText(result)).toContain('Found 2 contacts:');
+    expect(result.structuredContent).toMatchObject({
+      has_more: false,
+      next_cursor: null,
+    });
+  });
+
+  it('get-contact looks up by email and returns structured content', async () => {
+    const harness = await createToolHarness({
+      'contacts.get': ok(contact),
+    });
+
+    const result = await harness.callTool('get-contact', {
+      email: 'ada@test.dev',
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([{ email: 'ada@test.dev' }]);
+    expect(result.structuredContent).toEqual(contact);
+  });
+
+  it('get-contact and update-contact need an ID or email', async () => {
+    const harness = await createToolHarness();
+
+    const get = await harness.callTool('get-contact');
+    const update = await harness.callTool('update-contact', {
+      firstName: 'Ada',
+    });
+    await harness.close();
+
+    expect(get.isError).toBe(true);
+    expect(update.isError).toBe(true);
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('update-contact passes null to clear a name', async () => {
+    const harness = await createToolHarness({
+      'contacts.update': ok({ id: 'ct_1' }),
+    });
+
+    await harness.callTool('update-contact', { id: 'ct_1', lastName: null });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([{ id: 'ct_1', lastName: null }]);
+  });
+
+  it('remove-contact names the contact when asking for confirmation', async () => {
+    const harness = await createToolHarness({
+      'contacts.get': ok(contact),
+    });
+
+    const result = await harness.callTool('remove-contact', { id: 'ct_1' });
+    await harness.close();
+
+    expect(resultText(result)).toContain(
+      'Remove contact Ada <ada@test.dev>. This cannot be undone.',
+    );
+    expect(harness.calls.map(({ method }) => method)).toEqual(['contacts.get']);
+  });
+
+  it('add-contact-to-segment and remove-contact-from-segment map the contact', async () => {
+    const harness = await createToolHarness({
+      'contacts.segments.add': ok({ id: 'seg_1' }),
+      'contacts.segments.remove': ok({ id: 'seg_1', deleted: true }),
+    });
+
+    await harness.callTool('add-contact-to-segment', {
+      email: 'ada@test.dev',
+      segmentId: 'seg_1',
+    });
+    await harness.callTool('remove-contact-from-segment', {
+      contactId: 'ct_1',
+      segmentId: 'seg_1',
+      confirm: true,
+    });
+    await harness.close();
+
+    expect(harness.calls).toEqual([
+      {
+        method: 'contacts.segments.add',
+        args: [{ email: 'ada@test.dev', segmentId: 'seg_1' }],
+      },
+      {
+        method: 'contacts.segments.remove',
+        args: [{ contactId: 'ct_1', segmentId: 'seg_1' }],
+      },
+    ]);
+  });
+
+  it('list-contact-topics combines the contact with pagination', async () => {
+    const harness = await createToolHarness({
+      'contacts.topics.list': ok({
+        has_more: false,
+        data: [
+          {
+            id: 'top_1',
+            name: 'Product updates',
+            description: null,
+            subscription: 'opt_in',
+          },
+        ],
+      }),
+    });
+
+    const result = await harness.callTool('list-contact-topics', {
+      email: 'ada@test.dev',
+      limit: 10,
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([
+      { email: 'ada@test.dev', limit: 10 },
+    ]);
+    expect(resultText(result)).toBe(
+      'Contact has 1 topic subscription:\nName: Product updates\nSubscription: opt_in\nID: top_1',
+    );
+  });
+
+  it('update-contact-topics passes the subscriptions through', async () => {
+    const harness = await createToolHarness({
+      'contacts.topics.update': ok({ id: 'ct_1' }),
+    });
+
+    await harness.callTool('update-contact-topics', {
+      id: 'ct_1',
+      topics: [{ id: 'top_1', subscription: 'opt_out' }],
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([
+      { id: 'ct_1', topics: [{ id: 'top_1', subscription: 'opt_out' }] },
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { createToolHarness, ok, resultText } from '../support/tool-harness.js';
+
+const dkimRecord = {
+  record: 'DKIM',
+  name: 'resend._domainkey',
+  type: 'TXT',
+  ttl: 'Auto',
+  status: 'not_started',
+  value: 'p=abc',
+};
+
+describe('domain tools', () => {
+  it('create-domain only sends options that were set', async () => {
+    const harness = await createToolHarness({
+      'domains.create': ok({
+        id: 'dom_1',
+        name: 'example.com',
+        status: 'not_started',
+        region: 'eu-west-1',
+        records: [dkimRecord],
+      }),
+    });
+
+    const result = await harness.callTool('create-domain', {
+      name: 'example.com',
+      region: 'eu-west-1',
+      openTracking: false,
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([
+      { name: 'example.com', region: 'eu-west-1', openTracking: false },
+    ]);
+    expect(resultText(result)).toContain(
+      'Name: example.com\nID: dom_1\nStatus: not_started\nRegion: eu-west-1\nOpen Tracking: false\nClick Tracking: false',
+    );
+    expect(resultText(result)).toContain(
+      'DKIM (TXT):\n  Name: resend._domainkey\n  Value: p=abc\n  TTL: Auto\n  Status: not_started',
+    );
+  });
+
+  it('create-domain rejects unknown regions', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.callTool('create-domain', {
+      name: 'example.com',
+      region: 'moon-1',
+    });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('get-domain shows capabilities and a note when there are no records', async () => {
+    const harness = await createToolHarness({
+      'domains.get': ok({
+        id: 'dom_1',
+        name: 'example.com',
+        status: 'verified',
+        region: 'us-east-1',
+        capabilities: { sending: 'enabled', receiving: 'disabled' },
+        created_at: '2026-01-01',
+        records: [],
+      }),
+    });
+
+    const result = await harness.callTool('get-domain', { id: 'dom_1' });
+    await harness.close();
+
+    expect(resultText(result)).toContain(
+      'Sending: enabled\nReceiving: disabled',
+    );
+    expect(resultText(result)).toContain('DNS Records:\n\nNo DNS records.');
+  });
+
+  it('update-domain keeps explicit false values', async () => {
+    const harness = await createToolHarness({
+      'domains.update': ok({ id: 'dom_1' }),
+    });
+
+    await harness.callTool('update-domain', {
+      id: 'dom_1',
+      clickTracking: false,
+      tls: 'enforced',
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([
+      { id: 'dom_1', clickTracking: false, tls: 'enforced' },
+    ]);
+  });
+
+  it('verify-domain starts verification', async () => {
+    const harness = await createToolHarness({
+      'domains.verify': ok({ id: 'dom_1' }),
+    });
+
+    const result = await harness.callTool('verify-domain', { id: 'dom_1' });
+    await harness.close();
+
+    expect(harness.calls).toEqual([
+      { method: 'domains.verify', args: ['dom_1'] },
+    ]);
+    expect(resultText(result)).toContain('Domain verification started.');
+  });
+});
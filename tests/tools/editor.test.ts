@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  type FakeResendServer,
+  startFakeResendServer,
+} from '../support/fake-resend-server.js';
+import { createToolHarness, resultText } from '../support/tool-harness.js';
+
+describe('editor tools', () => {
+  let fake: FakeResendServer;
+
+  beforeEach(async () => {
+    fake = await startFakeResendServer();
+  });
+
+  afterEach(async () => {
+    await fake.close();
+  });
+
+  it('connect-to-editor accepts a dashboard URL and reports the room', async () => {
+    const harness = await createToolHarness({}, { apiUrl: fake.url });
+
+    const result = await harness.callTool('connect-to-editor', {
+      resource_type: 'template',
+      resource_id: 'https://resend.com/templates/tpl_1',
+      agent_name: 'Helper',
+    });
+    await harness.close();
+
+    expect(fake.requests[0]).toMatchObject({
+      method: 'POST',
+      path: '/editor/connections',
+      body: {
+        resource_type: 'template',
+        resource_id: 'tpl_1',
+        agent_name: 'Helper',
+      },
+      apiKey: 're_test_key',
+    });
+    expect(resultText(result)).toBe(
+      'Connected to editor successfully.\nRoom ID: room_fake\nToken: key_fake',
+    );
+  });
+
+  it('disconnect-from-editor closes the active connection once', async () => {
+    const harness = await createToolHarness({}, { apiUrl: fake.url });
+
+    await harness.callTool('connect-to-editor', {
+      resource_type: 'broadcast',
+      resource_id: 'bc_1',
+    });
+    const first = await harness.callTool('disconnect-from-editor');
+    const second = await harness.callTool('disconnect-from-editor');
+    await harness.close();
+
+    expect(
+      fake.requests.map(({ method, path }) => `${method} ${path}`),
+    ).toEqual(['POST /editor/connections', 'DELETE /editor/connections']);
+    expect(resultText(first)).toBe('Disconnected from editor successfully.');
+    expect(resultText(second)).toBe(
+      'No active editor connection to disconnect.',
+    );
+  });
+
+  it('classifies editor API errors', async () => {
+    const harness = await createToolHarness({}, { apiUrl: fake.url });
+    fake.failNext({
+      status: 401,
+      body: { name: 'invalid_api_key', message: 'API key is invalid' },
+    });
+
+    const result = await harness.callTool('connect-to-editor', {
+      resource_type: 'broadcast',
+      resource_id: 'bc_1',
+    });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain(
+      'Editor request POST /editor/connections failed: API key is invalid (invalid_api_key, 401)\nCategory: auth',
+    );
+  });
+
+  it('connect-to-editor rejects an unknown resource type', async () => {
+    const harness = await createToolHarness({}, { apiUrl: fake.url });
+
+    const result = await harness.callTool('connect-to-editor', {
+      resource_type: 'segment',
+      resource_id: 'seg_1',
+    });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(fake.requests).toEqual([]);
+  });
+});
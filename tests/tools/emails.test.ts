@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import {
+  apiError,
+  createToolHarness,
+  ok,
+  resultText,
+} from '../support/tool-harness.js';
+
+const email = {
+  object: 'email',
+  id: 'em_1',
+  from: 'sender@test.dev',
+  to: ['ada@test.dev'],
+  cc: null,
+  bcc: null,
+  reply_to: null,
+  subject: 'Hello',
+  last_event: 'delivered',
+  created_at: '2026-01-01',
+  scheduled_at: null,
+  html: null,
+  text: 'Hi Ada',
+  tags: [],
+};
+
+describe('email tools', () => {
+  it('send-email uses the configured sender and decodes base64 attachments', async () => {
+    const harness = await createToolHarness(
+      { 'emails.send': ok({ id: 'em_1' }) },
+      {
+        senderEmailAddress: 'sender@test.dev',
+        replierEmailAddresses: ['support@test.dev'],
+      },
+    );
+
+    const result = await harness.callTool('send-email', {
+      to: ['ada@test.dev'],
+      subject: 'Hello',
+      text: 'Hi Ada',
+      attachments: [
+        {
+          filename: 'note.txt',
+          content: Buffer.from('note').toString('base64'),
+        },
+      ],
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([
+      {
+        to: ['ada@test.dev'],
+        subject: 'Hello',
+        text: 'Hi Ada',
+        from: 'sender@test.dev',
+        replyTo: ['support@test.dev'],
+        attachments: [{ filename: 'note.txt', content: Buffer.from('note') }],
+      },
+    ]);
+    expect(resultText(result)).toBe('Email sent successfully! {"id":"em_1"}');
+  });
+
+  it('send-email points to list-domains when the domain is not verified', async () => {
+    const harness = await createToolHarness(
+      {
+        'emails.send': apiError(
+          'validation_error',
+          'The gmail.com domain is not verified. Please, add and verify your domain on https://resend.com/domains',
+          403,
+        ),
+      },
+      { senderEmailAddress: 'someone@gmail.com' },
+    );
+
+    const result = await harness.callTool('send-email', {
+      to: ['ada@test.dev'],
+      subject: 'Hello',
+      text: 'Hi Ada',
+    });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain('Category: domain_not_verified');
+    expect(resultText(result)).toContain(
+      'Next step: Run list-domains to pick a verified sender domain',
+    );
+  });
+
+  it('send-email requires from when no sender is configured', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.callTool('send-email', {
+      to: ['ada@test.dev'],
+      subject: 'Hello',
+      text: 'Hi Ada',
+    });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('send-email rejects invalid recipient addresses', async () => {
+    const harness = await createToolHarness(
+      {},
+      { senderEmailAddress: 'sender@test.dev' },
+    );
+
+    const result = await harness.callTool('send-email', {
+      to: ['not-an-email'],
+      subject: 'Hello',
+      text: 'Hi Ada',
+    });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('get-email returns the email as structured output', async () => {
+    const harness = await createToolHarness({ 'emails.get': ok(email) });
+
+    const result = await harness.callTool('get-email', { id: 'em_1' });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual(['em_1']);
+    expect(resultText(result)).toContain(
+      '- ID: em_1\n- From: sender@test.dev\n- To: ada@test.dev\n- Subject: Hello\n- Status: delivered',
+    );
+    expect(result.structuredContent).toEqual(email);
+  });
+
+  it('cancel-email surfaces API errors', async () => {
+    const harness = await createToolHarness({
+      'emails.cancel': apiError('validation_error', 'Email already sent'),
+    });
+
+    const result = await harness.callTool('cancel-email', { id: 'em_1' });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain('Email already sent');
+  });
+
+  it('send-batch-emails fills in the sender for each email once confirmed', async () => {
+    const harness = await createToolHarness(
+      { 'batch.send': ok({ data: [{ id: 'em_1' }, { id: 'em_2' }] }) },
+      { senderEmailAddress: 'sender@test.dev' },
+    );
+
+    const result = await harness.callTool('send-batch-emails', {
+      emails: [
+        { to: ['ada@test.dev'], subject: 'Receipt', text: 'Thanks' },
+        {
+          to: ['grace@test.dev'],
+          subject: 'Receipt',
+          text: 'Thanks',
+          from: 'billing@test.dev',
+        },
+      ],
+      confirm: true,
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([
+      [
+        {
+          to: ['ada@test.dev'],
+          subject: 'Receipt',
+          text: 'Thanks',
+          from: 'sender@test.dev',
+          replyTo: [],
+        },
+        {
+          to: ['grace@test.dev'],
+          subject: 'Receipt',
+          text: 'Thanks',
+          from: 'billing@test.dev',
+          replyTo: [],
+        },
+      ],
+    ]);
+    expect(resultText(result)).toBe(
+      'Batch sent successfully! 2 email(s) queued.\nIDs: em_1, em_2',
+    );
+  });
+});
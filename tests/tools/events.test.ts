@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { createToolHarness, ok, resultText } from '../support/tool-harness.js';
+
+describe('event tools', () => {
+  it('send-event identifies the contact by email', async () => {
+    const harness = await createToolHarness({
+      'events.send': ok({ event: 'user.created' }),
+    });
+
+    await harness.callTool('send-event', {
+      event: 'user.created',
+      email: 'a@test.dev',
+      payload: { plan: 'pro' },
+    });
+    await harness.close();
+
+    expect(harness.calls[0]).toEqual({
+      method: 'events.send',
+      args: [
+        {
+          event: 'user.created',
+          email: 'a@test.dev',
+          payload: { plan: 'pro' },
+        },
+      ],
+    });
+  });
+
+  it('send-event needs exactly one of contactId and email', async () => {
+    const harness = await createToolHarness();
+
+    const neither = await harness.callTool('send-event', {
+      event: 'user.created',
+    });
+    const both = await harness.callTool('send-event', {
+      event: 'user.created',
+      contactId: 'ct_1',
+      email: 'a@test.dev',
+    });
+    await harness.close();
+
+    expect(resultText(neither)).toContain(
+      'Either "contactId" or "email" must be provided',
+    );
+    expect(resultText(both)).toContain(
+      'Provide either "contactId" or "email", not both.',
+    );
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('manage-events create passes the schema only when given', async () => {
+    const harness = await createToolHarness({
+      'events.create': ok({ id: 'evt_1' }),
+    });
+
+    const result = await harness.callTool('manage-events', {
+      action: 'create',
+      name: 'user.created',
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([{ name: 'user.created' }]);
+    expect(resultText(result)).toContain('Name: user.created\nID: evt_1');
+  });
+
+  it('manage-events update requires a schema and maps null to removal', async () => {
+    const harness = await createToolHarness({
+      'events.update': ok({ id: 'evt_1' }),
+    });
+
+    const missing = await harness.callTool('manage-events', {
+      action: 'update',
+      identifier: 'user.created',
+    });
+    await harness.callTool('manage-events', {
+      action: 'update',
+      identifier: 'user.created',
+      schema: null,
+    });
+    await harness.close();
+
+    expect(resultText(missing)).toContain('The "schema" field is required');
+    expect(harness.calls).toEqual([
+      { method: 'events.update', args: ['user.created', { schema: null }] },
+    ]);
+  });
+
+  it('manage-events get formats the schema', async () => {
+    const harness = await createToolHarness({
+      'events.get': ok({
+        id: 'evt_1',
+        name: 'user.created',
+        schema: { plan: 'string' },
+        created_at: '2026-01-01',
+        updated_at: null,
+      }),
+    });
+
+    const result = await harness.callTool('manage-events', {
+      action: 'get',
+      identifier: 'evt_1',
+    });
+    await harness.close();
+
+    expect(resultText(result)).toBe(
+      'Name: user.created\nID: evt_1\nSchema: {"plan":"string"}\nCreated: 2026-01-01\nUpdated: never',
+    );
+  });
+
+  it('manage-events remove needs confirmation', async () => {
+    const harness = await createToolHarness({
+      'events.get': ok({ id: 'evt_1', name: 'user.created' }),
+      'events.remove': ok({ id: 'evt_1' }),
+    });
+
+    const refused = await harness.callTool('manage-events', {
+      action: 'remove',
+      identifier: 'user.created',
+    });
+    const removed = await harness.callTool('manage-events', {
+      action: 'remove',
+      identifier: 'user.created',
+      confirm: true,
+    });
+    await harness.close();
+
+    expect(refused.isError).toBe(true);
+    expect(resultText(refused)).toContain(
+      'Remove event "user.created" (evt_1)',
+    );
+    expect(resultText(removed)).toBe('Event removed successfully.\nID: evt_1');
+    expect(harness.calls.map(({ method }) => method)).toEqual([
+      'events.get',
+      'events.remove',
+    ]);
+  });
+});
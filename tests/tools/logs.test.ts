@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  apiError,
+  createToolHarness,
+  ok,
+  resultText,
+} from '../support/tool-harness.js';
+
+describe('log tools', () => {
+  it('list-logs maps backward pagination and formats each log', async () => {
+    const harness = await createToolHarness({
+      'logs.list': ok({
+        has_more: false,
+        data: [
+          {
+            id: 'log_1',
+            created_at: '2026-01-01',
+            endpoint: '/emails',
+            method: 'POST',
+            response_status: 200,
+            user_agent: 'resend-node',
+          },
+        ],
+      }),
+    });
+
+    const result = await harness.callTool('list-logs', {
+      limit: 5,
+      before: 'log_9',
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([{ limit: 5, before: 'log_9' }]);
+    expect(resultText(result)).toBe(
+      'Found 1 log:\nID: log_1\nEndpoint: POST /emails\nStatus: 200\nUser Agent: resend-node\nCreated at: 2026-01-01',
+    );
+  });
+
+  it('list-logs rejects a limit over 100', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.callTool('list-logs', { limit: 101 });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('get-log includes request and response bodies', async () => {
+    const harness = await createToolHarness({
+      'logs.get': ok({
+        id: 'log_1',
+        created_at: '2026-01-01',
+        endpoint: '/emails',
+        method: 'POST',
+        response_status: 422,
+        user_agent: 'curl',
+        request_body: { to: 'a@test.dev' },
+        response_body: { message: 'Missing subject' },
+      }),
+    });
+
+    const result = await harness.callTool('get-log', { logId: 'log_1' });
+    await harness.close();
+
+    expect(harness.calls[0]).toEqual({ method: 'logs.get', args: ['log_1'] });
+    expect(resultText(result)).toContain(
+      'Request Body:\n{\n  "to": "a@test.dev"\n}',
+    );
+    expect(resultText(result)).toContain(
+      'Response Body:\n{\n  "message": "Missing subject"\n}',
+    );
+  });
+
+  it('get-log surfaces API errors', async () => {
+    const harness = await createToolHarness({
+      'logs.get': apiError('not_found', 'Log not found', 404),
+    });
+
+    const result = await harness.callTool('get-log', { logId: 'log_x' });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain('Failed to get log');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import {
+  apiError,
+  createToolHarness,
+  ok,
+  resultText,
+} from '../support/tool-harness.js';
+
+describe('segment tools', () => {
+  it('create-segment passes the name and reports the new segment', async () => {
+    const harness = await createToolHarness({
+      'segments.create': ok({ id: 'seg_1', name: 'Newsletter' }),
+    });
+
+    const result = await harness.callTool('create-segment', {
+      name: 'Newsletter',
+    });
+    await harness.close();
+
+    expect(harness.calls).toEqual([
+      { method: 'segments.create', args: [{ name: 'Newsletter' }] },
+    ]);
+    expect(resultText(result)).toBe(
+      'Segment created successfully.\nName: Newsletter\nID: seg_1',
+    );
+  });
+
+  it('create-segment rejects an empty name before calling Resend', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.callTool('create-segment', { name: '' });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('list-segments maps pagination and formats each segment', async () => {
+    const harness = await createToolHarness({
+      'segments.list': ok({
+        object: 'list',
+        has_more: true,
+        data: [
+          { id: 'seg_1', name: 'Newsletter', created_at: '2026-01-01' },
+          { id: 'seg_2', name: 'Customers', created_at: '2026-01-02' },
+        ],
+      }),
+    });
+
+    const result = await harness.callTool('list-segments', {
+      limit: 2,
+      after: 'seg_0',
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([{ limit: 2, after: 'seg_0' }]);
+    expect(resultText(result)).toBe(
+      [
+        'Found 2 segments:',
+        'Name: Newsletter\nID: seg_1\nCreated at: 2026-01-01',
+        'Name: Customers\nID: seg_2\nCreated at: 2026-01-02',
+        'There are more segments available. Use the "after" parameter with the last ID to retrieve more.',
+      ].join('\n'),
+    );
+  });
+
+  it('list-segments rejects after and before together', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.callTool('list-segments', {
+      after: 'seg_1',
+      before: 'seg_2',
+    });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain(
+      'Cannot use both "after" and "before"',
+    );
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('get-segment surfaces API errors', async () => {
+    const harness = await createToolHarness({
+      'segments.get': apiError('not_found', 'Segment not found', 404),
+    });
+
+    const result = await harness.callTool('get-segment', { id: 'seg_x' });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toBe(
+      'Failed to get segment: Segment not found (not_found, 404)\nCategory: not_found\nNext step: Check the ID. Call the matching list tool (e.g. list-segments for a segment ID) to find a valid one.',
+    );
+  });
+
+  it('remove-segment removes by ID once confirmed', async () => {
+    const harness = await createToolHarness({
+      'segments.remove': ok({ object: 'segment', id: 'seg_1', deleted: true }),
+    });
+
+    const result = await harness.callTool('remove-segment', {
+      id: 'seg_1',
+      confirm: true,
+    });
+    await harness.close();
+
+    expect(harness.calls).toEqual([
+      { method: 'segments.remove', args: ['seg_1'] },
+    ]);
+    expect(resultText(result)).toBe('Segment removed successfully.\nID: seg_1');
+  });
+});
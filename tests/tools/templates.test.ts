@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { createToolHarness, ok, resultText } from '../support/tool-harness.js';
+
+const template = {
+  object: 'template',
+  id: 'tpl_1',
+  name: 'Welcome',
+  status: 'draft',
+  alias: 'welcome',
+  created_at: '2026-01-01',
+  updated_at: '2026-01-02',
+  published_at: null,
+  subject: 'Hi {{{NAME}}}',
+  from: null,
+  reply_to: null,
+  html: '<p>Hi {{{NAME}}}</p>',
+  text: null,
+  variables: [{ key: 'NAME', type: 'string', fallback_value: 'there' }],
+};
+
+describe('template tools', () => {
+  it('create-template omits optional fields that were not set', async () => {
+    const harness = await createToolHarness({
+      'templates.create': ok({ id: 'tpl_1' }),
+    });
+
+    const result = await harness.callTool('create-template', {
+      name: 'Welcome',
+      html: '<p>Hi</p>',
+      alias: 'welcome',
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([
+      { name: 'Welcome', html: '<p>Hi</p>', alias: 'welcome' },
+    ]);
+    expect(resultText(result)).toContain(
+      'Template created successfully (draft).\nID: tpl_1',
+    );
+  });
+
+  it('create-template rejects an empty name', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.callTool('create-template', {
+      name: '',
+      html: '<p>Hi</p>',
+    });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('list-templates rejects after and before together', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.callTool('list-templates', {
+      after: 'tpl_1',
+      before: 'tpl_2',
+    });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain(
+      'Cannot use both "after" and "before" parameters.',
+    );
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('list-templates returns templates as structured output', async () => {
+    const { subject, from, reply_to, html, text, variables, ...summary } =
+      template;
+    const harness = await createToolHarness({
+      'templates.list': ok({ object: 'list', has_more: true, data: [summary] }),
+    });
+
+    const result = await harness.callTool('list-templates', { limit: 1 });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([{ limit: 1 }]);
+    expect(resultText(result)).toContain(
+      'Found 1 template:\nName: Welcome\nStatus: draft\nAlias: welcome\nID: tpl_1',
+    );
+    expect(result.structuredContent).toEqual({
+      templates: [summary],
+      has_more: true,
+      next_cursor: 'tpl_1',
+    });
+  });
+
+  it('get-template accepts a dashboard URL and lists variables', async () => {
+    const harness = await createToolHarness({
+      'templates.get': ok(template),
+    });
+
+    const result = await harness.callTool('get-template', {
+      id: 'https://resend.com/templates/tpl_1',
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual(['tpl_1']);
+    expect(resultText(result)).toContain(
+      'Variables:\n  {{{NAME}}} (string) — fallback: there',
+    );
+    expect(result.structuredContent).toEqual(template);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { createToolHarness, ok, resultText } from '../support/tool-harness.js';
+
+describe('topic tools', () => {
+  it('create-topic passes the subscription default and omits an empty description', async () => {
+    const harness = await createToolHarness({
+      'topics.create': ok({ id: 'top_1' }),
+    });
+
+    const result = await harness.callTool('create-topic', {
+      name: 'Product updates',
+      defaultSubscription: 'opt_in',
+    });
+    await harness.close();
+
+    expect(harness.calls).toEqual([
+      {
+        method: 'topics.create',
+        args: [{ name: 'Product updates', defaultSubscription: 'opt_in' }],
+      },
+    ]);
+    expect(resultText(result)).toBe(
+      'Topic created successfully.\nName: Product updates\nID: top_1',
+    );
+  });
+
+  it('create-topic rejects an unknown subscription default', async () => {
+    const harness = await createToolHarness();
+
+    const result = await harness.callTool('create-topic', {
+      name: 'Product updates',
+      defaultSubscription: 'maybe',
+    });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('list-topics formats each topic', async () => {
+    const harness = await createToolHarness({
+      'topics.list': ok({
+        data: [
+          {
+            id: 'top_1',
+            name: 'Product updates',
+            description: '',
+            default_subscription: 'opt_out',
+            visibility: 'public',
+          },
+        ],
+      }),
+    });
+
+    const result = await harness.callTool('list-topics');
+    await harness.close();
+
+    expect(harness.calls).toEqual([{ method: 'topics.list', args: [] }]);
+    expect(resultText(result)).toBe(
+      'Found 1 topic:\nName: Product updates\nID: top_1\nDescription: (none)\nDefault subscription: opt_out\nVisibility: public',
+    );
+  });
+
+  it('update-topic only sends the fields that were given', async () => {
+    const harness = await createToolHarness({
+      'topics.update': ok({ id: 'top_1' }),
+    });
+
+    const result = await harness.callTool('update-topic', {
+      id: 'top_1',
+      description: 'Monthly news',
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([
+      { id: 'top_1', description: 'Monthly news' },
+    ]);
+    expect(resultText(result)).toBe('Topic updated successfully.\nID: top_1');
+  });
+
+  it('remove-topic asks for confirmation without calling remove', async () => {
+    const harness = await createToolHarness({
+      'topics.get': ok({ id: 'top_1', name: 'Product updates' }),
+    });
+
+    const result = await harness.callTool('remove-topic', { id: 'top_1' });
+    await harness.close();
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain(
+      'Remove topic "Product updates" (top_1)',
+    );
+    expect(harness.calls.map(({ method }) => method)).toEqual(['topics.get']);
+  });
+});
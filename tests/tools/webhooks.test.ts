@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { createToolHarness, ok, resultText } from '../support/tool-harness.js';
+
+describe('webhook tools', () => {
+  it('create-webhook passes endpoint and events and shows the signing secret', async () => {
+    const harness = await createToolHarness({
+      'webhooks.create': ok({ id: 'wh_1', signing_secret: 'whsec_1' }),
+    });
+
+    const result = await harness.callTool('create-webhook', {
+      endpoint: 'https://example.com/hooks',
+      events: ['email.sent', 'email.bounced'],
+    });
+    await harness.close();
+
+    expect(harness.calls).toEqual([
+      {
+        method: 'webhooks.create',
+        args: [
+          {
+            endpoint: 'https://example.com/hooks',
+            events: ['email.sent', 'email.bounced'],
+          },
+        ],
+      },
+    ]);
+    expect(resultText(result)).toContain('ID: wh_1\nSigning Secret: whsec_1');
+  });
+
+  it('create-webhook rejects unknown events and invalid endpoints', async () => {
+    const harness = await createToolHarness();
+
+    const badEvent = await harness.callTool('create-webhook', {
+      endpoint: 'https://example.com/hooks',
+      events: ['email.teleported'],
+    });
+    const badEndpoint = await harness.callTool('create-webhook', {
+      endpoint: 'not a url',
+      events: ['email.sent'],
+    });
+    await harness.close();
+
+    expect(badEvent.isError).toBe(true);
+    expect(badEndpoint.isError).toBe(true);
+    expect(harness.calls).toEqual([]);
+  });
+
+  it('list-webhooks formats events and status', async () => {
+    const harness = await createToolHarness({
+      'webhooks.list': ok({
+        data: [
+          {
+            id: 'wh_1',
+            endpoint: 'https://example.com/hooks',
+            status: 'enabled',
+            events: ['email.sent', 'email.opened'],
+            created_at: '2026-01-01',
+          },
+        ],
+      }),
+    });
+
+    const result = await harness.callTool('list-webhooks');
+    await harness.close();
+
+    expect(resultText(result)).toBe(
+      'Found 1 webhook:\nEndpoint: https://example.com/hooks\nStatus: enabled\nEvents: email.sent, email.opened\nID: wh_1\nCreated at: 2026-01-01',
+    );
+  });
+
+  it('update-webhook passes the ID separately from the changes', async () => {
+    const harness = await createToolHarness({
+      'webhooks.update': ok({ id: 'wh_1' }),
+    });
+
+    await harness.callTool('update-webhook', {
+      webhookId: 'wh_1',
+      status: 'disabled',
+    });
+    await harness.close();
+
+    expect(harness.calls[0].args).toEqual([
+      'wh_1',
+      { endpoint: undefined, events: undefined, status: 'disabled' },
+    ]);
+  });
+});
@@ -0,0 +1,210 @@
+import { createHash, randomBytes } from 'node:crypto';
+import type { Server } from 'node:http';
+import { createServer } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runHttp } from '../../src/transports/http.js';
+
+/** A port nothing listens on, so the issuer URL can name it up front. */
+async function freePort(): Promise<number> {
+  const probe = createServer();
+  await new Promise<void>((resolve) => probe.listen(0, '127.0.0.1', resolve));
+  const { port } = probe.address() as { port: number };
+  await new Promise((resolve) => probe.close(resolve));
+  return port;
+}
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'oauth-test', version: '1.0.0' },
+  },
+};
+
+describe('runHttp with OAuth', () => {
+  let server: Server;
+  let base: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const port = await freePort();
+    base = `http://localhost:${port}`;
+    server = await runHttp({ replierEmailAddresses: [] }, port, {
+      oauth: { issuerUrl: base },
+    });
+  });
+
+  afterEach(() => {
+    server.close();
+    vi.restoreAllMocks();
+  });
+
+  /** Register a client and sign in through the consent page. */
+  async function signIn(form: Record<string, string>) {
+    const registered = await fetch(`${base}/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        client_name: 'Test Client',
+        redirect_uris: ['http://localhost:9999/callback'],
+        token_endpoint_auth_method: 'none',
+      }),
+    }).then((res) => res.json());
+
+    const verifier = randomBytes(32).toString('base64url');
+    const authorizeUrl = new URL(`${base}/authorize`);
+    authorizeUrl.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: registered.client_id,
+      redirect_uri: 'http://localhost:9999/callback',
+      code_challenge: createHash('sha256').update(verifier).digest('base64url'),
+      code_challenge_method: 'S256',
+      state: 'st_1',
+      resource: `${base}/mcp`,
+    }).toString();
+    const page = await fetch(authorizeUrl).then((res) => res.text());
+    const requestId = page.match(/name="request_id" value="([^"]+)"/)?.[1];
+
+    const consent = await fetch(`${base}/oauth/consent`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ request_id: requestId ?? '', ...form }),
+      redirect: 'manual',
+    });
+    const callback = new URL(consent.headers.get('location') ?? '');
+    const code = callback.searchParams.get('code') ?? '';
+
+    const tokens = await fetch(`${base}/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        client_id: registered.client_id,
+        code,
+        code_verifier: verifier,
+        redirect_uri: 'http://localhost:9999/callback',
+        resource: `${base}/mcp`,
+      }),
+    }).then((res) => res.json());
+    return { callback, tokens };
+  }
+
+  function postMcp(token: string | undefined, body: unknown) {
+    return fetch(`${base}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('advertises the authorization server through protected-resource metadata', async () => {
+    const unauthorized = await postMcp(undefined, initialize);
+    const resource = await fetch(
+      `${base}/.well-known/oauth-protected-resource/mcp`,
+    ).then((res) => res.json());
+    const metadata = await fetch(
+      `${base}/.well-known/oauth-authorization-server`,
+    ).then((res) => res.json());
+
+    expect(unauthorized.status).toBe(401);
+    expect(unauthorized.headers.get('www-authenticate')).toContain(
+      `resource_metadata="${base}/.well-known/oauth-protected-resource/mcp"`,
+    );
+    expect(resource).toMatchObject({
+      resource: `${base}/mcp`,
+      authorization_servers: [`${base}/`],
+      scopes_supported: ['resend:read', 'resend:write'],
+    });
+    expect(metadata).toMatchObject({
+      authorization_endpoint: `${base}/authorize`,
+      token_endpoint: `${base}/token`,
+      registration_endpoint: `${base}/register`,
+      code_challenge_methods_supported: ['S256'],
+    });
+  });
+
+  it('signs in through the consent page and opens a session with the token', async () => {
+    const { callback, tokens } = await signIn({
+      decision: 'approve',
+      api_key: 're_oauth_test',
+      allow_write: 'true',
+    });
+
+    const session = await postMcp(tokens.access_token, initialize);
+
+    expect(callback.searchParams.get('state')).toBe('st_1');
+    expect(tokens).toMatchObject({
+      token_type: 'Bearer',
+      scope: 'resend:read resend:write',
+    });
+    expect(tokens.access_token).not.toContain('re_oauth_test');
+    expect(session.status).toBe(200);
+    expect(session.headers.get('mcp-session-id')).toBeTruthy();
+    await session.body?.cancel();
+  });
+
+  it('rejects a session ID presented with another user’s token', async () => {
+    const first = await signIn({ decision: 'approve', api_key: 're_first' });
+    const second = await signIn({ decision: 'approve', api_key: 're_second' });
+    const session = await postMcp(first.tokens.access_token, initialize);
+    await session.body?.cancel();
+
+    const hijack = await fetch(`${base}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: `Bearer ${second.tokens.access_token}`,
+        'mcp-session-id': session.headers.get('mcp-session-id') ?? '',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }),
+    });
+
+    expect(hijack.status).toBe(403);
+  });
+
+  it('refuses a read-only token for a session opened with write access', async () => {
+    const writer = await signIn({
+      decision: 'approve',
+      api_key: 're_shared',
+      allow_write: 'true',
+    });
+    const reader = await signIn({ decision: 'approve', api_key: 're_shared' });
+    const session = await postMcp(writer.tokens.access_token, initialize);
+    await session.body?.cancel();
+    const ping = (token: string) =>
+      fetch(`${base}/mcp`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          Authorization: `Bearer ${token}`,
+          'mcp-session-id': session.headers.get('mcp-session-id') ?? '',
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }),
+      });
+
+    const downgraded = await ping(reader.tokens.access_token);
+    const original = await ping(writer.tokens.access_token);
+    await original.body?.cancel();
+
+    expect(reader.tokens.scope).toBe('resend:read');
+    expect(downgraded.status).toBe(403);
+    expect(await downgraded.text()).toContain('resend:write');
+    expect(original.status).toBe(200);
+  });
+
+  it('sends the user back with access_denied when they deny', async () => {
+    const { callback } = await signIn({ decision: 'deny' });
+
+    expect(callback.searchParams.get('error')).toBe('access_denied');
+    expect(callback.searchParams.get('code')).toBeNull();
+  });
+});
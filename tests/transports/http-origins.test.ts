@@ -0,0 +1,167 @@
+import { request, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runHttp } from '../../src/transports/http.js';
+
+const initialize = JSON.stringify({
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'origins-test', version: '1.0.0' },
+  },
+});
+
+const mcpHeaders = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream',
+  Authorization: 'Bearer re_origins',
+};
+
+describe('runHttp hosts and origins', () => {
+  let server: Server | undefined;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    server?.close();
+    vi.restoreAllMocks();
+  });
+
+  // fetch always sends the real host, so set the header by hand.
+  function sendWithHost(
+    url: string,
+    host: string,
+    { method = 'GET', headers = {}, body = '' } = {},
+  ) {
+    return new Promise<number | undefined>((resolve, reject) => {
+      request(url, { method, headers: { ...headers, Host: host } }, (res) => {
+        res.resume();
+        resolve(res.statusCode);
+      })
+        .on('error', reject)
+        .end(body);
+    });
+  }
+
+  async function start(options: Parameters<typeof runHttp>[2]) {
+    server = await runHttp({ replierEmailAddresses: [] }, 0, options);
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  it('listens on the given host and prints the bound address', async () => {
+    await start({ host: '127.0.0.1' });
+
+    expect((server?.address() as AddressInfo).address).toBe('127.0.0.1');
+    expect(console.error).toHaveBeenCalledWith(
+      `Resend MCP server listening on http://127.0.0.1:${(server?.address() as AddressInfo).port}`,
+    );
+  });
+
+  it('only accepts the allowed Host headers', async () => {
+    const base = await start({ allowedHosts: ['mcp.internal'] });
+    const health = (host: string) => sendWithHost(`${base}/health`, host);
+
+    expect(await health('mcp.internal:3000')).toBe(200);
+    expect(await health('127.0.0.1')).toBe(403);
+  });
+
+  it('checks the Host header when listening on another address without --allowed-hosts', async () => {
+    // Outside the loopback names, so it is treated like a LAN address.
+    server = await runHttp({ replierEmailAddresses: [] }, 0, {
+      host: '127.0.0.2',
+    });
+    const { port } = server.address() as AddressInfo;
+    const url = `http://127.0.0.2:${port}/mcp`;
+    const rebound = (host: string) =>
+      sendWithHost(url, host, {
+        method: 'POST',
+        headers: { ...mcpHeaders, Origin: `http://${host}` },
+        body: initialize,
+      });
+
+    expect(await rebound(`attacker.example:${port}`)).toBe(403);
+    expect(await rebound(`127.0.0.2:${port}`)).toBe(200);
+    expect(
+      await sendWithHost(
+        `http://127.0.0.2:${port}/health`,
+        `localhost:${port}`,
+      ),
+    ).toBe(200);
+  });
+
+  it('answers CORS preflights and adds CORS headers for allowed origins', async () => {
+    const base = await start({ allowedOrigins: ['https://app.example.com'] });
+
+    const preflight = await fetch(`${base}/mcp`, {
+      method: 'OPTIONS',
+      headers: {
+        Origin: 'https://app.example.com',
+        'Access-Control-Request-Method': 'POST',
+        'Access-Control-Request-Headers': 'authorization, content-type',
+      },
+    });
+    const posted = await fetch(`${base}/mcp`, {
+      method: 'POST',
+      headers: { ...mcpHeaders, Origin: 'https://app.example.com' },
+      body: initialize,
+    });
+    await posted.body?.cancel();
+
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('access-control-allow-origin')).toBe(
+      'https://app.example.com',
+    );
+    expect(preflight.headers.get('access-control-allow-headers')).toContain(
+      'Mcp-Session-Id',
+    );
+    expect(posted.status).toBe(200);
+    expect(posted.headers.get('access-control-allow-origin')).toBe(
+      'https://app.example.com',
+    );
+    expect(posted.headers.get('access-control-expose-headers')).toContain(
+      'Mcp-Session-Id',
+    );
+  });
+
+  it('refuses browser requests from other origins but not originless ones', async () => {
+    const base = await start({ allowedOrigins: ['https://app.example.com'] });
+
+    const foreign = await fetch(`${base}/mcp`, {
+      method: 'POST',
+      headers: { ...mcpHeaders, Origin: 'https://evil.example' },
+      body: initialize,
+    });
+    const desktop = await fetch(`${base}/mcp`, {
+      method: 'POST',
+      headers: mcpHeaders,
+      body: initialize,
+    });
+    await desktop.body?.cancel();
+
+    expect(foreign.status).toBe(403);
+    expect(foreign.headers.get('access-control-allow-origin')).toBeNull();
+    expect(desktop.status).toBe(200);
+  });
+
+  it('allows any origin with *', async () => {
+    const base = await start({ allowedOrigins: ['*'] });
+
+    const res = await fetch(`${base}/mcp`, {
+      method: 'POST',
+      headers: { ...mcpHeaders, Origin: 'http://localhost:6274' },
+      body: initialize,
+    });
+    await res.body?.cancel();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('access-control-allow-origin')).toBe(
+      'http://localhost:6274',
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryEventStorage } from '../../src/lib/event-store.js';
+import { runHttp } from '../../src/transports/http.js';
+
+const PROTOCOL_VERSION = '2025-11-25';
+
+describe('runHttp with an event store', () => {
+  let server: Server;
+  let url: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    server = await runHttp({ replierEmailAddresses: [] }, 0, {
+      eventStorage: new MemoryEventStorage(),
+    });
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+  });
+
+  afterEach(() => {
+    server.close();
+    vi.restoreAllMocks();
+  });
+
+  function headers(sessionId?: string, lastEventId?: string) {
+    return {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      Authorization: 'Bearer re_resume',
+      'mcp-protocol-version': PROTOCOL_VERSION,
+      ...(sessionId && { 'mcp-session-id': sessionId }),
+      ...(lastEventId && { 'last-event-id': lastEventId }),
+    };
+  }
+
+  async function openSession(): Promise<string> {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: {
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: {},
+          clientInfo: { name: 'resume-test', version: '1.0.0' },
+        },
+      }),
+    });
+    await res.body?.cancel();
+    return res.headers.get('mcp-session-id') ?? '';
+  }
+
+  /** Read an open SSE stream until `done` matches what has arrived so far. */
+  async function readUntil(res: Response, done: (text: string) => boolean) {
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    while (!done(text)) {
+      const { value, done: ended } = await reader.read();
+      if (ended) break;
+      text += decoder.decode(value);
+    }
+    await reader.cancel();
+    return text;
+  }
+
+  it('replays a missed response to a client reconnecting with Last-Event-ID', async () => {
+    const sessionId = await openSession();
+    const listed = await fetch(url, {
+      method: 'POST',
+      headers: headers(sessionId),
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+    // Pretend the connection dropped right after the priming event.
+    const primingEventId = (await listed.text()).match(/^id: (.+)$/m)?.[1];
+
+    const resumed = await fetch(url, {
+      method: 'GET',
+      headers: headers(sessionId, primingEventId),
+    });
+    const replayed = await readUntil(resumed, (text) =>
+      text.includes('"id":2'),
+    );
+
+    expect(resumed.status).toBe(200);
+    expect(replayed).toContain('"tools"');
+  });
+
+  it('refuses to replay events from another session', async () => {
+    const owner = await openSession();
+    const other = await openSession();
+    const listed = await fetch(url, {
+      method: 'POST',
+      headers: headers(owner),
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+    const eventId = (await listed.text()).match(/^id: (.+)$/m)?.[1];
+
+    const stolen = await fetch(url, {
+      method: 'GET',
+      headers: headers(other, eventId),
+    });
+
+    expect(stolen.status).toBe(400);
+  });
+});
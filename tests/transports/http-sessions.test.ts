@@ -0,0 +1,135 @@
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SessionLimits } from '../../src/lib/session-registry.js';
+import { runHttp } from '../../src/transports/http.js';
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'sessions-test', version: '1.0.0' },
+  },
+};
+
+describe('runHttp session limits', () => {
+  let server: Server | undefined;
+  let base: string;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    server?.close();
+    vi.restoreAllMocks();
+  });
+
+  async function start(sessionLimits: SessionLimits) {
+    server = await runHttp({ replierEmailAddresses: [] }, 0, {
+      sessionLimits,
+    });
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  async function post(apiKey: string, body: unknown, sessionId?: string) {
+    const res = await fetch(`${base}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: `Bearer ${apiKey}`,
+        ...(sessionId && { 'mcp-session-id': sessionId }),
+      },
+      body: JSON.stringify(body),
+    });
+    await res.body?.cancel();
+    return res;
+  }
+
+  async function health() {
+    return fetch(`${base}/health`).then((res) => res.json());
+  }
+
+  it('counts open sessions and API keys on /health', async () => {
+    await start({ idleTimeoutMs: 0, maxAgeMs: 0, maxPerKey: 0 });
+
+    await post('re_first', initialize);
+    await post('re_first', initialize);
+    await post('re_second', initialize);
+
+    expect(await health()).toEqual({
+      status: 'ok',
+      sessions: { active: 3, apiKeys: 2 },
+    });
+  });
+
+  it('rejects new sessions once an API key holds the maximum', async () => {
+    await start({ idleTimeoutMs: 0, maxAgeMs: 0, maxPerKey: 1 });
+
+    const first = await post('re_first', initialize);
+    const second = await post('re_first', initialize);
+    const otherKey = await post('re_second', initialize);
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(429);
+    expect(otherKey.status).toBe(200);
+  });
+
+  it('holds the limit across concurrent initializations', async () => {
+    await start({ idleTimeoutMs: 0, maxAgeMs: 0, maxPerKey: 2 });
+
+    const responses = await Promise.all(
+      [1, 2, 3, 4].map(() => post('re_first', initialize)),
+    );
+
+    expect(responses.map(({ status }) => status).sort()).toEqual([
+      200, 200, 429, 429,
+    ]);
+    expect((await health()).sessions).toEqual({ active: 2, apiKeys: 1 });
+  });
+
+  it('frees the slot of a session that fails to initialize', async () => {
+    await start({ idleTimeoutMs: 0, maxAgeMs: 0, maxPerKey: 1 });
+
+    const refused = await fetch(`${base}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        Authorization: 'Bearer re_first',
+      },
+      body: JSON.stringify(initialize),
+    });
+    await refused.body?.cancel();
+
+    expect(refused.status).toBe(406);
+    expect((await post('re_first', initialize)).status).toBe(200);
+  });
+
+  it('refuses a session ID presented with another API key', async () => {
+    await start({ idleTimeoutMs: 0, maxAgeMs: 0, maxPerKey: 0 });
+    const opened = await post('re_first', initialize);
+    const sessionId = opened.headers.get('mcp-session-id') ?? '';
+    const ping = { jsonrpc: '2.0', id: 2, method: 'ping' };
+
+    expect((await post('re_second', ping, sessionId)).status).toBe(403);
+    expect((await post('re_first', ping, sessionId)).status).toBe(200);
+  });
+
+  it('treats a session idle past its timeout as gone', async () => {
+    await start({ idleTimeoutMs: 50, maxAgeMs: 0, maxPerKey: 1 });
+    const opened = await post('re_first', initialize);
+    const sessionId = opened.headers.get('mcp-session-id') ?? '';
+
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    const ping = { jsonrpc: '2.0', id: 2, method: 'ping' };
+
+    expect((await post('re_first', ping, sessionId)).status).toBe(404);
+    expect((await health()).sessions).toEqual({ active: 0, apiKeys: 0 });
+    expect((await post('re_first', initialize)).status).toBe(200);
+  });
+});
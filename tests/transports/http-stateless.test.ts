@@ -0,0 +1,103 @@
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runHttp } from '../../src/transports/http.js';
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'stateless-test', version: '1.0.0' },
+  },
+};
+
+describe('runHttp in stateless mode', () => {
+  let replicas: Server[];
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    replicas = await Promise.all(
+      [0, 1].map(() =>
+        runHttp({ replierEmailAddresses: [] }, 0, { stateless: true }),
+      ),
+    );
+  });
+
+  afterEach(() => {
+    for (const replica of replicas) replica.close();
+    vi.restoreAllMocks();
+  });
+
+  function url(replica: number, path: string): string {
+    const { port } = replicas[replica].address() as AddressInfo;
+    return `http://127.0.0.1:${port}${path}`;
+  }
+
+  function post(replica: number, body: unknown, apiKey?: string) {
+    return fetch(url(replica, '/mcp'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  /** The JSON-RPC message in a single-event SSE response. */
+  async function readMessage(res: Response) {
+    const data = (await res.text())
+      .split('\n')
+      .find((line) => line.startsWith('data: '));
+    return JSON.parse(data?.slice('data: '.length) ?? 'null');
+  }
+
+  it('answers without a session ID, on any replica', async () => {
+    const initialized = await post(0, initialize, 're_stateless');
+    const listed = await post(
+      1,
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      're_stateless',
+    );
+
+    expect(initialized.status).toBe(200);
+    expect(initialized.headers.get('mcp-session-id')).toBeNull();
+    expect((await readMessage(initialized)).result.serverInfo).toBeDefined();
+    expect(listed.status).toBe(200);
+    expect(
+      (await readMessage(listed)).result.tools.map(
+        (tool: { name: string }) => tool.name,
+      ),
+    ).toContain('send-email');
+  });
+
+  it('requires the API key on every request', async () => {
+    const res = await post(0, { jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects GET and DELETE, which need a session', async () => {
+    const get = await fetch(url(0, '/mcp'), {
+      headers: { Authorization: 'Bearer re_stateless' },
+    });
+    const del = await fetch(url(0, '/mcp'), {
+      method: 'DELETE',
+      headers: { Authorization: 'Bearer re_stateless' },
+    });
+
+    expect(get.status).toBe(405);
+    expect(del.status).toBe(405);
+    expect(get.headers.get('allow')).toBe('POST');
+  });
+
+  it('reports no session counts on /health', async () => {
+    const body = await fetch(url(0, '/health')).then((res) => res.json());
+
+    expect(body).toEqual({ status: 'ok' });
+  });
+});
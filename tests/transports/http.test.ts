@@ -23,7 +23,7 @@ describe('runHttp', () => {
     server.close();
   });
 
-  it('GET /health returns 200 with status ok', async () => {
+  it('GET /health returns 200 with status ok and session counts', async () => {
     const server = await runHttp({ replierEmailAddresses: [] }, 0);
     const { port } = server.address() as AddressInfo;
 
@@ -31,7 +31,10 @@ describe('runHttp', () => {
     const body = await res.json();
 
     expect(res.status).toBe(200);
-    expect(body).toEqual({ status: 'ok' });
+    expect(body).toEqual({
+      status: 'ok',
+      sessions: { active: 0, apiKeys: 0 },
+    });
 
     server.close();
   });